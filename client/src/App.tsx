@@ -10,7 +10,13 @@ import Conversations from "@/pages/conversations";
 import Chat from "@/pages/chat";
 import Bubbles from "@/pages/bubbles";
 import Article from "@/pages/article";
+import Articles from "@/pages/articles";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth";
+import LockScreen from "@/components/lock-screen";
+import { useAuth } from "@/hooks/use-auth";
+import { useAppLock, useIdleTimeout } from "@/hooks/use-app-lock";
 import type { ConversationWithStats } from "@shared/schema";
 
 // Bubbles listing component - shows all conversations with bubbles
@@ -57,55 +63,31 @@ function BubblesListing() {
   );
 }
 
-// Articles listing component - shows all conversations with articles
-function ArticlesListing() {
-  const [, navigate] = useLocation();
-  const { data: conversations = [] } = useQuery<ConversationWithStats[]>({
-    queryKey: ["/api/conversations"],
-  });
-
+function Loading() {
   return (
-    <div className="p-6">
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-2xl font-bold mb-6">Articles</h1>
-        <p className="text-gray-600 mb-6">Select a conversation to create or view articles from its thought bubbles</p>
-        
-        <div className="grid gap-4">
-          {conversations.map((conversation) => (
-            <div 
-              key={conversation.id}
-              className="border rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-              onClick={() => navigate(`/article/${conversation.id}`)}
-            >
-              <h3 className="font-medium">{conversation.name}</h3>
-              <p className="text-sm text-gray-500">
-                {conversation.messageCount} messages
-              </p>
-            </div>
-          ))}
-        </div>
-        
-        {conversations.length === 0 && (
-          <div className="text-center py-12">
-            <p className="text-gray-500">No conversations found.</p>
-            <button 
-              onClick={() => navigate('/conversations')}
-              className="mt-4 text-primary hover:underline"
-            >
-              Create your first conversation
-            </button>
-          </div>
-        )}
-      </div>
+    <div className="flex h-screen items-center justify-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
     </div>
   );
 }
 
-
 function Router() {
   const [location] = useLocation();
+  const { user, isLoading } = useAuth();
+  const { status: lock, isLoading: isLockLoading, lockMutation } = useAppLock(user !== null);
   const showSidebar = location !== '/';
 
+  useIdleTimeout(lock?.lockAfterMinutes ?? 5, () => lockMutation.mutate(), !!lock?.enabled && !lock.locked);
+
+  // Only the landing page is open to visitors who haven't signed in, or
+  // haven't unlocked the app
+  if (showSidebar && !user) {
+    return isLoading ? <Loading /> : <AuthPage />;
+  }
+  if (showSidebar && (isLockLoading || lock?.locked)) {
+    return isLockLoading ? <Loading /> : <LockScreen />;
+  }
+
   return (
     <div className="flex h-screen">
       {showSidebar && <NavSidebar />}
@@ -116,8 +98,9 @@ function Router() {
           <Route path="/chat/:id?" component={Chat} />
           <Route path="/bubbles/:conversationId" component={Bubbles} />
           <Route path="/bubbles" component={BubblesListing} />
-          <Route path="/article" component={ArticlesListing} />
+          <Route path="/article" component={Articles} />
           <Route path="/article/:conversationId?" component={Article} />
+          <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import PinInput, { PIN_LENGTH } from "@/components/pin-input";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useAppLock } from "@/hooks/use-app-lock";
+import { useToast } from "@/hooks/use-toast";
+
+const LOCK_AFTER_OPTIONS = [1, 5, 15, 30, 60, 240];
+
+interface AppLockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Turns the PIN lock on and off, changes the PIN and the idle timeout
+export default function AppLockDialog({ open, onOpenChange }: AppLockDialogProps) {
+  const { status, setPinMutation, removePinMutation, settingsMutation } = useAppLock(true);
+  const { toast } = useToast();
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+
+  // Start empty every time
+  useEffect(() => {
+    if (!open) return;
+    setCurrentPin("");
+    setNewPin("");
+    setConfirmPin("");
+    setPinMutation.reset();
+    removePinMutation.reset();
+  }, [open]);
+
+  const enabled = status?.enabled ?? false;
+  const mismatch = confirmPin.length === PIN_LENGTH && confirmPin !== newPin;
+  const canSave = newPin.length === PIN_LENGTH && confirmPin === newPin && (!enabled || currentPin.length === PIN_LENGTH);
+  const error = setPinMutation.error || removePinMutation.error;
+
+  const handleSave = () => {
+    setPinMutation.mutate(
+      { pin: newPin, currentPin: enabled ? currentPin : undefined },
+      {
+        onSuccess: () => {
+          toast({ title: enabled ? "PIN changed" : "App lock turned on" });
+          onOpenChange(false);
+        },
+      },
+    );
+  };
+
+  const handleRemove = () => {
+    removePinMutation.mutate(currentPin, {
+      onSuccess: () => {
+        toast({ title: "App lock turned off" });
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>App lock</DialogTitle>
+          <DialogDescription>
+            {enabled
+              ? "The app asks for your PIN when it opens and after it sits idle."
+              : "Ask for a PIN when the app opens and after it sits idle."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {enabled && (
+            <div className="space-y-2">
+              <Label>Lock after</Label>
+              <Select
+                value={String(status!.lockAfterMinutes)}
+                onValueChange={(value) => settingsMutation.mutate({ lockAfterMinutes: parseInt(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCK_AFTER_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`} without activity
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {enabled && (
+            <div className="space-y-2">
+              <Label>Current PIN</Label>
+              <PinInput value={currentPin} onChange={setCurrentPin} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{enabled ? "New PIN" : "PIN"}</Label>
+            <PinInput value={newPin} onChange={setNewPin} autoFocus={!enabled} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Repeat the {enabled ? "new " : ""}PIN</Label>
+            <PinInput value={confirmPin} onChange={setConfirmPin} />
+            {mismatch && <p className="text-sm text-red-600">The PINs don't match</p>}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{apiErrorMessage(error)}</p>}
+
+          <div className="flex justify-between gap-2">
+            {enabled ? (
+              <Button
+                variant="outline"
+                onClick={handleRemove}
+                disabled={currentPin.length !== PIN_LENGTH || removePinMutation.isPending}
+              >
+                Turn off
+              </Button>
+            ) : <span />}
+            <Button onClick={handleSave} disabled={!canSave || setPinMutation.isPending}>
+              {enabled ? "Change PIN" : "Turn on"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
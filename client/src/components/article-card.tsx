@@ -0,0 +1,99 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Copy, Trash2, MessageSquare, Type } from "lucide-react";
+import type { ArticleSummary } from "@shared/schema";
+
+interface ArticleCardProps {
+  article: ArticleSummary;
+  onOpen?: (article: ArticleSummary) => void;
+  onDuplicate?: (id: number) => void;
+  onDelete?: (id: number) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Badges derived from the article's state; nothing here is stored
+const getStatusBadges = (article: ArticleSummary) => {
+  const badges: { label: string; className: string }[] = [];
+  if (article.wordCount === 0) {
+    badges.push({ label: "Empty", className: "bg-gray-100 text-gray-600" });
+  }
+  if (article.conversationId === null) {
+    badges.push({ label: "Source deleted", className: "bg-orange-100 text-orange-700" });
+  }
+  if (Date.now() - new Date(article.updatedAt).getTime() < DAY_MS) {
+    badges.push({ label: "Edited today", className: "bg-green-100 text-green-700" });
+  }
+  return badges;
+};
+
+export default function ArticleCard({ article, onOpen, onDuplicate, onDelete }: ArticleCardProps) {
+  const canOpen = article.conversationId !== null;
+
+  return (
+    <Card
+      className={`flex flex-col hover:shadow-md transition-all duration-200 ${canOpen ? 'cursor-pointer' : ''}`}
+      onClick={() => canOpen && onOpen?.(article)}
+      title={canOpen ? undefined : "The conversation this article was written from has been deleted"}
+    >
+      {/* First paragraph as a page thumbnail */}
+      <div className="h-36 m-4 mb-0 p-3 bg-gray-50 border border-gray-200 rounded-md overflow-hidden">
+        {article.excerpt ? (
+          <p className="text-xs leading-relaxed text-gray-600 line-clamp-6">{article.excerpt}</p>
+        ) : (
+          <p className="text-xs italic text-gray-400">No text yet</p>
+        )}
+      </div>
+
+      <CardContent className="p-4 flex-1 flex flex-col">
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">{article.title || "Untitled"}</h3>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button variant="ghost" size="sm">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem onClick={() => onDuplicate?.(article.id)}>
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => onDelete?.(article.id)}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-3">
+          {getStatusBadges(article).map(badge => (
+            <Badge key={badge.label} variant="secondary" className={badge.className}>
+              {badge.label}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="mt-auto space-y-1 text-xs text-gray-500">
+          {article.conversationName && (
+            <p className="flex items-center truncate">
+              <MessageSquare className="mr-1 h-3 w-3 shrink-0" />
+              {article.conversationName}
+            </p>
+          )}
+          <p className="flex items-center">
+            <Type className="mr-1 h-3 w-3" />
+            {article.wordCount} word{article.wordCount !== 1 ? 's' : ''} · Updated {new Date(article.updatedAt).toLocaleDateString()}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
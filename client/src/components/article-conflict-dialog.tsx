@@ -0,0 +1,76 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { diffWords } from "@/lib/word-diff";
+import { documentToPlainText, type ArticleDocument } from "@shared/article-document";
+import type { Article } from "@shared/schema";
+
+interface ArticleConflictDialogProps {
+  // The newer copy on the server, or null when there is no conflict
+  theirs: Article | null;
+  mine: { title: string; content: ArticleDocument };
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onCombine: () => void;
+}
+
+// Shown when an autosave is refused because the article was saved from
+// another tab or device in the meantime
+export default function ArticleConflictDialog({ theirs, mine, onKeepMine, onUseTheirs, onCombine }: ArticleConflictDialogProps) {
+  // What saving mine would change in theirs
+  const diff = useMemo(() => {
+    if (!theirs) return [];
+    return diffWords(
+      `${theirs.title}\n\n${documentToPlainText(theirs.content)}`,
+      `${mine.title}\n\n${documentToPlainText(mine.content)}`,
+    );
+  }, [theirs, mine.title, mine.content]);
+
+  return (
+    <Dialog open={theirs !== null}>
+      <DialogContent className="max-w-2xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle>This article was changed elsewhere</DialogTitle>
+          <DialogDescription>
+            {theirs && `It was saved from another tab or device at ${new Date(theirs.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}. `}
+            Autosave is paused until you choose which text to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <p className="text-xs text-gray-500 mb-2">
+            <del className="bg-red-100 text-red-700">Only in the saved copy</del>{" "}
+            <ins className="bg-green-100 text-green-800 no-underline">Only in yours</ins>
+          </p>
+          <div className="p-3 bg-gray-50 rounded-md text-sm leading-relaxed whitespace-pre-wrap max-h-80 overflow-y-auto">
+            {diff.every(part => part.type === 'equal') ? (
+              <span className="text-gray-500">The text is the same; only other details differ.</span>
+            ) : (
+              diff.map((part, index) =>
+                part.type === 'added' ? (
+                  <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                ) : part.type === 'removed' ? (
+                  <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                )
+              )
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onUseTheirs}>
+            Use saved copy
+          </Button>
+          <Button variant="outline" onClick={onCombine}>
+            Combine both
+          </Button>
+          <Button onClick={onKeepMine}>
+            Keep mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
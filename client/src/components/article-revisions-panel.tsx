@@ -0,0 +1,162 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { diffWords } from "@/lib/word-diff";
+import { countWords, documentToPlainText } from "@shared/article-document";
+import type { Article, ArticleRevision } from "@shared/schema";
+
+interface ArticleRevisionsPanelProps {
+  articleId: number | null;
+  onRestore: (article: Article) => void;
+  onClose: () => void;
+}
+
+const formatRevisionTime = (date: string) =>
+  new Date(date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function ArticleRevisionsPanel({ articleId, onRestore, onClose }: ArticleRevisionsPanelProps) {
+  const queryClient = useQueryClient();
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  // Newest first
+  const { data: revisions = [], isLoading } = useQuery<ArticleRevision[]>({
+    queryKey: ["/api/articles", articleId, "revisions"],
+    enabled: !!articleId,
+  });
+
+  // Default to comparing the two most recent revisions
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    if (!revisions.some(r => r.id.toString() === toId)) {
+      setToId(revisions[0].id.toString());
+    }
+    if (!revisions.some(r => r.id.toString() === fromId)) {
+      setFromId(revisions[Math.min(1, revisions.length - 1)].id.toString());
+    }
+  }, [revisions]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/articles/${articleId}/revisions/${revisionId}/restore`);
+      return response.json() as Promise<Article>;
+    },
+    onSuccess: (article) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      onRestore(article);
+    },
+  });
+
+  const diff = useMemo(() => {
+    const from = revisions.find(r => r.id.toString() === fromId);
+    const to = revisions.find(r => r.id.toString() === toId);
+    if (!from || !to) return [];
+
+    return diffWords(
+      `${from.title}\n\n${documentToPlainText(from.content)}`,
+      `${to.title}\n\n${documentToPlainText(to.content)}`,
+    );
+  }, [revisions, fromId, toId]);
+
+  const handleRestore = (revision: ArticleRevision) => {
+    if (confirm(`Restore the version from ${formatRevisionTime(revision.createdAt)}? The current text is kept in the history.`)) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  const revisionOptions = revisions.map((revision, index) => (
+    <SelectItem key={revision.id} value={revision.id.toString()}>
+      {formatRevisionTime(revision.createdAt)}{index === 0 ? " (latest)" : ""}
+    </SelectItem>
+  ));
+
+  return (
+    <div className="w-96 bg-white border-l border-gray-200 flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <History className="w-4 h-4 mr-2" />
+          Revision History
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!articleId ? (
+        <p className="p-4 text-sm text-gray-500">Save the article to start its revision history.</p>
+      ) : isLoading ? (
+        <p className="p-4 text-sm text-gray-500">Loading revisions...</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {/* Compare two revisions */}
+          <div className="p-4 space-y-2 border-b border-gray-200">
+            <div className="flex items-center gap-2">
+              <span className="w-10 text-xs text-gray-500">From</span>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Older revision" />
+                </SelectTrigger>
+                <SelectContent>{revisionOptions}</SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-10 text-xs text-gray-500">To</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Newer revision" />
+                </SelectTrigger>
+                <SelectContent>{revisionOptions}</SelectContent>
+              </Select>
+            </div>
+
+            <div className="mt-3 p-3 bg-gray-50 rounded-md text-sm leading-relaxed whitespace-pre-wrap max-h-80 overflow-y-auto">
+              {fromId === toId ? (
+                <span className="text-gray-500">Pick two different revisions to see what changed.</span>
+              ) : diff.every(part => part.type === 'equal') ? (
+                <span className="text-gray-500">No differences.</span>
+              ) : (
+                diff.map((part, index) =>
+                  part.type === 'added' ? (
+                    <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                  ) : part.type === 'removed' ? (
+                    <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )
+              )}
+            </div>
+          </div>
+
+          {/* All revisions */}
+          <ul className="divide-y divide-gray-100">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="px-4 py-3 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{revision.title || "Untitled"}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatRevisionTime(revision.createdAt)} · {countWords(revision.content)} words{index === 0 ? " · latest" : ""}
+                  </p>
+                </div>
+                {/* Autosaves aren't revisions, so even the latest one can differ from the editor */}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoreMutation.isPending}
+                >
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { GripVertical, Palette, Plus, Volume2 } from "lucide-react";
+import { pickVoice } from "@/lib/speech";
+import { useSettings } from "@/hooks/use-settings";
 import type { BubbleWithMessage } from "@shared/schema";
 
 interface BubbleCardProps {
@@ -38,6 +40,7 @@ export default function BubbleCard({
   const [localTitle, setLocalTitle] = useState(bubble.title || "");
   const [isHovered, setIsHovered] = useState(false);
   const [isReading, setIsReading] = useState(false);
+  const { settings } = useSettings();
   const cardRef = useRef<HTMLDivElement>(null);
   
   // Update position only when bubble data changes and we're not dragging
@@ -215,12 +218,8 @@ export default function BubbleCard({
         const utterance = new SpeechSynthesisUtterance(textToRead);
         utterance.lang = languageCode;
         
-        // Find appropriate voice for the language
-        const voices = speechSynthesis.getVoices();
-        const preferredVoice = voices.find(voice => 
-          voice.lang.startsWith(languageCode) || 
-          voice.lang.startsWith(languageCode.split('-')[0])
-        );
+        // The voice chosen in settings, or an appropriate one for the language
+        const preferredVoice = pickVoice(languageCode, settings.ttsVoice);
         
         if (preferredVoice) {
           utterance.voice = preferredVoice;
@@ -2,7 +2,7 @@ import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { MessageSquare, Workflow, MoreHorizontal, Edit, Copy, Trash2, FileText } from "lucide-react";
+import { MessageSquare, Workflow, MoreHorizontal, Edit, Copy, Trash2, FileText, Lock } from "lucide-react";
 import type { ConversationWithStats } from "@shared/schema";
 
 interface ConversationCardProps {
@@ -84,7 +84,12 @@ export default function ConversationCard({ conversation, onEdit, onDuplicate, on
           </div>
         </div>
         
-        {conversation.lastMessage && (
+        {conversation.encryption ? (
+          <p className="text-gray-500 mb-4 flex items-center">
+            <Lock className="mr-1 h-4 w-4" />
+            Encrypted
+          </p>
+        ) : conversation.lastMessage && (
           <p className="text-gray-600 mb-4 line-clamp-2">
             {conversation.lastMessage}
           </p>
@@ -105,7 +110,9 @@ export default function ConversationCard({ conversation, onEdit, onDuplicate, on
               </Button>
             </Link>
           </div>
-          <span className="text-sm text-gray-500">{conversation.wordCount} words</span>
+          {!conversation.encryption && (
+            <span className="text-sm text-gray-500">{conversation.wordCount} words</span>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ApiError, apiErrorMessage } from "@/lib/queryClient";
+import { useConversationEncryption } from "@/hooks/use-conversation-crypto";
+import { useToast } from "@/hooks/use-toast";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface ConversationEncryptionDialogProps {
+  conversationId: number;
+  encrypted: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Turns a conversation's encryption on and off and changes its passphrase.
+// Only reachable for an encrypted conversation once this tab holds its key.
+export default function ConversationEncryptionDialog({ conversationId, encrypted, open, onOpenChange }: ConversationEncryptionDialogProps) {
+  const { updateMutation } = useConversationEncryption(conversationId);
+  const { toast } = useToast();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+
+  // Start empty every time
+  useEffect(() => {
+    if (!open) return;
+    setPassphrase("");
+    setConfirmPassphrase("");
+    updateMutation.reset();
+  }, [open]);
+
+  const mismatch = confirmPassphrase !== "" && confirmPassphrase !== passphrase;
+  const canSave = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmPassphrase === passphrase;
+  const error = updateMutation.error;
+
+  const handleSave = () => {
+    updateMutation.mutate(passphrase, {
+      onSuccess: () => {
+        toast({ title: encrypted ? "Passphrase changed" : "Conversation encrypted" });
+        onOpenChange(false);
+      },
+    });
+  };
+
+  const handleTurnOff = () => {
+    if (!confirm("Decrypt this conversation? Its messages will be stored as plain text again.")) return;
+    updateMutation.mutate(null, {
+      onSuccess: () => {
+        toast({ title: "Encryption turned off" });
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{encrypted ? "Encryption" : "Encrypt conversation"}</DialogTitle>
+          <DialogDescription>
+            Messages, their titles and bubble titles are encrypted in this browser with a key made from the
+            passphrase, so the server only stores ciphertext. The conversation name stays readable.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!encrypted && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+              <p>If the passphrase is lost, so are the messages - nobody can recover them.</p>
+              <p>
+                Search, PDF export, translation and moving messages aren't available for encrypted conversations,
+                and a message keeps only its primary keyword, encrypted as its title.
+              </p>
+              <p>
+                Articles can't quote the conversation: take out any quotes first. Article history that quotes it is
+                deleted.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">{encrypted ? "New passphrase" : "Passphrase"}</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-gray-500">At least {MIN_PASSPHRASE_LENGTH} characters</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirm-passphrase">Repeat the {encrypted ? "new " : ""}passphrase</Label>
+            <Input
+              id="confirm-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+            />
+            {mismatch && <p className="text-sm text-red-600">The passphrases don't match</p>}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">
+              {error instanceof ApiError ? apiErrorMessage(error) : error.message || "Failed to rewrite the messages"}
+            </p>
+          )}
+
+          <div className="flex justify-between gap-2">
+            {encrypted ? (
+              <Button variant="outline" onClick={handleTurnOff} disabled={updateMutation.isPending}>
+                Turn off
+              </Button>
+            ) : <span />}
+            <Button onClick={handleSave} disabled={!canSave || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : encrypted ? "Change passphrase" : "Encrypt"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
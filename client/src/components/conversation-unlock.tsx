@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import { useConversationEncryption } from "@/hooks/use-conversation-crypto";
+import type { ConversationEncryption } from "@shared/encryption";
+
+interface ConversationUnlockProps {
+  conversationId: number;
+  encryption: ConversationEncryption;
+}
+
+// Shown in place of an encrypted conversation's content until this tab has its key
+export default function ConversationUnlock({ conversationId, encryption }: ConversationUnlockProps) {
+  const { unlockMutation } = useConversationEncryption(conversationId);
+  const [passphrase, setPassphrase] = useState("");
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    unlockMutation.mutate({ passphrase, encryption }, {
+      onError: () => setPassphrase(""),
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-center p-4 py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-10 h-10 rounded-lg gradient-primary-to-secondary text-white flex items-center justify-center">
+            <KeyRound className="h-5 w-5" />
+          </div>
+          <CardTitle>Encrypted conversation</CardTitle>
+          <CardDescription>Enter the passphrase to read it. It stays unlocked in this tab until the app locks or you reload.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              autoComplete="off"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+            {unlockMutation.error && (
+              <p className="text-sm text-red-600">{unlockMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!passphrase || unlockMutation.isPending}>
+              {unlockMutation.isPending ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock } from "lucide-react";
+import PinInput from "@/components/pin-input";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useAppLock } from "@/hooks/use-app-lock";
+
+// Covers the app while it is locked; the PIN is sent as soon as it's complete
+export default function LockScreen() {
+  const { user, logoutMutation } = useAuth();
+  const { unlockMutation } = useAppLock(true);
+  const [pin, setPin] = useState("");
+
+  const handleComplete = (value: string) => {
+    unlockMutation.mutate(value, {
+      onError: () => setPin(""),
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full gradient-primary flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-10 h-10 rounded-lg gradient-primary-to-secondary text-white flex items-center justify-center">
+            <Lock className="h-5 w-5" />
+          </div>
+          <CardTitle>Locked</CardTitle>
+          <CardDescription>Enter your PIN to continue{user ? ` as ${user.username}` : ""}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <PinInput
+            value={pin}
+            onChange={setPin}
+            onComplete={handleComplete}
+            disabled={unlockMutation.isPending}
+            autoFocus
+          />
+
+          {unlockMutation.error && (
+            <p className="text-sm text-center text-red-600">{apiErrorMessage(unlockMutation.error)}</p>
+          )}
+
+          <div className="text-center">
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              Sign out instead
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
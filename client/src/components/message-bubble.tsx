@@ -3,6 +3,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Lightbulb, Plus, Edit3, Check, X, Trash2, Split, Volume2 } from "lucide-react";
+import { pickVoice } from "@/lib/speech";
+import { useSettings } from "@/hooks/use-settings";
 import type { MessageWithBubble } from "@shared/schema";
 
 interface MessageBubbleProps {
@@ -10,9 +12,10 @@ interface MessageBubbleProps {
   isUser: boolean;
   isSelectable?: boolean;
   isSelected?: boolean;
-  keyword?: string;
+  keywords?: string[];
+  keywordSuggestions?: string[];
   onSelectionChange?: (messageId: number, selected: boolean) => void;
-  onKeywordChange?: (messageId: number, keyword: string) => void;
+  onKeywordsChange?: (messageId: number, keywords: string[]) => void;
   onMessageEdit?: (messageId: number, newText: string) => void;
   onMessageDelete?: (messageId: number) => void;
   onMessageSplit?: (messageId: number) => void;
@@ -23,9 +26,10 @@ export default function MessageBubble({
   isUser, 
   isSelectable = false, 
   isSelected = false, 
-  keyword = "",
+  keywords,
+  keywordSuggestions = [],
   onSelectionChange,
-  onKeywordChange,
+  onKeywordsChange,
   onMessageEdit,
   onMessageDelete,
   onMessageSplit
@@ -84,9 +88,10 @@ export default function MessageBubble({
   // State variables
   const [isEditingKeyword, setIsEditingKeyword] = useState(false);
   const [isEditingMessage, setIsEditingMessage] = useState(false);
-  const [keywordValue, setKeywordValue] = useState(keyword);
+  const [keywordValue, setKeywordValue] = useState("");
   const [messageValue, setMessageValue] = useState(cleanText);
   const [isReading, setIsReading] = useState(false);
+  const { settings } = useSettings();
 
   // Update messageValue when message.text changes
   useEffect(() => {
@@ -103,16 +108,39 @@ export default function MessageBubble({
     return text.replace(/^\[[\w\s]+\]\s*/, '');
   };
 
+  // The first keyword is the primary one
+  const currentKeywords = keywords ?? message.keywords ?? (message.title ? [message.title] : []);
+  const hasKeyword = currentKeywords.length > 0;
+
+  const updateKeywords = (next: string[]) => {
+    const unique = Array.from(new Set(next.map(k => k.trim()).filter(Boolean)));
+    if (unique.join('\n') !== currentKeywords.join('\n')) {
+      onKeywordsChange?.(message.id, unique);
+    }
+  };
+
+  // Comma separates several keywords typed at once
   const handleKeywordSubmit = () => {
-    onKeywordChange?.(message.id, keywordValue);
+    if (keywordValue.trim()) {
+      updateKeywords([...currentKeywords, ...keywordValue.split(',')]);
+    }
+    setKeywordValue("");
     setIsEditingKeyword(false);
   };
 
   const handleKeywordCancel = () => {
-    setKeywordValue(keyword);
+    setKeywordValue("");
     setIsEditingKeyword(false);
   };
 
+  const handleKeywordRemove = (keyword: string) => {
+    updateKeywords(currentKeywords.filter(k => k !== keyword));
+  };
+
+  const handleKeywordPromote = (keyword: string) => {
+    updateKeywords([keyword, ...currentKeywords.filter(k => k !== keyword)]);
+  };
+
   const handleMessageSubmit = () => {
     const trimmedValue = messageValue.trim();
     if (trimmedValue !== message.text) {
@@ -173,12 +201,8 @@ export default function MessageBubble({
         const utterance = new SpeechSynthesisUtterance(textToRead);
         utterance.lang = languageCode;
         
-        // Find the best voice for the language
-        const voices = speechSynthesis.getVoices();
-        const preferredVoice = voices.find(voice => 
-          voice.lang.startsWith(languageCode) || 
-          voice.lang.startsWith(languageCode.split('-')[0])
-        );
+        // The voice chosen in settings, or the best one for the language
+        const preferredVoice = pickVoice(languageCode, settings.ttsVoice);
         
         if (preferredVoice) {
           utterance.voice = preferredVoice;
@@ -207,9 +231,6 @@ export default function MessageBubble({
     }
   };
 
-  const currentKeyword = keyword || message.title || "";
-  const hasKeyword = currentKeyword.length > 0;
-
   return (
     <div className={`flex ${
       isEditingMessage 
@@ -244,37 +265,60 @@ export default function MessageBubble({
           ? 'bg-primary text-white rounded-br-md' 
           : 'bg-white rounded-bl-md border border-gray-200'
       }`}>
-        {/* Keyword display/input area */}
+        {/* Keyword display/editing area */}
         {isSelectable && isSelected && (
-          <div className="mb-2">
-            {isEditingKeyword ? (
-              <Input
-                value={keywordValue}
-                onChange={(e) => setKeywordValue(e.target.value)}
-                onBlur={handleKeywordSubmit}
-                onKeyDown={handleKeyPress}
-                placeholder="Add keyword..."
-                className={`h-6 text-xs px-2 ${
-                  isUser 
-                    ? 'bg-white text-black border-white/30' 
-                    : 'bg-white text-black border-gray-300'
-                }`}
-                autoFocus
-              />
-            ) : hasKeyword ? (
-              <button
-                onClick={() => {
-                  setKeywordValue(currentKeyword);
-                  setIsEditingKeyword(true);
-                }}
-                className={`inline-block px-2 py-1 rounded-full text-xs font-medium cursor-pointer hover:opacity-80 transition-opacity ${
+          <div className="mb-2 flex flex-wrap items-center gap-1">
+            {currentKeywords.map((k, index) => (
+              <span
+                key={k}
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
+                  index === 0 ? 'font-semibold' : 'font-medium opacity-80'
+                } ${
                   isUser 
                     ? 'bg-white/20 text-white' 
                     : 'bg-purple-100 text-purple-700'
                 }`}
               >
-                {currentKeyword}
-              </button>
+                <button
+                  onClick={() => index > 0 && handleKeywordPromote(k)}
+                  className={index > 0 ? 'cursor-pointer hover:underline' : 'cursor-default'}
+                  title={index === 0 ? "Primary keyword" : "Make primary keyword"}
+                  type="button"
+                >
+                  {k}
+                </button>
+                <button
+                  onClick={() => handleKeywordRemove(k)}
+                  className="hover:opacity-70"
+                  title="Remove keyword"
+                  type="button"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {isEditingKeyword ? (
+              <>
+                <Input
+                  value={keywordValue}
+                  onChange={(e) => setKeywordValue(e.target.value)}
+                  onBlur={handleKeywordSubmit}
+                  onKeyDown={handleKeyPress}
+                  placeholder="Add keyword..."
+                  list={`keyword-suggestions-${message.id}`}
+                  className={`h-6 w-32 text-xs px-2 ${
+                    isUser 
+                      ? 'bg-white text-black border-white/30' 
+                      : 'bg-white text-black border-gray-300'
+                  }`}
+                  autoFocus
+                />
+                <datalist id={`keyword-suggestions-${message.id}`}>
+                  {keywordSuggestions
+                    .filter(suggestion => !currentKeywords.includes(suggestion))
+                    .map(suggestion => <option key={suggestion} value={suggestion} />)}
+                </datalist>
+              </>
             ) : (
               <button
                 onClick={() => {
@@ -286,6 +330,8 @@ export default function MessageBubble({
                     ? 'bg-white/20 text-white' 
                     : 'bg-purple-100 text-purple-500'
                 }`}
+                title="Add keyword"
+                type="button"
               >
                 <Plus className="w-3 h-3" />
               </button>
@@ -293,16 +339,23 @@ export default function MessageBubble({
           </div>
         )}
         
-        {/* Show existing keyword even when not in selection mode */}
+        {/* Show existing keywords even when not in selection mode */}
         {(!isSelectable || !isSelected) && hasKeyword && (
-          <div className="mb-2">
-            <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-              isUser 
-                ? 'bg-white/20 text-white' 
-                : 'bg-purple-100 text-purple-700'
-            }`}>
-              {currentKeyword}
-            </span>
+          <div className="mb-2 flex flex-wrap gap-1">
+            {currentKeywords.map((k, index) => (
+              <span
+                key={k}
+                className={`inline-block px-2 py-1 rounded-full text-xs ${
+                  index === 0 ? 'font-semibold' : 'font-medium opacity-80'
+                } ${
+                  isUser 
+                    ? 'bg-white/20 text-white' 
+                    : 'bg-purple-100 text-purple-700'
+                }`}
+              >
+                {k}
+              </span>
+            ))}
           </div>
         )}
 
@@ -0,0 +1,93 @@
+import { createContext, useContext, useMemo, useState } from "react";
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Check, ExternalLink, Link2, Pin } from "lucide-react";
+import { diffWords } from "@/lib/word-diff";
+import { embedText, type ArticleEmbed } from "@shared/article-document";
+import type { MessageSource } from "@shared/schema";
+
+// The messages embeds show, provided by the editor page
+export const MessageEmbedContext = createContext<{
+  sources: Map<number, MessageSource>;
+  isFetching: boolean;
+  onJump: (source: MessageSource) => void;
+}>({ sources: new Map(), isFetching: false, onJump: () => {} });
+
+// A message embedded in an article. Shows the message as it is now, and when
+// that differs from the text last accepted, offers to accept the new text or
+// keep the old one.
+export default function MessageEmbedView({ node, updateAttributes, selected }: NodeViewProps) {
+  const { sources, isFetching, onJump } = useContext(MessageEmbedContext);
+  const [showChanges, setShowChanges] = useState(false);
+  const embed: ArticleEmbed = { type: "messageEmbed", attrs: node.attrs as ArticleEmbed["attrs"] };
+  const { attrs } = embed;
+  const source = sources.get(attrs.messageId);
+  const changed = !attrs.pinned && source !== undefined && source.text !== attrs.text;
+
+  // What accepting would change
+  const diff = useMemo(
+    () => (changed && showChanges ? diffWords(attrs.text, source.text) : []),
+    [changed, showChanges, attrs.text, source?.text],
+  );
+
+  return (
+    <NodeViewWrapper
+      className={`not-prose my-4 rounded-md border-l-4 bg-gray-50 p-3 ${changed ? "border-orange-400" : "border-purple-300"} ${selected ? "ring-2 ring-primary" : ""}`}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500 mb-2" contentEditable={false}>
+        <span className="flex items-center truncate">
+          {attrs.pinned ? <Pin className="mr-1 h-3 w-3 shrink-0" /> : <Link2 className="mr-1 h-3 w-3 shrink-0" />}
+          {source ? source.conversationName : isFetching ? "Loading source..." : "Message no longer available"}
+          {attrs.pinned && " · pinned"}
+        </span>
+        <div className="flex items-center gap-1 shrink-0">
+          {attrs.pinned && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => updateAttributes({ pinned: false })}>
+              Follow source
+            </Button>
+          )}
+          {source && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onJump(source)} title="Jump to source">
+              <ExternalLink className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="text-gray-800 leading-relaxed whitespace-pre-wrap">
+        {diff.length > 0 ? (
+          diff.map((part, index) =>
+            part.type === 'added' ? (
+              <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+            ) : part.type === 'removed' ? (
+              <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+            ) : (
+              <span key={index}>{part.text}</span>
+            )
+          )
+        ) : (
+          embedText(embed, source?.text)
+        )}
+      </div>
+
+      {changed && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs" contentEditable={false}>
+          <span className="flex items-center text-orange-600 font-medium mr-auto">
+            <AlertCircle className="mr-1 h-3 w-3" />
+            Source changed
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowChanges(!showChanges)}>
+            {showChanges ? "Hide changes" : "Show changes"}
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => updateAttributes({ pinned: true })}>
+            Keep old
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={() => updateAttributes({ text: source.text })}>
+            <Check className="mr-1 h-3 w-3" />
+            Accept
+          </Button>
+        </div>
+      )}
+    </NodeViewWrapper>
+  );
+}
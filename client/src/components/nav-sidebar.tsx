@@ -4,17 +4,24 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Home, MessageSquare, Zap, FileText, Settings, Menu, X } from "lucide-react";
+import { Home, MessageSquare, Zap, FileText, Settings, Menu, X, LogOut, Lock, KeyRound } from "lucide-react";
+import AppLockDialog from "@/components/app-lock-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useAppLock } from "@/hooks/use-app-lock";
 
 export default function NavSidebar() {
   const [location] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
+  const [showLockSettings, setShowLockSettings] = useState(false);
+  const { user, logoutMutation } = useAuth();
+  const { status: lock, lockMutation } = useAppLock(user !== null);
 
   const navigation = [
     { name: 'Dashboard', href: '/', icon: Home },
     { name: 'Conversations', href: '/conversations', icon: MessageSquare },
     { name: 'Bubbles', href: '/bubbles', icon: Zap },
     { name: 'Articles', href: '/article', icon: FileText },
+    { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
   const isActive = (href: string) => {
@@ -69,7 +76,43 @@ export default function NavSidebar() {
           <Separator />
 
           {/* Footer */}
-          <div className="p-4">
+          <div className="p-4 space-y-3">
+            {user && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700 truncate" title={user.username}>
+                  {user.username}
+                </span>
+                <div className="flex items-center">
+                  {lock?.enabled && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => lockMutation.mutate()}
+                      title="Lock now"
+                    >
+                      <Lock className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowLockSettings(true)}
+                    title="App lock"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    title="Sign out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
             <Card className="p-3 gradient-purple-blue text-white">
               <div className="text-sm">
                 <p className="font-medium">Thinking Companion</p>
@@ -82,6 +125,8 @@ export default function NavSidebar() {
         </div>
       </div>
 
+      <AppLockDialog open={showLockSettings} onOpenChange={setShowLockSettings} />
+
       {/* Overlay */}
       {isOpen && (
         <div 
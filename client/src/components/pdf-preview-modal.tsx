@@ -1,29 +1,22 @@
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Download, X } from "lucide-react";
+import type { PDFExportOptions } from "@/lib/pdf-generator";
+import { documentToHtml, documentToPlainText, type ArticleDocument } from "@shared/article-document";
 
 interface PDFPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDownload: () => void;
+  onDownload: (options: PDFExportOptions) => void;
   title: string;
-  content: string;
+  content: ArticleDocument;
 }
 
 export default function PDFPreviewModal({ isOpen, onClose, onDownload, title, content }: PDFPreviewModalProps) {
-  const formatContent = (htmlContent: string) => {
-    // If content contains HTML, render it directly
-    if (htmlContent.includes('<')) {
-      return <div dangerouslySetInnerHTML={{ __html: htmlContent }} className="space-y-4" />;
-    }
-    
-    // Otherwise, treat as plain text and split by lines
-    return htmlContent.split('\n').map((paragraph, index) => (
-      <p key={index} className="mb-4 leading-relaxed">
-        {paragraph}
-      </p>
-    ));
-  };
+  const [coverPage, setCoverPage] = useState(false);
+  const [tableOfContents, setTableOfContents] = useState(false);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -32,7 +25,27 @@ export default function PDFPreviewModal({ isOpen, onClose, onDownload, title, co
           <div className="flex items-center justify-between">
             <DialogTitle>PDF Preview</DialogTitle>
             <div className="flex items-center space-x-3">
-              <Button onClick={onDownload}>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="pdf-cover-page"
+                  checked={coverPage}
+                  onCheckedChange={(checked) => setCoverPage(checked === true)}
+                />
+                <label htmlFor="pdf-cover-page" className="text-sm text-gray-600 cursor-pointer">
+                  Cover page
+                </label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="pdf-table-of-contents"
+                  checked={tableOfContents}
+                  onCheckedChange={(checked) => setTableOfContents(checked === true)}
+                />
+                <label htmlFor="pdf-table-of-contents" className="text-sm text-gray-600 cursor-pointer">
+                  Table of contents
+                </label>
+              </div>
+              <Button onClick={() => onDownload({ coverPage, tableOfContents })}>
                 <Download className="mr-2 h-4 w-4" />
                 Download PDF
               </Button>
@@ -48,7 +61,11 @@ export default function PDFPreviewModal({ isOpen, onClose, onDownload, title, co
             <div className="bg-white shadow-lg max-w-2xl mx-auto p-8" style={{ aspectRatio: '8.5/11' }}>
               <h1 className="text-3xl font-bold text-gray-900 mb-6">{title}</h1>
               <div className="space-y-4 text-gray-800 leading-relaxed">
-                {formatContent(content || "Your article content will appear here...")}
+                {documentToPlainText(content) ? (
+                  <div dangerouslySetInnerHTML={{ __html: documentToHtml(content) }} className="space-y-4" />
+                ) : (
+                  <p className="mb-4 leading-relaxed">Your article content will appear here...</p>
+                )}
               </div>
               <div className="mt-8 pt-4 border-t border-gray-200 text-sm text-gray-500 text-center">
                 <p>Generated by Neocortical Extension Layer • Page 1</p>
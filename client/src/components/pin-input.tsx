@@ -0,0 +1,58 @@
+import { useContext } from "react";
+import { OTPInputContext } from "input-otp";
+import { InputOTP, InputOTPGroup } from "@/components/ui/input-otp";
+import { cn } from "@/lib/utils";
+
+export const PIN_LENGTH = 6;
+
+interface PinInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// Like InputOTPSlot, but shows a dot in place of the digit
+function PinSlot({ index }: { index: number }) {
+  const { char, hasFakeCaret, isActive } = useContext(OTPInputContext).slots[index];
+
+  return (
+    <div
+      className={cn(
+        "relative flex h-12 w-10 items-center justify-center border-y border-r border-input text-lg transition-all first:rounded-l-md first:border-l last:rounded-r-md",
+        isActive && "z-10 ring-2 ring-ring ring-offset-background",
+      )}
+    >
+      {char && "•"}
+      {hasFakeCaret && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <div className="h-4 w-px animate-caret-blink bg-foreground duration-1000" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Six digit boxes for the app lock PIN
+export default function PinInput({ value, onChange, onComplete, disabled, autoFocus }: PinInputProps) {
+  return (
+    <InputOTP
+      maxLength={PIN_LENGTH}
+      pattern="^\d*$"
+      inputMode="numeric"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <PinSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { Clock, ExternalLink, MessageSquare } from "lucide-react";
+import { formatSourceTime } from "@/hooks/use-message-sources";
+import type { MessageSource } from "@shared/schema";
+
+interface SourceHoverCardProps {
+  // Undefined while loading, null once the message turns out to be deleted
+  source: MessageSource | null | undefined;
+  top: number;
+  left: number;
+  onJump: (source: MessageSource) => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+const EXCERPT_LENGTH = 140;
+
+// Where a piece of cited article text came from. Positioned by the editor
+// under the hovered text.
+export default function SourceHoverCard({ source, top, left, onJump, onMouseEnter, onMouseLeave }: SourceHoverCardProps) {
+  return (
+    <div
+      className="absolute z-20 w-72 rounded-md border border-gray-200 bg-white p-3 shadow-md text-sm"
+      style={{ top, left }}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      contentEditable={false}
+    >
+      {source === undefined ? (
+        <p className="text-gray-500">Loading source...</p>
+      ) : source === null ? (
+        <p className="text-gray-500">The message this text came from has been deleted.</p>
+      ) : (
+        <>
+          <p className="flex items-center font-medium text-gray-900 truncate">
+            <MessageSquare className="mr-1 h-3 w-3 shrink-0" />
+            {source.conversationName}
+          </p>
+          <p className="flex items-center text-xs text-gray-500 mt-1">
+            <Clock className="mr-1 h-3 w-3" />
+            {formatSourceTime(source.createdAt)}
+          </p>
+          <p className="mt-2 text-xs text-gray-600 line-clamp-3">
+            {source.text.length > EXCERPT_LENGTH ? `${source.text.slice(0, EXCERPT_LENGTH)}…` : source.text}
+          </p>
+          <Button variant="outline" size="sm" className="mt-3 w-full text-xs" onClick={() => onJump(source)}>
+            <ExternalLink className="mr-1 h-3 w-3" />
+            Jump to source
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
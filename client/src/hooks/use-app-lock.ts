@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, setUnlockToken } from "@/lib/queryClient";
+import { forgetConversationKeys } from "@/lib/conversation-crypto";
+import type { LockSettings, LockStatus, SetPin, UnlockResponse } from "@shared/schema";
+
+export const lockQueryKey = ["/api/lock"];
+
+// Input that counts as someone being at the screen
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+function setLocked(locked: boolean) {
+  queryClient.setQueryData<LockStatus>(lockQueryKey, (status) => status && { ...status, locked });
+}
+
+// The app lock of the signed-in user, as it stands for this tab
+export function useAppLock(signedIn: boolean) {
+  const { data: status, isLoading } = useQuery<LockStatus>({
+    queryKey: lockQueryKey,
+    enabled: signedIn,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (pin: string): Promise<UnlockResponse> => {
+      const response = await apiRequest("POST", "/api/lock/unlock", { pin });
+      return response.json();
+    },
+    onSuccess: ({ token }) => {
+      setUnlockToken(token);
+      setLocked(false);
+      // Whatever failed while the app was locked
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/lock");
+    },
+    // Locked on this side even if the server couldn't be told. Encrypted
+    // conversations need their passphrase again too.
+    onSettled: () => {
+      setUnlockToken(null);
+      forgetConversationKeys();
+      setLocked(true);
+    },
+  });
+
+  const setPinMutation = useMutation({
+    mutationFn: async (data: SetPin): Promise<UnlockResponse> => {
+      const response = await apiRequest("PUT", "/api/lock/pin", data);
+      return response.json();
+    },
+    onSuccess: ({ token }) => {
+      setUnlockToken(token);
+      queryClient.setQueryData<LockStatus>(lockQueryKey, (current) => current && { ...current, enabled: true, locked: false });
+    },
+  });
+
+  const removePinMutation = useMutation({
+    mutationFn: async (pin: string) => {
+      await apiRequest("DELETE", "/api/lock/pin", { pin });
+    },
+    onSuccess: () => {
+      setUnlockToken(null);
+      queryClient.setQueryData<LockStatus>(lockQueryKey, (current) => current && { ...current, enabled: false, locked: false });
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (settings: LockSettings): Promise<LockStatus> => {
+      const response = await apiRequest("PATCH", "/api/lock", settings);
+      return response.json();
+    },
+    onSuccess: (updated) => queryClient.setQueryData(lockQueryKey, updated),
+  });
+
+  return { status, isLoading, unlockMutation, lockMutation, setPinMutation, removePinMutation, settingsMutation };
+}
+
+// Calls `onIdle` once nobody has touched the page for `minutes`
+export function useIdleTimeout(minutes: number, onIdle: () => void, active: boolean) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!active) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), minutes * 60 * 1000);
+    };
+
+    restart();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [minutes, active]);
+}
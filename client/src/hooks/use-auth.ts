@@ -0,0 +1,48 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient, setUnlockToken } from "@/lib/queryClient";
+import { forgetConversationKeys } from "@/lib/conversation-crypto";
+import type { Credentials, PublicUser } from "@shared/schema";
+
+export const userQueryKey = ["/api/user"];
+
+// Cached data (and conversation keys) belong to whoever was signed in, so
+// they go when they change
+function switchUser(user: PublicUser | null) {
+  setUnlockToken(null);
+  forgetConversationKeys();
+  queryClient.clear();
+  queryClient.setQueryData(userQueryKey, user);
+}
+
+// The signed-in user (null when signed out) and the ways to change that
+export function useAuth() {
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: userQueryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return response.json();
+    },
+    onSuccess: switchUser,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/register", credentials);
+      return response.json();
+    },
+    onSuccess: switchUser,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => switchUser(null),
+  });
+
+  return { user, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Connection } from "@shared/schema";
+
+// Shape of the connections that used to live in localStorage
+type LegacyConnection = { id: string; from: number; to: number };
+
+const legacyStorageKey = (conversationId: number) => `bubbleConnections_${conversationId}`;
+
+// Bubble connections for a conversation, persisted on the server.
+// Migrates any connections still sitting in localStorage the first time it runs.
+export function useConnections(conversationId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/conversations", conversationId, "connections"];
+  const migratedRef = useRef<number | null>(null);
+
+  const { data: connections = [], isLoading } = useQuery<Connection[]>({
+    queryKey,
+    enabled: !!conversationId,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (legacy: LegacyConnection[]) => {
+      const response = await apiRequest("POST", `/api/conversations/${conversationId}/connections/import`, {
+        connections: legacy.map(conn => {
+          // Legacy ids look like `${from}-${to}-${Date.now()}`
+          const timestamp = parseInt(conn.id.split('-').pop() || '0');
+          return {
+            fromBubbleId: conn.from,
+            toBubbleId: conn.to,
+            createdAt: timestamp ? new Date(timestamp).toISOString() : undefined,
+          };
+        }),
+      });
+      return response.json() as Promise<Connection[]>;
+    },
+    onSuccess: (imported) => {
+      if (conversationId) {
+        localStorage.removeItem(legacyStorageKey(conversationId));
+      }
+      queryClient.setQueryData(queryKey, imported);
+    },
+  });
+
+  useEffect(() => {
+    if (!conversationId || migratedRef.current === conversationId) return;
+    migratedRef.current = conversationId;
+
+    const stored = localStorage.getItem(legacyStorageKey(conversationId));
+    if (!stored) return;
+
+    try {
+      const legacy: LegacyConnection[] = JSON.parse(stored);
+      if (Array.isArray(legacy) && legacy.length > 0) {
+        importMutation.mutate(legacy);
+      } else {
+        localStorage.removeItem(legacyStorageKey(conversationId));
+      }
+    } catch (error) {
+      console.error('Failed to migrate stored connections:', error);
+    }
+  }, [conversationId]);
+
+  const addConnectionMutation = useMutation({
+    mutationFn: async ({ fromBubbleId, toBubbleId }: { fromBubbleId: number; toBubbleId: number }) => {
+      const response = await apiRequest("POST", `/api/conversations/${conversationId}/connections`, {
+        fromBubbleId,
+        toBubbleId,
+      });
+      return response.json() as Promise<Connection>;
+    },
+    onSuccess: (connection) => {
+      queryClient.setQueryData<Connection[]>(queryKey, (old = []) => [...old, connection]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const removeConnectionMutation = useMutation({
+    mutationFn: async (connectionId: number) => {
+      await apiRequest("DELETE", `/api/conversations/${conversationId}/connections/${connectionId}`);
+    },
+    onMutate: async (connectionId) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousConnections = queryClient.getQueryData<Connection[]>(queryKey);
+      queryClient.setQueryData<Connection[]>(queryKey, (old = []) => old.filter(conn => conn.id !== connectionId));
+      return { previousConnections };
+    },
+    onError: (err, connectionId, context) => {
+      if (context?.previousConnections) {
+        queryClient.setQueryData(queryKey, context.previousConnections);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    connections,
+    isLoading: isLoading || importMutation.isPending,
+    addConnection: (fromBubbleId: number, toBubbleId: number) =>
+      addConnectionMutation.mutate({ fromBubbleId, toBubbleId }),
+    removeConnection: (connectionId: number) => removeConnectionMutation.mutate(connectionId),
+  };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  createEncryption,
+  decryptText,
+  encryptText,
+  getConversationKey,
+  keyForPassphrase,
+  plaintextCache,
+  setConversationKey,
+  subscribeToConversationKeys,
+} from "@/lib/conversation-crypto";
+import { isEncryptedText, type ConversationEncryption } from "@shared/encryption";
+import type { BubbleWithMessage, Conversation, ConversationEncryptionUpdate, MessageWithBubble } from "@shared/schema";
+
+export const UNREADABLE_TEXT = "🔒 This text can't be decrypted";
+
+// Texts that failed to decrypt, per key, so they aren't tried on every render
+const unreadable = new WeakMap<CryptoKey, Set<string>>();
+
+// The key this tab holds for a conversation, null until it is unlocked
+export function useConversationKey(conversationId: number | null): CryptoKey | null {
+  return useSyncExternalStore(
+    subscribeToConversationKeys,
+    () => (conversationId === null ? null : getConversationKey(conversationId) ?? null),
+  );
+}
+
+// Reads texts that may be encrypted: plaintext as it is, ciphertext once it
+// has been decrypted with `key` (undefined until then, or without a key).
+// The returned function changes whenever more texts become readable.
+export function useDecryptedTexts(key: CryptoKey | null, values: string[]) {
+  const [version, setVersion] = useState(0);
+  const failed = key ? unreadable.get(key) : undefined;
+  const pending = key
+    ? Array.from(new Set(values.filter(value =>
+        isEncryptedText(value) && !plaintextCache(key).has(value) && !failed?.has(value)
+      )))
+    : [];
+  const pendingSignature = pending.join("\n");
+
+  useEffect(() => {
+    if (!key || pending.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(pending.map(value => decryptText(key, value).catch(() => {
+      if (!unreadable.has(key)) unreadable.set(key, new Set());
+      unreadable.get(key)!.add(value);
+    }))).then(() => {
+      if (!cancelled) setVersion(current => current + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, pendingSignature]);
+
+  return useCallback((value: string): string | undefined => {
+    if (!isEncryptedText(value)) return value;
+    if (!key) return undefined;
+    return plaintextCache(key).get(value) ?? (unreadable.get(key)?.has(value) ? UNREADABLE_TEXT : undefined);
+  }, [key, version]);
+}
+
+// Unlocking an encrypted conversation, and turning encryption on, off or to a
+// new passphrase
+export function useConversationEncryption(conversationId: number | null) {
+  const queryClient = useQueryClient();
+
+  const unlockMutation = useMutation({
+    mutationFn: async ({ passphrase, encryption }: { passphrase: string; encryption: ConversationEncryption }) => {
+      const key = await keyForPassphrase(passphrase, encryption);
+      if (!key) throw new Error("Wrong passphrase");
+      setConversationKey(conversationId!, key);
+    },
+  });
+
+  // The browser rewrites every message and bubble: decrypted with the key
+  // held now (if any), encrypted with a new one (unless turning it off)
+  const updateMutation = useMutation({
+    mutationFn: async (passphrase: string | null): Promise<Conversation> => {
+      const current = getConversationKey(conversationId!) ?? null;
+      const next = passphrase === null ? null : await createEncryption(passphrase);
+
+      const messagesResponse = await apiRequest("GET", `/api/conversations/${conversationId}/messages`);
+      const messages: MessageWithBubble[] = await messagesResponse.json();
+      const bubblesResponse = await apiRequest("GET", `/api/conversations/${conversationId}/bubbles`);
+      const bubbles: BubbleWithMessage[] = await bubblesResponse.json();
+
+      const rewrite = async (value: string) => {
+        const text = current ? await decryptText(current, value) : value;
+        return next ? encryptText(next.key, text) : text;
+      };
+      const update: ConversationEncryptionUpdate = {
+        encryption: next?.encryption ?? null,
+        messages: await Promise.all(messages.map(async message => ({
+          id: message.id,
+          text: await rewrite(message.text),
+          title: await rewrite(message.title),
+        }))),
+        bubbles: await Promise.all(bubbles.map(async bubble => ({
+          id: bubble.id,
+          title: await rewrite(bubble.title),
+        }))),
+      };
+
+      const response = await apiRequest("PUT", `/api/conversations/${conversationId}/encryption`, update);
+      setConversationKey(conversationId!, next?.key ?? null);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/keywords"] });
+      // Results may show text that is encrypted now, or miss text that isn't
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/search") });
+    },
+  });
+
+  return { unlockMutation, updateMutation };
+}
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { MessageSource } from "@shared/schema";
+
+// Details of the messages an article cites, by message id. Ids of deleted
+// messages are missing from the map; so are new ones until `isFetching` ends.
+export function useMessageSources(messageIds: number[]) {
+  const ids = [...messageIds].sort((a, b) => a - b).join(",");
+
+  const { data = [], isFetching } = useQuery<MessageSource[]>({
+    queryKey: [`/api/messages/sources?ids=${ids}`],
+    enabled: ids !== "",
+    // Keep citing the known messages while one more is looked up
+    placeholderData: (previous) => previous,
+    // Embeds show the messages' current text, so pick up edits made elsewhere
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+  });
+
+  const sources = useMemo(() => new Map(data.map(source => [source.messageId, source])), [data]);
+  return { sources, isFetching };
+}
+
+export const formatSourceTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// The text of a footnote citing a message
+export const describeSource = (source: MessageSource | undefined) =>
+  source
+    ? `${source.conversationName}, ${formatSourceTime(source.createdAt)}`
+    : "Message no longer available";
+
+export const sourceLink = (source: MessageSource) =>
+  `/chat/${source.conversationId}?message=${source.messageId}`;
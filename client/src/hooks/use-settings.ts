@@ -0,0 +1,22 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_SETTINGS, type Settings, type UpdateSettings } from "@shared/schema";
+
+export const settingsQueryKey = ["/api/settings"];
+
+// The signed-in user's preferences; the defaults until they have loaded
+export function useSettings() {
+  const { data, isLoading } = useQuery<Settings>({
+    queryKey: settingsQueryKey,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: UpdateSettings): Promise<Settings> => {
+      const response = await apiRequest("PUT", "/api/settings", settings);
+      return response.json();
+    },
+    onSuccess: (updated) => queryClient.setQueryData(settingsQueryKey, updated),
+  });
+
+  return { settings: data ?? DEFAULT_SETTINGS, isLoading, updateMutation };
+}
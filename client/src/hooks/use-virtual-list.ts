@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from "react";
+
+interface VirtualListOptions {
+  // Keys of the items, in order
+  keys: number[];
+  scrollRef: RefObject<HTMLElement>;
+  // Height assumed for items that haven't been drawn yet
+  estimateSize: number;
+  // Pixels drawn above and below the visible area
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  key: number;
+  index: number;
+  start: number;
+}
+
+// Draws only the items near the visible part of a scroll container. Items are
+// measured once drawn; until then they count as `estimateSize`. Growth above
+// the visible area (older items loaded, an item measured taller than
+// estimated) moves the scroll position with it, so what's on screen stays put.
+export function useVirtualList({ keys, scrollRef, estimateSize, overscan = 800 }: VirtualListOptions) {
+  const sizesRef = useRef(new Map<number, number>());
+  const [, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // Where each item starts, and the height of them all
+  const starts: number[] = [];
+  let totalSize = 0;
+  for (const key of keys) {
+    starts.push(totalSize);
+    totalSize += sizesRef.current.get(key) ?? estimateSize;
+  }
+  const startsRef = useRef(new Map<number, number>());
+  startsRef.current = new Map(keys.map((key, index) => [key, starts[index]]));
+
+  // Follow the container's scrolling and size
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setViewport({ top: container.scrollTop, height: container.clientHeight }));
+    };
+    update();
+    container.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [scrollRef.current]);
+
+  // Items put in front of the first one push it down by their height
+  const firstKeyRef = useRef<number | undefined>(undefined);
+  useLayoutEffect(() => {
+    const previousFirst = firstKeyRef.current;
+    firstKeyRef.current = keys[0];
+    const container = scrollRef.current;
+    if (!container || previousFirst === undefined || previousFirst === keys[0]) return;
+
+    const shift = startsRef.current.get(previousFirst);
+    if (shift) container.scrollTop += shift;
+  }, [keys[0]]);
+
+  // Measures drawn items; a change above the visible area keeps the view in place
+  const observerRef = useRef<ResizeObserver>();
+  if (!observerRef.current && typeof ResizeObserver !== "undefined") {
+    observerRef.current = new ResizeObserver(entries => {
+      const container = scrollRef.current;
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        // Items scrolled out of the window are removed; keep their last size
+        if (!element.isConnected) {
+          observerRef.current?.unobserve(element);
+          continue;
+        }
+        const key = Number(element.dataset.virtualKey);
+        const size = element.offsetHeight;
+        const previous = sizesRef.current.get(key) ?? estimateSize;
+        if (size === previous) continue;
+
+        sizesRef.current.set(key, size);
+        changed = true;
+        const start = startsRef.current.get(key);
+        if (container && start !== undefined && start < container.scrollTop) {
+          container.scrollTop += size - previous;
+        }
+      }
+      if (changed) setMeasured(count => count + 1);
+    });
+  }
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  // The drawn items: those overlapping the visible area plus the overscan
+  const items: VirtualItem[] = [];
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const end = starts[middle] + (sizesRef.current.get(keys[middle]) ?? estimateSize);
+    if (end < from) low = middle + 1;
+    else high = middle;
+  }
+  for (let index = low; index < keys.length && starts[index] <= to; index++) {
+    items.push({ key: keys[index], index, start: starts[index] });
+  }
+
+  const scrollToKey = useCallback((key: number, align: "start" | "center" | "end" = "start") => {
+    const container = scrollRef.current;
+    const start = startsRef.current.get(key);
+    if (!container || start === undefined) return;
+
+    const size = sizesRef.current.get(key) ?? estimateSize;
+    const top =
+      align === "center" ? start - (container.clientHeight - size) / 2 :
+      align === "end" ? start - container.clientHeight + size :
+      start;
+    container.scrollTop = Math.max(0, top);
+  }, [scrollRef, estimateSize]);
+
+  return { items, totalSize, measureElement, scrollToKey };
+}
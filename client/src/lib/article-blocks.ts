@@ -0,0 +1,98 @@
+import { expandEmbeds, sourceOf, type ArticleDocument, type ArticleInline, type ArticleList } from "@shared/article-document";
+
+// Flattens an article document into a list of blocks for export: nested
+// lists become list items with a depth, marks become per-span flags.
+
+export interface InlineSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  // Message the text was taken from, if any
+  source: number | null;
+}
+
+export type ArticleBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; spans: InlineSpan[] }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list-item'; ordered: boolean; index: number; depth: number; spans: InlineSpan[] }
+  | { type: 'divider' };
+
+function inlineSpans(content: ArticleInline[] = []): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  for (const node of content) {
+    const marks = node.type === 'text' ? new Set((node.marks || []).map(mark => mark.type)) : new Set<string>();
+    const span = {
+      text: node.type === 'text' ? node.text : '\n',
+      bold: marks.has('bold'),
+      italic: marks.has('italic'),
+      underline: marks.has('underline'),
+      source: sourceOf(node)?.messageId ?? null,
+    };
+
+    // Neighbours with the same marks are drawn as one run
+    const last = spans[spans.length - 1];
+    if (last && last.bold === span.bold && last.italic === span.italic && last.underline === span.underline && last.source === span.source) {
+      last.text += span.text;
+    } else {
+      spans.push(span);
+    }
+  }
+  return spans;
+}
+
+function hasText(spans: InlineSpan[]): boolean {
+  return spans.some(span => span.text.trim());
+}
+
+function flattenList(list: ArticleList, blocks: ArticleBlock[], depth: number) {
+  const ordered = list.type === 'orderedList';
+  let index = (ordered ? list.attrs?.start ?? 1 : 1) - 1;
+
+  for (const item of list.content) {
+    for (const child of item.content) {
+      if (child.type !== 'paragraph') {
+        // Sublists follow their item, one level deeper
+        flattenList(child, blocks, depth + 1);
+        continue;
+      }
+      const spans = inlineSpans(child.content);
+      if (hasText(spans)) {
+        index++;
+        blocks.push({ type: 'list-item', ordered, index, depth, spans });
+      }
+    }
+  }
+}
+
+export function documentBlocks(doc: ArticleDocument): ArticleBlock[] {
+  const blocks: ArticleBlock[] = [];
+
+  for (const block of expandEmbeds(doc)) {
+    switch (block.type) {
+      case 'paragraph': {
+        const spans = inlineSpans(block.content);
+        if (hasText(spans)) blocks.push({ type: 'paragraph', spans });
+        break;
+      }
+      case 'heading': {
+        const spans = inlineSpans(block.content);
+        if (hasText(spans)) blocks.push({ type: 'heading', level: block.attrs.level, spans });
+        break;
+      }
+      case 'bulletList':
+      case 'orderedList':
+        flattenList(block, blocks, 0);
+        break;
+      case 'horizontalRule':
+        blocks.push({ type: 'divider' });
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+export function blockText(block: ArticleBlock): string {
+  return block.type === 'divider' ? '' : block.spans.map(span => span.text).join('');
+}
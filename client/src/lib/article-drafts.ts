@@ -0,0 +1,78 @@
+import { parseArticleContent, type ArticleDocument } from "@shared/article-document";
+
+// Edits to an article that could not be saved because the server was
+// unreachable. Kept in localStorage until the next successful save.
+export type PendingDraft = {
+  conversationId: number;
+  articleId: number | null;
+  // Version of the article the edits were made on, null for a new article
+  baseVersion: number | null;
+  title: string;
+  content: ArticleDocument;
+  // Missing on drafts migrated from the old format, which didn't keep them
+  bubbleIds?: number[];
+  savedAt: string;
+};
+
+// One key per article, so drafts from different conversations and articles
+// don't overwrite each other
+const draftKey = (conversationId: number, articleId: number | null) =>
+  `article_pending_${conversationId}_${articleId ?? 'new'}`;
+
+export function loadPendingDraft(conversationId: number, articleId: number | null): PendingDraft | null {
+  try {
+    const stored = localStorage.getItem(draftKey(conversationId, articleId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to read pending article draft:', error);
+    return null;
+  }
+}
+
+export function storePendingDraft(draft: Omit<PendingDraft, 'savedAt'>) {
+  try {
+    localStorage.setItem(
+      draftKey(draft.conversationId, draft.articleId),
+      JSON.stringify({ ...draft, savedAt: new Date().toISOString() }),
+    );
+  } catch (error) {
+    console.error('Failed to keep article draft locally:', error);
+  }
+}
+
+export function clearPendingDraft(conversationId: number, articleId: number | null) {
+  localStorage.removeItem(draftKey(conversationId, articleId));
+}
+
+// Earlier versions autosaved to a single `latest_article_draft` key and left
+// `article_draft_<timestamp>` keys behind. The latest draft becomes a pending
+// draft so it still gets saved; the rest are dropped.
+export function migrateLegacyDrafts() {
+  try {
+    const latest = localStorage.getItem('latest_article_draft');
+    if (latest) {
+      const draft = JSON.parse(latest);
+      if (typeof draft.conversationId === 'number' && draft.content) {
+        const articleId = draft.articleId ?? null;
+        if (!loadPendingDraft(draft.conversationId, articleId)) {
+          storePendingDraft({
+            conversationId: draft.conversationId,
+            articleId,
+            // Every article was at version 1 when versions were introduced
+            baseVersion: articleId ? 1 : null,
+            title: draft.title ?? '',
+            // Drafts saved before the document model hold HTML
+            content: typeof draft.content === 'string' ? parseArticleContent(draft.content) : draft.content,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Failed to migrate the stored article draft:', error);
+  }
+
+  localStorage.removeItem('latest_article_draft');
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('article_draft_'))
+    .forEach(key => localStorage.removeItem(key));
+}
@@ -0,0 +1,109 @@
+import {
+  ENCRYPTED_TEXT_PREFIX,
+  ENCRYPTION_VERIFIER_TEXT,
+  isEncryptedText,
+  type ConversationEncryption,
+} from "@shared/encryption";
+
+// Browser side of encrypted conversations (see shared/encryption.ts). Keys are
+// derived from the passphrase with WebCrypto and kept in memory for this tab
+// only: reloading, locking the app or signing out forgets them all.
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(""));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Texts already decrypted (or encrypted here), per key
+const plaintexts = new WeakMap<CryptoKey, Map<string, string>>();
+
+export function plaintextCache(key: CryptoKey): Map<string, string> {
+  let cache = plaintexts.get(key);
+  if (!cache) {
+    cache = new Map();
+    plaintexts.set(key, cache);
+  }
+  return cache;
+}
+
+// An empty text stays empty, like an empty title on the server
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  if (text === "") return "";
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text));
+  const encrypted = `${ENCRYPTED_TEXT_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(data))}`;
+  plaintextCache(key).set(encrypted, text);
+  return encrypted;
+}
+
+// Fails for a wrong key or a damaged text; anything not encrypted comes back as it is
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  if (!isEncryptedText(value)) return value;
+  const cache = plaintextCache(key);
+  const cached = cache.get(value);
+  if (cached !== undefined) return cached;
+
+  const [iv, data] = value.slice(ENCRYPTED_TEXT_PREFIX.length).split(":");
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(data));
+  const text = new TextDecoder().decode(plain);
+  cache.set(value, text);
+  return text;
+}
+
+// A new salt and key for a passphrase, with the verifier that checks it later
+export async function createEncryption(passphrase: string): Promise<{ encryption: ConversationEncryption; key: CryptoKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptText(key, ENCRYPTION_VERIFIER_TEXT);
+  return { encryption: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+}
+
+// The key for a passphrase, or null if the passphrase is wrong
+export async function keyForPassphrase(passphrase: string, encryption: ConversationEncryption): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, encryption.salt, encryption.iterations);
+  try {
+    return (await decryptText(key, encryption.verifier)) === ENCRYPTION_VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keys of the conversations unlocked in this tab
+const keys = new Map<number, CryptoKey>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export function getConversationKey(conversationId: number): CryptoKey | undefined {
+  return keys.get(conversationId);
+}
+
+export function setConversationKey(conversationId: number, key: CryptoKey | null) {
+  if (key) keys.set(conversationId, key);
+  else keys.delete(conversationId);
+  notify();
+}
+
+export function forgetConversationKeys() {
+  if (keys.size === 0) return;
+  keys.clear();
+  notify();
+}
+
+export function subscribeToConversationKeys(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,54 @@
+import { Node, mergeAttributes, ReactNodeViewRenderer } from "@tiptap/react";
+import MessageEmbedView from "@/components/message-embed-view";
+
+const numberAttribute = (attribute: string) => (element: HTMLElement) => {
+  const value = parseInt(element.getAttribute(attribute) || "");
+  return Number.isNaN(value) ? null : value;
+};
+
+// The `messageEmbed` block of the article document: a live copy of a bubble's
+// message. The editor can't change its text; the writer accepts the message's
+// new text or pins the old one from the block itself.
+export const MessageEmbed = Node.create({
+  name: "messageEmbed",
+  group: "block",
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      messageId: {
+        default: null,
+        parseHTML: numberAttribute("data-message-embed"),
+        renderHTML: (attributes) => ({ "data-message-embed": attributes.messageId }),
+      },
+      bubbleId: {
+        default: null,
+        parseHTML: numberAttribute("data-bubble-id"),
+        renderHTML: (attributes) => (attributes.bubbleId === null ? {} : { "data-bubble-id": attributes.bubbleId }),
+      },
+      text: {
+        default: "",
+        parseHTML: (element) => element.textContent || "",
+        renderHTML: () => ({}),
+      },
+      pinned: {
+        default: false,
+        parseHTML: (element) => element.hasAttribute("data-pinned"),
+        renderHTML: (attributes) => (attributes.pinned ? { "data-pinned": "" } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-message-embed]" }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ["div", mergeAttributes({ class: "article-embed" }, HTMLAttributes), node.attrs.text];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MessageEmbedView);
+  },
+});
@@ -0,0 +1,363 @@
+import type jsPDF from 'jspdf';
+import notoSansScRegular from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import notoSansScBold from '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url';
+import notoSansJpRegular from '@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url';
+import notoSansJpBold from '@expo-google-fonts/noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf?url';
+import notoSansKrRegular from '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url';
+import notoSansKrBold from '@expo-google-fonts/noto-sans-kr/700Bold/NotoSansKR_700Bold.ttf?url';
+
+// jsPDF's built-in fonts only cover Latin-1, so text in other scripts is set in
+// bundled Noto fonts. Each line is split into runs by script and every run is
+// drawn in its own font. The font files are large, so they are only fetched
+// when a document actually contains that script.
+
+export type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+type FontWeight = 'normal' | 'bold';
+type FontKey = 'latin' | 'sc' | 'jp' | 'kr';
+
+const LATIN_FAMILY = 'helvetica';
+
+const NOTO_FONTS: Record<Exclude<FontKey, 'latin'>, { family: string; files: Record<FontWeight, string> }> = {
+  sc: { family: 'NotoSansSC', files: { normal: notoSansScRegular, bold: notoSansScBold } },
+  jp: { family: 'NotoSansJP', files: { normal: notoSansJpRegular, bold: notoSansJpBold } },
+  kr: { family: 'NotoSansKR', files: { normal: notoSansKrRegular, bold: notoSansKrBold } },
+};
+
+// CJK fonts have no italics; italic runs are set upright
+function notoWeight(style: FontStyle): FontWeight {
+  return style === 'bold' || style === 'bolditalic' ? 'bold' : 'normal';
+}
+
+// Characters above U+00FF that helvetica still has (WinAnsi encoding)
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+// Kinsoku rules: characters that may not start a line, and ones that may not end one
+const NO_LINE_START = new Set('!),.:;?]}¢°’”‰′″℃、。〃々〉》」』】〕〗〙〟ゝゞヽヾーァィゥェォッャュョヮヵヶぁぃぅぇぉっゃゅょゎ・！％），．：；？］｝｡｣､･ｧｨｩｪｫｬｭｮｯｰ…‥');
+const NO_LINE_END = new Set('([{£¥‘“〈《「『【〔〖〘〝（［｛｢＄');
+
+type Script = 'latin' | 'han' | 'kana' | 'hangul' | 'other';
+
+function scriptOf(char: string): Script {
+  const code = char.codePointAt(0)!;
+  if (code <= 0xff || WIN_ANSI_EXTRAS.has(char)) return 'latin';
+  if ((code >= 0x3040 && code <= 0x30ff) || (code >= 0x31f0 && code <= 0x31ff) || (code >= 0xff66 && code <= 0xff9f)) return 'kana';
+  if ((code >= 0x1100 && code <= 0x11ff) || (code >= 0x3130 && code <= 0x318f) || (code >= 0xac00 && code <= 0xd7af)) return 'hangul';
+  if (
+    (code >= 0x2e80 && code <= 0x2fdf) || (code >= 0x3000 && code <= 0x303f) ||
+    (code >= 0x3400 && code <= 0x4dbf) || (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0xf900 && code <= 0xfaff) || (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xffef) || (code >= 0x20000 && code <= 0x3134f)
+  ) return 'han';
+  return 'other';
+}
+
+// Chinese characters are drawn in the Japanese or Korean font when the
+// document is written in that language, so kanji and hanja get the right glyph forms
+function primaryCjkFont(text: string): Exclude<FontKey, 'latin'> {
+  let hasHan = false;
+  let hasHangul = false;
+  for (const char of Array.from(text)) {
+    const script = scriptOf(char);
+    if (script === 'kana') return 'jp';
+    if (script === 'han') hasHan = true;
+    if (script === 'hangul') hasHangul = true;
+  }
+  return hasHangul && !hasHan ? 'kr' : 'sc';
+}
+
+function fontFor(char: string, primary: Exclude<FontKey, 'latin'>): FontKey {
+  switch (scriptOf(char)) {
+    case 'latin': return 'latin';
+    case 'kana': return 'jp';
+    case 'hangul': return 'kr';
+    // Han characters, CJK punctuation, and everything else helvetica lacks
+    // (the Noto fonts also cover Greek, Cyrillic and most symbols)
+    default: return primary;
+  }
+}
+
+const fontData = new Map<string, Promise<string>>();
+
+function fetchFont(url: string): Promise<string> {
+  let data = fontData.get(url);
+  if (!data) {
+    data = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load PDF font (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(buffer => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+        }
+        return btoa(binary);
+      });
+    data.catch(() => fontData.delete(url));
+    fontData.set(url, data);
+  }
+  return data;
+}
+
+export interface TextRun {
+  text: string;
+  font: FontKey;
+}
+
+// A piece of text set in one style
+export interface StyledText {
+  text: string;
+  style: FontStyle;
+  underline?: boolean;
+  // A footnote marker: the note's number, set small and raised
+  footnote?: number;
+}
+
+const FOOTNOTE_SCALE = 0.65;
+
+// Pieces that have to stay on the same line: a Latin word (which may change
+// style midway) or a single CJK character
+type BreakUnit = StyledText[];
+
+function unitText(unit: StyledText[]): string {
+  return unit.map(piece => piece.text).join('');
+}
+
+function firstChar(text: string): string {
+  return Array.from(text)[0] || '';
+}
+
+function lastChar(text: string): string {
+  return Array.from(text).pop() || '';
+}
+
+// Appends a character, extending the last piece when its style matches
+function appendChar(pieces: StyledText[], span: StyledText, char: string) {
+  const last = pieces[pieces.length - 1];
+  if (last && last.style === span.style && !!last.underline === !!span.underline && last.footnote === span.footnote) {
+    last.text += char;
+  } else {
+    pieces.push({ text: char, style: span.style, underline: span.underline, footnote: span.footnote });
+  }
+}
+
+function trimTrailingSpace(pieces: StyledText[]): StyledText[] {
+  const trimmed = pieces.map(piece => ({ ...piece }));
+  while (trimmed.length > 0) {
+    const last = trimmed[trimmed.length - 1];
+    last.text = last.text.replace(/\s+$/, '');
+    if (last.text) break;
+    trimmed.pop();
+  }
+  return trimmed;
+}
+
+// Writes text in any mix of scripts onto a jsPDF document. Create it with
+// UnicodeText.create() so the fonts the text needs are loaded first.
+export class UnicodeText {
+  private style: FontStyle = 'normal';
+
+  private constructor(private doc: jsPDF, private primary: Exclude<FontKey, 'latin'>) {}
+
+  // `samples` is every piece of text the document will contain with the style
+  // it is set in; only the fonts they need are fetched and embedded
+  static async create(doc: jsPDF, samples: { text: string; style: FontStyle }[]): Promise<UnicodeText> {
+    const primary = primaryCjkFont(samples.map(sample => sample.text).join('\n'));
+    const needed = new Map<string, { key: Exclude<FontKey, 'latin'>; weight: FontWeight }>();
+
+    for (const sample of samples) {
+      const weight = notoWeight(sample.style);
+      for (const char of Array.from(sample.text)) {
+        const key = fontFor(char, primary);
+        if (key !== 'latin') needed.set(`${key}:${weight}`, { key, weight });
+      }
+    }
+
+    await Promise.all(Array.from(needed.values()).map(async ({ key, weight }) => {
+      const { family, files } = NOTO_FONTS[key];
+      const file = `${family}-${weight}.ttf`;
+      doc.addFileToVFS(file, await fetchFont(files[weight]));
+      doc.addFont(file, family, weight, undefined, 'Identity-H');
+    }));
+
+    return new UnicodeText(doc, primary);
+  }
+
+  // Style used by wrap(), width() and draw() for plain strings
+  setStyle(style: FontStyle) {
+    this.style = style;
+  }
+
+  private useFont(font: FontKey, style: FontStyle) {
+    if (font === 'latin') {
+      this.doc.setFont(LATIN_FAMILY, style);
+    } else {
+      this.doc.setFont(NOTO_FONTS[font].family, notoWeight(style));
+    }
+  }
+
+  // Consecutive characters drawn with the same font
+  runs(text: string): TextRun[] {
+    const runs: TextRun[] = [];
+    for (const char of Array.from(text)) {
+      const font = fontFor(char, this.primary);
+      const last = runs[runs.length - 1];
+      if (last && last.font === font) {
+        last.text += char;
+      } else {
+        runs.push({ text: char, font });
+      }
+    }
+    return runs;
+  }
+
+  private measure(text: string, style: FontStyle): number {
+    return this.runs(text).reduce((total, run) => {
+      this.useFont(run.font, style);
+      return total + this.doc.getTextWidth(run.text);
+    }, 0);
+  }
+
+  width(text: string): number {
+    return this.measure(text, this.style);
+  }
+
+  spansWidth(spans: StyledText[]): number {
+    return spans.reduce(
+      (total, span) => total + this.measure(span.text, span.style) * (span.footnote ? FOOTNOTE_SCALE : 1),
+      0,
+    );
+  }
+
+  wrap(text: string, maxWidth: number): string[] {
+    return this.wrapSpans([{ text, style: this.style }], maxWidth).map(unitText);
+  }
+
+  // Breaks styled text into lines no wider than maxWidth. Latin words stay
+  // whole (unless a single word is too wide); CJK text may break between any
+  // two characters, except that closing punctuation never starts a line and
+  // opening punctuation never ends one. "\n" forces a line break.
+  wrapSpans(spans: StyledText[], maxWidth: number): StyledText[][] {
+    const paragraphs: StyledText[][] = [[]];
+    for (const span of spans) {
+      span.text.split('\n').forEach((part, index) => {
+        if (index > 0) paragraphs.push([]);
+        if (part) paragraphs[paragraphs.length - 1].push({ ...span, text: part });
+      });
+    }
+
+    const lines: StyledText[][] = [];
+    for (const paragraph of paragraphs) {
+      let line: BreakUnit[] = [];
+      let lineWidth = 0;
+
+      const flush = () => {
+        const pieces: StyledText[] = [];
+        line.flat().forEach(piece => Array.from(piece.text).forEach(char => appendChar(pieces, piece, char)));
+        lines.push(trimTrailingSpace(pieces));
+        line = [];
+        lineWidth = 0;
+      };
+
+      for (const unit of this.breakUnits(paragraph, maxWidth)) {
+        const unitWidth = this.spansWidth(trimTrailingSpace(unit));
+        if (line.length > 0 && lineWidth + unitWidth > maxWidth) {
+          const carried: BreakUnit[] = [];
+          // Pull the previous unit down with a character that may not start a line
+          if (NO_LINE_START.has(firstChar(unitText(unit))) && line.length > 1) {
+            carried.unshift(line.pop()!);
+          }
+          // Opening punctuation moves down with what it opens
+          while (line.length > 1 && NO_LINE_END.has(lastChar(unitText(line[line.length - 1])))) {
+            carried.unshift(line.pop()!);
+          }
+          flush();
+          line = carried;
+          lineWidth = carried.reduce((total, part) => total + this.spansWidth(part), 0);
+        }
+        line.push(unit);
+        lineWidth += this.spansWidth(unit);
+      }
+      flush();
+    }
+
+    return lines;
+  }
+
+  private breakUnits(paragraph: StyledText[], maxWidth: number): BreakUnit[] {
+    const units: BreakUnit[] = [];
+    let word: BreakUnit = [];
+
+    const pushWord = () => {
+      if (word.length === 0) return;
+      if (this.spansWidth(trimTrailingSpace(word)) <= maxWidth) {
+        units.push(word);
+      } else {
+        // Too long for any line (URLs and the like): split between characters
+        let piece: BreakUnit = [];
+        for (const span of word) {
+          for (const char of Array.from(span.text)) {
+            if (piece.length > 0 && this.spansWidth(piece) + this.measure(char, span.style) > maxWidth) {
+              units.push(piece);
+              piece = [];
+            }
+            appendChar(piece, span, char);
+          }
+        }
+        if (piece.length > 0) units.push(piece);
+      }
+      word = [];
+    };
+
+    for (const span of paragraph) {
+      for (const char of Array.from(span.text)) {
+        const script = scriptOf(char);
+        if (script === 'latin' || script === 'other') {
+          // A space ends the word; the next non-space starts a new one
+          if (!/\s/.test(char) && /\s$/.test(unitText(word))) pushWord();
+          appendChar(word, span, char);
+        } else {
+          pushWord();
+          units.push([{ text: char, style: span.style, underline: span.underline, footnote: span.footnote }]);
+        }
+      }
+    }
+    pushWord();
+
+    return units;
+  }
+
+  draw(line: string, x: number, y: number, options: { align?: 'left' | 'center' | 'right' } = {}) {
+    this.drawSpans([{ text: line, style: this.style }], x, y, options);
+  }
+
+  // Draws one line, switching fonts between runs. Returns the line's width.
+  drawSpans(line: StyledText[], x: number, y: number, options: { align?: 'left' | 'center' | 'right' } = {}): number {
+    const lineWidth = this.spansWidth(line);
+    let cursor = x;
+    if (options.align === 'center') cursor -= lineWidth / 2;
+    if (options.align === 'right') cursor -= lineWidth;
+
+    for (const span of line) {
+      const start = cursor;
+      const fontSize = this.doc.getFontSize();
+      if (span.footnote) this.doc.setFontSize(fontSize * FOOTNOTE_SCALE);
+      // Raised by about a third of the body text's height
+      const baseline = span.footnote ? y - (fontSize / this.doc.internal.scaleFactor) * 0.35 : y;
+      for (const run of this.runs(span.text)) {
+        this.useFont(run.font, span.style);
+        this.doc.text(run.text, cursor, baseline);
+        cursor += this.doc.getTextWidth(run.text);
+      }
+      this.doc.setFontSize(fontSize);
+      if (span.underline) {
+        const offset = (this.doc.getFontSize() / this.doc.internal.scaleFactor) * 0.15;
+        this.doc.setDrawColor(this.doc.getTextColor());
+        this.doc.setLineWidth(this.doc.getFontSize() / this.doc.internal.scaleFactor * 0.06);
+        this.doc.line(start, y + offset, cursor, y + offset);
+      }
+    }
+    return lineWidth;
+  }
+}
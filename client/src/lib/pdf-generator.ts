@@ -1,70 +1,409 @@
 import jsPDF from 'jspdf';
+import { UnicodeText, type FontStyle, type StyledText } from './pdf-fonts';
+import { documentBlocks, blockText, type ArticleBlock, type InlineSpan } from './article-blocks';
+import { documentSources, textParagraph, type ArticleDocument } from '@shared/article-document';
 
-interface PDFOptions {
+export interface PDFExportOptions {
+  coverPage?: boolean;
+  tableOfContents?: boolean;
+}
+
+interface PDFOptions extends PDFExportOptions {
   title: string;
-  content: string;
+  content: ArticleDocument;
   filename?: string;
+  // Footnote text for a message the article cites
+  describeSource?: (messageId: number) => string;
 }
 
-export function generatePDF({ title, content, filename = 'article.pdf' }: PDFOptions) {
-  const doc = new jsPDF();
-  
-  // Set font
-  doc.setFont('helvetica');
-  
-  // Title
-  doc.setFontSize(20);
-  doc.setFont('helvetica', 'bold');
-  doc.text(title, 20, 30);
-  
-  // Content
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'normal');
-  
-  // Clean HTML content and convert to plain text with proper formatting
-  const cleanContent = (content || 'Your article content will appear here...')
-    .replace(/<p[^>]*>/g, '\n\n')  // Convert <p> tags to paragraph breaks
-    .replace(/<\/p>/g, '')         // Remove closing </p> tags
-    .replace(/<br\s*\/?>/g, '\n')  // Convert <br> tags to line breaks
-    .replace(/<[^>]*>/g, '')       // Remove all other HTML tags
-    .replace(/\n\s*\n\s*\n/g, '\n\n') // Clean up multiple line breaks
-    .trim();
-
-  // Split content into lines that fit the page width
-  const pageWidth = doc.internal.pageSize.width;
-  const margin = 20;
-  const maxLineWidth = pageWidth - (margin * 2);
-  
-  const lines = doc.splitTextToSize(cleanContent, maxLineWidth);
-  
-  let yPosition = 50;
-  const lineHeight = 7;
-  const pageHeight = doc.internal.pageSize.height;
-  
-  lines.forEach((line: string) => {
-    if (yPosition > pageHeight - 30) {
-      doc.addPage();
-      yPosition = 30;
+// Page geometry in mm, font sizes in pt
+const MARGIN = 20;
+const FOOTER_OFFSET = 15;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.5;
+const LIST_INDENT = 7;
+const PT_TO_MM = 25.4 / 72;
+const NOTE_SIZE = 8;
+const NOTE_GAP = 4;
+
+const HEADING_STYLES: Record<1 | 2 | 3, { size: number; before: number; after: number }> = {
+  1: { size: 18, before: 8, after: 3 },
+  2: { size: 15, before: 6, after: 2.5 },
+  3: { size: 13, before: 5, after: 2 },
+};
+
+const TEXT_COLOR = '#1f2937';
+const HEADING_COLOR = '#374151';
+const MUTED_COLOR = '#6b7280';
+const DIVIDER_COLOR = '#e5e7eb';
+
+interface TocEntry {
+  level: 1 | 2 | 3;
+  text: string;
+  page: number;
+}
+
+function styleOf(span: Pick<InlineSpan, 'bold' | 'italic'>): FontStyle {
+  if (span.bold && span.italic) return 'bolditalic';
+  if (span.bold) return 'bold';
+  return span.italic ? 'italic' : 'normal';
+}
+
+// Footnote number of each cited message, numbered as they are first laid out
+type FootnoteNumbers = Map<number, number>;
+
+// With `footnotes`, text cited from a message is followed by its footnote marker
+function toStyled(spans: InlineSpan[], forceBold = false, footnotes?: FootnoteNumbers): StyledText[] {
+  return spans.flatMap((span, index) => {
+    const style = styleOf({ bold: forceBold || span.bold, italic: span.italic });
+    if (!footnotes || span.source === null || spans[index + 1]?.source === span.source) {
+      return [{ text: span.text, style, underline: span.underline }];
     }
-    
-    doc.text(line, margin, yPosition);
-    yPosition += lineHeight;
+
+    if (!footnotes.has(span.source)) footnotes.set(span.source, footnotes.size + 1);
+    const number = footnotes.get(span.source)!;
+    // The marker goes before trailing spaces, so it can't wrap onto the next line alone
+    const [, core, trailing] = span.text.match(/^([\s\S]*?)(\s*)$/)!;
+    return [
+      { text: core, style, underline: span.underline },
+      { text: String(number), style: 'normal' as const, footnote: number },
+      { text: trailing, style, underline: span.underline },
+    ].filter(piece => piece.text);
+  });
+}
+
+function lineHeight(size: number): number {
+  return size * PT_TO_MM * LINE_HEIGHT;
+}
+
+// Bullets alternate by depth; numbered items use their index
+function listMarker(block: Extract<ArticleBlock, { type: 'list-item' }>): string {
+  if (block.ordered) return `${block.index}.`;
+  return block.depth % 2 === 0 ? '•' : '–';
+}
+
+// Flows the article's blocks over as many pages as needed, starting on the
+// current page at `top`. Returns the headings with the page they landed on.
+// Cited text is numbered, with its note at the foot of the page it is first
+// cited on.
+function layoutBlocks(
+  doc: jsPDF,
+  text: UnicodeText,
+  blocks: ArticleBlock[],
+  top: number,
+  describeSource: (messageId: number) => string,
+): TocEntry[] {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const pageBottom = pageHeight - MARGIN - 10;
+  const headings: TocEntry[] = [];
+  const footnotes: FootnoteNumbers = new Map();
+  const notedMessages = new Set<number>();
+  // Wrapped lines of each note that goes at the foot of the current page
+  let pageNotes: StyledText[][][] = [];
+  let y = top;
+
+  const notesHeight = (notes: StyledText[][][]) =>
+    notes.length === 0 ? 0 : NOTE_GAP + notes.flat().length * lineHeight(NOTE_SIZE);
+
+  // Text stops above the notes of the page
+  const bottom = () => pageBottom - notesHeight(pageNotes);
+
+  const drawNotes = () => {
+    if (pageNotes.length === 0) return;
+    const fontSize = doc.getFontSize();
+    const textColor = doc.getTextColor();
+    let noteY = bottom() + NOTE_GAP;
+
+    doc.setDrawColor(DIVIDER_COLOR);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, noteY - NOTE_GAP / 2, MARGIN + contentWidth / 3, noteY - NOTE_GAP / 2);
+    doc.setFontSize(NOTE_SIZE);
+    doc.setTextColor(MUTED_COLOR);
+    for (const line of pageNotes.flat()) {
+      text.drawSpans(line, MARGIN, noteY + lineHeight(NOTE_SIZE) * 0.8);
+      noteY += lineHeight(NOTE_SIZE);
+    }
+
+    doc.setFontSize(fontSize);
+    doc.setTextColor(textColor);
+    pageNotes = [];
+  };
+
+  // Notes for the markers on a line that are cited for the first time
+  const notesFor = (line: StyledText[]): StyledText[][][] => {
+    const notes: StyledText[][][] = [];
+    for (const piece of line) {
+      if (!piece.footnote) continue;
+      const messageId = Array.from(footnotes.keys())[piece.footnote - 1];
+      if (notedMessages.has(messageId)) continue;
+      notedMessages.add(messageId);
+
+      const fontSize = doc.getFontSize();
+      doc.setFontSize(NOTE_SIZE);
+      notes.push(text.wrapSpans([{ text: `${piece.footnote}. ${describeSource(messageId)}`, style: 'normal' }], contentWidth));
+      doc.setFontSize(fontSize);
+    }
+    return notes;
+  };
+
+  const newPage = () => {
+    drawNotes();
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  // Space before a block is dropped at the top of a page
+  const addSpace = (space: number) => {
+    if (y > MARGIN) y += space;
+  };
+
+  const writeLines = (lines: StyledText[][], size: number, x: number, onFirstLine?: () => void) => {
+    const height = lineHeight(size);
+    lines.forEach((line, index) => {
+      // A line and the notes it brings in go on the same page
+      const notes = notesFor(line);
+      if (y + height > pageBottom - notesHeight([...pageNotes, ...notes])) newPage();
+      pageNotes.push(...notes);
+      // Text is positioned by baseline, roughly 80% down the line box
+      const baseline = y + height * 0.8;
+      if (index === 0) onFirstLine?.();
+      text.drawSpans(line, x, baseline);
+      y += height;
+    });
+  };
+
+  blocks.forEach((block, index) => {
+    const previous = blocks[index - 1];
+
+    if (block.type === 'divider') {
+      addSpace(4);
+      if (y + 1 > bottom()) newPage();
+      doc.setDrawColor(DIVIDER_COLOR);
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN, y, pageWidth - MARGIN, y);
+      y += 4;
+      return;
+    }
+
+    if (block.type === 'heading') {
+      const style = HEADING_STYLES[block.level];
+      addSpace(style.before);
+      doc.setFontSize(style.size);
+      doc.setTextColor(HEADING_COLOR);
+      const lines = text.wrapSpans(toStyled(block.spans, true, footnotes), contentWidth);
+
+      // Keep a heading together with the first lines of what follows
+      if (y + lines.length * lineHeight(style.size) + lineHeight(BODY_SIZE) * 2 > bottom()) newPage();
+      headings.push({ level: block.level, text: blockText(block), page: doc.getNumberOfPages() });
+      writeLines(lines, style.size, MARGIN);
+      y += style.after;
+      return;
+    }
+
+    doc.setFontSize(BODY_SIZE);
+    doc.setTextColor(TEXT_COLOR);
+
+    if (block.type === 'list-item') {
+      // Items of one list sit closer together than paragraphs
+      addSpace(previous?.type === 'list-item' ? 1 : 3);
+      const indent = MARGIN + LIST_INDENT * (block.depth + 1);
+      const marker = listMarker(block);
+      const lines = text.wrapSpans(toStyled(block.spans, false, footnotes), pageWidth - MARGIN - indent);
+      writeLines(lines, BODY_SIZE, indent, () => {
+        const baseline = y + lineHeight(BODY_SIZE) * 0.8;
+        text.drawSpans([{ text: marker, style: 'normal' }], indent - 2, baseline, { align: 'right' });
+      });
+      return;
+    }
+
+    addSpace(3);
+    writeLines(text.wrapSpans(toStyled(block.spans, false, footnotes), contentWidth), BODY_SIZE, MARGIN);
   });
-  
+
+  drawNotes();
+  return headings;
+}
+
+function drawCoverPage(doc: jsPDF, text: UnicodeText, title: string, blocks: ArticleBlock[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(28);
+  doc.setTextColor(HEADING_COLOR);
+  text.setStyle('bold');
+  const lines = text.wrap(title, pageWidth - MARGIN * 3);
+  const height = lineHeight(28);
+  let y = pageHeight * 0.38 - (lines.length * height) / 2;
+  lines.forEach(line => {
+    text.draw(line, pageWidth / 2, y, { align: 'center' });
+    y += height;
+  });
+
+  doc.setDrawColor(DIVIDER_COLOR);
+  doc.setLineWidth(0.5);
+  doc.line(pageWidth / 2 - 30, y, pageWidth / 2 + 30, y);
+
+  const words = blocks.map(blockText).join(' ').split(/\s+/).filter(Boolean).length;
+  const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  doc.setFontSize(12);
+  doc.setTextColor(MUTED_COLOR);
+  text.setStyle('normal');
+  text.draw(date, pageWidth / 2, y + 12, { align: 'center' });
+  text.draw(`${words} words`, pageWidth / 2, y + 19, { align: 'center' });
+}
+
+const TOC_TITLE_TOP = MARGIN + 8;
+const TOC_FIRST_ENTRY = MARGIN + 22;
+const TOC_ENTRY_HEIGHT = 8;
+
+function tocEntriesPerPage(doc: jsPDF, firstPage: boolean): number {
+  const usable = doc.internal.pageSize.getHeight() - MARGIN - 10 - (firstPage ? TOC_FIRST_ENTRY : MARGIN);
+  return Math.max(1, Math.floor(usable / TOC_ENTRY_HEIGHT));
+}
+
+function tocPageCount(doc: jsPDF, entries: number): number {
+  const first = tocEntriesPerPage(doc, true);
+  return entries <= first ? 1 : 1 + Math.ceil((entries - first) / tocEntriesPerPage(doc, false));
+}
+
+// Fills pages [firstPage, firstPage + count) with the contents, each entry
+// linked to its page
+function drawTableOfContents(doc: jsPDF, text: UnicodeText, entries: TocEntry[], firstPage: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let page = firstPage;
+  doc.setPage(page);
+
+  doc.setFontSize(20);
+  doc.setTextColor(HEADING_COLOR);
+  text.setStyle('bold');
+  text.draw('Contents', MARGIN, TOC_TITLE_TOP);
+
+  let y = TOC_FIRST_ENTRY;
+  let onPage = 0;
+  let capacity = tocEntriesPerPage(doc, true);
+
+  doc.setFontSize(BODY_SIZE);
+  for (const entry of entries) {
+    if (onPage === capacity) {
+      page++;
+      doc.setPage(page);
+      y = MARGIN + TOC_ENTRY_HEIGHT;
+      onPage = 0;
+      capacity = tocEntriesPerPage(doc, false);
+    }
+
+    const indent = MARGIN + (entry.level - 1) * 6;
+    const pageLabel = `${entry.page}`;
+    text.setStyle(entry.level === 1 ? 'bold' : 'normal');
+    doc.setTextColor(entry.level === 1 ? HEADING_COLOR : TEXT_COLOR);
+
+    // Shorten long headings so the dot leader and page number still fit
+    const numberWidth = text.width(pageLabel);
+    const available = pageWidth - MARGIN - indent - numberWidth - 8;
+    let label = entry.text;
+    if (text.width(label) > available) {
+      const chars = Array.from(label);
+      while (chars.length > 0 && text.width(`${chars.join('')}…`) > available) chars.pop();
+      label = `${chars.join('')}…`;
+    }
+    text.draw(label, indent, y);
+    text.draw(pageLabel, pageWidth - MARGIN, y, { align: 'right' });
+
+    const leaderStart = indent + text.width(label) + 2;
+    const leaderEnd = pageWidth - MARGIN - numberWidth - 2;
+    if (leaderEnd > leaderStart) {
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(MUTED_COLOR);
+      const dot = doc.getTextWidth('.  ');
+      const dots = '.  '.repeat(Math.max(0, Math.floor((leaderEnd - leaderStart) / dot)));
+      doc.text(dots, leaderEnd, y, { align: 'right' });
+    }
+
+    doc.link(indent, y - 5, pageWidth - MARGIN - indent, TOC_ENTRY_HEIGHT - 1, { pageNumber: entry.page });
+    y += TOC_ENTRY_HEIGHT;
+    onPage++;
+  }
+}
+
+// Async because fonts for Chinese, Japanese and Korean text are fetched on demand
+export async function generatePDF({
+  title,
+  content,
+  filename = 'article.pdf',
+  coverPage = false,
+  tableOfContents = false,
+  describeSource = (messageId) => `Message ${messageId}`,
+}: PDFOptions) {
+  const doc = new jsPDF();
+  let blocks = documentBlocks(content);
+  if (blocks.length === 0) {
+    blocks = documentBlocks({ type: 'doc', content: [textParagraph('Your article content will appear here...')] });
+  }
+
+  // Every string with the style it will be set in, so the right fonts are loaded
+  const samples: { text: string; style: FontStyle }[] = [{ text: title, style: 'bold' }];
+  for (const block of blocks) {
+    if (block.type === 'divider') continue;
+    samples.push(...toStyled(block.spans, block.type === 'heading'));
+    if (block.type === 'heading') samples.push({ text: blockText(block), style: 'normal' });
+  }
+  for (const messageId of documentSources(content)) {
+    samples.push({ text: describeSource(messageId), style: 'normal' });
+  }
+  const text = await UnicodeText.create(doc, samples);
+
+  let top = MARGIN;
+  if (coverPage) {
+    drawCoverPage(doc, text, title, blocks);
+    doc.addPage();
+  } else {
+    // Title at the top of the first page
+    const pageWidth = doc.internal.pageSize.getWidth();
+    doc.setFontSize(20);
+    doc.setTextColor(HEADING_COLOR);
+    text.setStyle('bold');
+    const titleLines = text.wrap(title, pageWidth - MARGIN * 2);
+    titleLines.forEach((line, index) => text.draw(line, MARGIN, 30 + index * 9));
+    top = 30 + titleLines.length * 9;
+  }
+
+  const headings = layoutBlocks(doc, text, blocks, top, describeSource);
+
+  // The contents go in front of the text, so they are laid out last and the
+  // pages inserted once their number is known
+  if (tableOfContents && headings.length > 0) {
+    const firstTocPage = coverPage ? 2 : 1;
+    const tocPages = tocPageCount(doc, headings.length);
+    for (let i = 0; i < tocPages; i++) {
+      doc.insertPage(firstTocPage + i);
+    }
+    drawTableOfContents(
+      doc,
+      text,
+      headings.map(heading => ({ ...heading, page: heading.page + tocPages })),
+      firstTocPage,
+    );
+  }
+
   // Footer
-  const pageCount = doc.internal.pages.length - 1;
-  for (let i = 1; i <= pageCount; i++) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  for (let i = coverPage ? 2 : 1; i <= pageCount; i++) {
     doc.setPage(i);
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
+    doc.setTextColor(MUTED_COLOR);
     doc.text(
-      `Generated by Neocortical Extension Layer • Page ${i}`,
+      `Generated by Neocortical Extension Layer • Page ${i} of ${pageCount}`,
       pageWidth / 2,
-      pageHeight - 15,
+      pageHeight - FOOTER_OFFSET,
       { align: 'center' }
     );
   }
-  
+
   // Download the PDF
   doc.save(filename);
 }
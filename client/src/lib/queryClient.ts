@@ -1,9 +1,45 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+import { forgetConversationKeys } from "@/lib/conversation-crypto";
+
+// A response the server answered with an error status, as opposed to a
+// request that never reached it
+export class ApiError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`${status}: ${body}`);
+    this.name = 'ApiError';
+  }
+}
+
+// The message a failed request is best explained with: the server's own,
+// when it sent one
+export function apiErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    try {
+      return JSON.parse(error.body).message;
+    } catch {
+      return error.body;
+    }
+  }
+  return "Could not reach the server";
+}
+
+// Proof this tab got past the app lock. Kept in memory only, so reloading
+// the page locks it again.
+let unlockToken: string | null = null;
+
+export function setUnlockToken(token: string | null) {
+  unlockToken = token;
+}
+
+// For requests made without apiRequest
+export function unlockHeaders(): Record<string, string> {
+  return unlockToken ? { "X-Unlock-Token": unlockToken } : {};
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -14,7 +50,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...unlockHeaders() },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +66,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: unlockHeaders(),
       credentials: "include",
     });
 
@@ -41,7 +78,25 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 from anywhere means the session ended (signed out in another tab, or
+// the server restarted); forgetting the user brings up the sign-in page. A
+// 423 means the app lock closed (the tab sat idle too long), which brings up
+// the lock screen. Either way, keys of encrypted conversations are forgotten.
+function handleSessionErrors(error: Error) {
+  if (!(error instanceof ApiError)) return;
+  if (error.status === 401) {
+    forgetConversationKeys();
+    queryClient.setQueryData(["/api/user"], null);
+  } else if (error.status === 423) {
+    forgetConversationKeys();
+    setUnlockToken(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/lock"] });
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleSessionErrors }),
+  mutationCache: new MutationCache({ onError: handleSessionErrors }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -0,0 +1,39 @@
+import { Mark, mergeAttributes } from "@tiptap/react";
+
+const numberAttribute = (attribute: string) => (element: HTMLElement) => {
+  const value = parseInt(element.getAttribute(attribute) || "");
+  return Number.isNaN(value) ? null : value;
+};
+
+// The `source` mark of the article document: text taken from a message keeps
+// the message and bubble it came from. It looks like any other text; the
+// editor shows where it came from on hover.
+export const SourceMark = Mark.create({
+  name: "source",
+
+  // Typing next to cited text is the writer's own, not the message's
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      messageId: {
+        default: null,
+        parseHTML: numberAttribute("data-message-id"),
+        renderHTML: (attributes) => ({ "data-message-id": attributes.messageId }),
+      },
+      bubbleId: {
+        default: null,
+        parseHTML: numberAttribute("data-bubble-id"),
+        renderHTML: (attributes) => (attributes.bubbleId === null ? {} : { "data-bubble-id": attributes.bubbleId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-message-id]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["span", mergeAttributes({ class: "article-source" }, HTMLAttributes), 0];
+  },
+});
@@ -0,0 +1,13 @@
+// Voices of the browser's speech synthesis. Which ones exist depends on the
+// browser and system, so the chosen one is kept by its voiceURI and may be
+// missing on another device.
+
+const speaks = (voice: SpeechSynthesisVoice, languageCode: string) =>
+  voice.lang.toLowerCase().startsWith(languageCode.split('-')[0].toLowerCase());
+
+// The voice to read text in `languageCode` with: the chosen one when it speaks
+// that language, otherwise the first one that does
+export function pickVoice(languageCode: string, chosenVoiceURI: string | null): SpeechSynthesisVoice | undefined {
+  const voices = speechSynthesis.getVoices().filter(voice => speaks(voice, languageCode));
+  return voices.find(voice => voice.voiceURI === chosenVoiceURI) ?? voices[0];
+}
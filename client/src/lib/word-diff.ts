@@ -0,0 +1,107 @@
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+// Words, runs of whitespace, and single CJK characters (which have no spaces
+// between words) are the units of the diff
+const TOKEN = /\s+|[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+/g;
+
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Myers' O(ND) diff over tokens. Only the span between the common prefix and
+// suffix is diffed, which keeps typical small edits cheap on long articles.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // trace[d] holds the furthest x reached on each diagonal k in [-d-1, d+1]
+  // before step d, so the edit path can be walked back afterwards
+  const trace: Int32Array[] = [];
+  const max = n + m;
+  const v = new Int32Array(2 * max + 3);
+  const offset = max + 1;
+
+  let found = max === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && midA[x] === midB[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk back from (n, m), collecting the edits in reverse
+  const reversed: DiffPart[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const row = trace[d];
+    const at = (k: number) => row[k + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', text: midA[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'added', text: midB[y - 1] });
+      } else {
+        reversed.push({ type: 'removed', text: midA[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushPart(parts, reversed[i].type, reversed[i].text);
+  }
+
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
@@ -1,55 +1,151 @@
-import { useState, useRef, useEffect } from "react";
-import { useLocation, useParams } from "wouter";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useEditor, EditorContent, type Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import UnderlineMark from "@tiptap/extension-underline";
+import Placeholder from "@tiptap/extension-placeholder";
+import { useLocation, useParams, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Save, Eye, FileDown, Tag, Bold, Italic, Underline, List, ListOrdered, Type, Minus, Undo, Redo, Hash, Download } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Save, Eye, FileDown, FileText, Tag, Bold, Italic, Underline, List, ListOrdered, Type, Minus, Undo, Redo, Hash, Download, History } from "lucide-react";
 import BubbleCard from "@/components/bubble-card";
 import PDFPreviewModal from "@/components/pdf-preview-modal";
-import { generatePDF } from "@/lib/pdf-generator";
-import { apiRequest } from "@/lib/queryClient";
-import type { BubbleWithMessage, InsertArticle, Article } from "@shared/schema";
+import ArticleRevisionsPanel from "@/components/article-revisions-panel";
+import ArticleConflictDialog from "@/components/article-conflict-dialog";
+import SourceHoverCard from "@/components/source-hover-card";
+import { MessageEmbedContext } from "@/components/message-embed-view";
+import { generatePDF, type PDFExportOptions } from "@/lib/pdf-generator";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { SourceMark } from "@/lib/source-mark";
+import { MessageEmbed } from "@/lib/message-embed";
+import { clearPendingDraft, loadPendingDraft, migrateLegacyDrafts, storePendingDraft } from "@/lib/article-drafts";
+import { useConnections } from "@/hooks/use-connections";
+import { useSettings } from "@/hooks/use-settings";
+import { describeSource, sourceLink, useMessageSources } from "@/hooks/use-message-sources";
+import type { BubbleWithMessage, InsertArticle, Article, Conversation, MessageSource } from "@shared/schema";
+import {
+  combineDocuments,
+  countWords,
+  documentSources,
+  documentToMarkdown,
+  documentToPlainText,
+  emptyDocument,
+  resolveEmbeds,
+  textHeading,
+  type ArticleBlock,
+  type ArticleDocument,
+} from "@shared/article-document";
+
+const AUTOSAVE_DELAY = 2000;
+const OFFLINE_RETRY_INTERVAL = 30000;
+
+type AutoSaveStatus = 'saved' | 'saving' | 'unsaved' | 'offline' | 'conflict';
+
+// Compared against the last saved state to tell whether there is anything to save
+const articleSnapshot = (title: string, content: ArticleDocument, bubbleIds: number[]) =>
+  JSON.stringify({ title, content, bubbleIds });
+
+// Delay before the source card closes, so the pointer can move onto it
+const SOURCE_CARD_HIDE_DELAY = 200;
+
+// One paragraph per line of a bubble's message, each citing the message
+const bubbleParagraphs = (bubble: BubbleWithMessage): ArticleBlock[] =>
+  bubble.message.text.split(/\n+/).filter(line => line.trim()).map(line => ({
+    type: "paragraph",
+    content: [{
+      type: "text",
+      text: line,
+      marks: [{ type: "source", attrs: { messageId: bubble.messageId, bubbleId: bubble.id } }],
+    }],
+  }));
+
+// A live copy of a bubble's message, which follows later edits to it
+const bubbleEmbed = (bubble: BubbleWithMessage): ArticleBlock => ({
+  type: "messageEmbed",
+  attrs: { messageId: bubble.messageId, bubbleId: bubble.id, text: bubble.message.text, pinned: false },
+});
+
+// Bubbles go into the article as copied text or as embeds
+type InsertMode = 'copy' | 'embed';
+
+const bubbleBlocks = (bubble: BubbleWithMessage, mode: InsertMode): ArticleBlock[] =>
+  mode === 'embed' ? [bubbleEmbed(bubble)] : bubbleParagraphs(bubble);
+
+// Appends blocks to the end of the document in one step, so a single undo
+// takes them out again. An empty document is replaced rather than appended to.
+const appendBlocks = (editor: Editor, blocks: ArticleBlock[]) => {
+  const end = editor.state.doc.content.size;
+  editor.chain().insertContentAt(editor.isEmpty ? { from: 0, to: end } : end, blocks).run();
+};
+
+// Triggers a download of generated text
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 export default function ArticlePage() {
   const { conversationId } = useParams();
   const id = conversationId ? parseInt(conversationId) : null;
   const [, setLocation] = useLocation();
+  const search = useSearch();
+  const requestedArticleId = parseInt(new URLSearchParams(search).get("article") || "") || null;
   const [articleTitle, setArticleTitle] = useState("");
-  const [articleContent, setArticleContent] = useState("");
+  const [articleContent, setArticleContent] = useState<ArticleDocument>(emptyDocument);
   const [showPDFPreview, setShowPDFPreview] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
   const [usedBubbles, setUsedBubbles] = useState<number[]>([]);
   const [currentArticleId, setCurrentArticleId] = useState<number | null>(null);
   const [sortMode, setSortMode] = useState<'connection' | 'original' | 'keyword'>('connection');
-  const [wordCount, setWordCount] = useState(0);
-  const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved');
-  const editorRef = useRef<HTMLDivElement>(null);
+  const [insertMode, setInsertMode] = useState<InsertMode>('copy');
+  const [autoSaveStatus, setAutoSaveStatus] = useState<AutoSaveStatus>('saved');
+  const [conflict, setConflict] = useState<Article | null>(null);
+  const [hoveredSource, setHoveredSource] = useState<{ messageId: number; top: number; left: number } | null>(null);
   const queryClient = useQueryClient();
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout>();
-
-  // Load connections from localStorage (same as bubble page)
-  const [connections] = useState<Array<{id: string; from: number; to: number}>>(() => {
-    if (typeof window !== 'undefined' && id) {
-      const stored = localStorage.getItem(`bubbleConnections_${id}`);
-      return stored ? JSON.parse(stored) : [];
-    }
-    return [];
-  });
-
-  const { data: bubbles = [], isLoading } = useQuery<BubbleWithMessage[]>({
+  const articleOpenedRef = useRef(false);
+  const sourceCardTimeoutRef = useRef<NodeJS.Timeout>();
+  // Refs, so saves started from timers see the current article rather than the
+  // one they were scheduled for
+  const articleIdRef = useRef<number | null>(null);
+  const versionRef = useRef<number | null>(null);
+  const savedSnapshotRef = useRef("");
+  const savingRef = useRef(false);
+  const editsRef = useRef({ title: articleTitle, content: articleContent, bubbleIds: usedBubbles });
+  editsRef.current = { title: articleTitle, content: articleContent, bubbleIds: usedBubbles };
+
+  // Load connections (same source as bubble page)
+  const { connections } = useConnections(id);
+  const { settings } = useSettings();
+
+  const { data: storedBubbles = [], isLoading } = useQuery<BubbleWithMessage[]>({
     queryKey: ["/api/conversations", id, "bubbles"],
     enabled: !!id,
   });
 
-  const { data: conversation } = useQuery({
+  const { data: conversation } = useQuery<Conversation>({
     queryKey: ["/api/conversations", id],
     enabled: !!id,
   });
 
-  // Query for existing articles for this conversation
-  const { data: existingArticles = [] } = useQuery<Article[]>({
-    queryKey: ["/api/articles"],
+  // Articles are stored as written, so the text of an encrypted conversation
+  // stays out of them
+  const isEncrypted = !!conversation?.encryption;
+  const bubbles = isEncrypted ? [] : storedBubbles;
+
+  // Articles written from this conversation, most recently edited first
+  const { data: conversationArticles = [], isSuccess: articlesLoaded } = useQuery<Article[]>({
+    queryKey: ["/api/conversations", id, "articles"],
     enabled: !!id,
   });
 
@@ -60,101 +156,162 @@ export default function ArticlePage() {
     }
   }, [conversation?.name, articleTitle]);
 
-  // Initialize editor content only once and handle bubble drops
-  useEffect(() => {
-    if (editorRef.current && !editorRef.current.hasAttribute('data-initialized')) {
-      // Set initial content - if no content, leave empty for better formatting compatibility
-      if (articleContent && articleContent.trim()) {
-        editorRef.current.innerHTML = articleContent;
-      } else {
-        editorRef.current.innerHTML = '';
-      }
-      editorRef.current.setAttribute('data-initialized', 'true');
-    }
-  }, []);
+  // The editor works on the document model; every change (typing, toolbar
+  // commands, inserted bubbles) is a transaction with its own undo step
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({
+        heading: { levels: [1, 2, 3] },
+        blockquote: false,
+        codeBlock: false,
+        code: false,
+        strike: false,
+      }),
+      UnderlineMark,
+      SourceMark,
+      MessageEmbed,
+      Placeholder.configure({
+        placeholder: "Start writing your article or drag bubbles from the sidebar...",
+      }),
+    ],
+    content: articleContent,
+    editorProps: {
+      attributes: {
+        class: "min-h-[400px] p-6 border border-gray-200 rounded-b-lg bg-white shadow-sm border-t-0 outline-none",
+        style: "line-height: 1.6; font-size: 16px; font-family: system-ui, -apple-system, sans-serif;",
+      },
+    },
+    onUpdate: ({ editor }) => {
+      setArticleContent(editor.getJSON() as ArticleDocument);
+    },
+  });
+
+  // Replaces the whole document, e.g. when loading a draft or restoring a revision
+  const loadDocument = (doc: ArticleDocument) => {
+    setArticleContent(doc);
+    editor?.commands.setContent(doc, false);
+  };
 
   // Handle content updates from bubble drops specifically
-  const handleBubbleDrop = (bubbleId: number, bubbleText: string) => {
-    setUsedBubbles(prev => [...prev, bubbleId]);
-    
-    if (editorRef.current) {
-      // Clear placeholder text if present
-      const placeholder = editorRef.current.querySelector('[style*="color: #9ca3af"]');
-      if (placeholder) {
-        editorRef.current.innerHTML = '';
-      }
-      
-      // Add new paragraph
-      const newParagraph = document.createElement('p');
-      newParagraph.style.marginBottom = '16px';
-      newParagraph.style.lineHeight = '1.6';
-      newParagraph.textContent = bubbleText;
-      
-      editorRef.current.appendChild(newParagraph);
-      setArticleContent(editorRef.current.innerHTML);
+  const handleBubbleDrop = (bubble: BubbleWithMessage) => {
+    setUsedBubbles(prev => [...prev, bubble.id]);
+
+    if (editor) {
+      appendBlocks(editor, bubbleBlocks(bubble, insertMode));
     }
   };
 
-  // Load existing article draft from localStorage first, then database if available
-  useEffect(() => {
-    if (!articleContent && id) {
-      // Try to load from localStorage first
-      try {
-        const latestDraft = localStorage.getItem('latest_article_draft');
-        if (latestDraft) {
-          const draft = JSON.parse(latestDraft);
-          if (draft.conversationId === id && draft.title && draft.content) {
-            setArticleTitle(draft.title);
-            setArticleContent(draft.content);
-            setAutoSaveStatus('saved');
-            return; // Don't load from database if we have a recent draft
-          }
-        }
-      } catch (error) {
-        console.error('Failed to load draft from localStorage:', error);
-      }
+  // A new article isn't worth creating until it has some text
+  const hasUnsavedEdits = () => {
+    const { title, content, bubbleIds } = editsRef.current;
+    return articleSnapshot(title, content, bubbleIds) !== savedSnapshotRef.current
+      && (articleIdRef.current !== null || documentToPlainText(content) !== "");
+  };
 
-      // Fallback to database if no local draft
-      if (existingArticles.length > 0) {
-        const latestArticle = existingArticles
-          .filter(article => article.title.includes(conversation?.name || ''))
-          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
-        
-        if (latestArticle) {
-          setArticleTitle(latestArticle.title);
-          setArticleContent(latestArticle.content);
-          setUsedBubbles(latestArticle.bubbleIds);
-          setCurrentArticleId(latestArticle.id);
-        }
-      }
+  // Keeps edits the server hasn't got in localStorage; they are saved the next
+  // time the article is opened
+  const keepUnsavedEdits = () => {
+    if (!id || !hasUnsavedEdits()) return;
+    storePendingDraft({
+      conversationId: id,
+      articleId: articleIdRef.current,
+      baseVersion: versionRef.current,
+      ...editsRef.current,
+    });
+  };
+
+  // Shows an article in the editor, or a blank one for null. Edits that never
+  // reached the server are put back on top, to be saved again.
+  const openArticle = (article: Article | null) => {
+    const title = article?.title ?? conversation?.name ?? "";
+    const content = article?.content ?? emptyDocument();
+    const bubbleIds = article?.bubbleIds ?? [];
+    articleIdRef.current = article?.id ?? null;
+    versionRef.current = article?.version ?? null;
+    savedSnapshotRef.current = articleSnapshot(title, content, bubbleIds);
+    setCurrentArticleId(article?.id ?? null);
+    setConflict(null);
+
+    const draft = id ? loadPendingDraft(id, article?.id ?? null) : null;
+    if (draft) {
+      versionRef.current = draft.baseVersion;
     }
-  }, [existingArticles, articleContent, conversation?.name, id]);
+    setArticleTitle(draft?.title ?? title);
+    setUsedBubbles(draft?.bubbleIds ?? bubbleIds);
+    loadDocument(draft?.content ?? content);
+    setAutoSaveStatus(draft ? 'unsaved' : 'saved');
+  };
 
-  // Save article mutation - update if exists, create if new
+  // Open the article named in the URL, otherwise the most recently edited one
+  useEffect(() => {
+    if (articleOpenedRef.current || !articlesLoaded || !editor) return;
+    articleOpenedRef.current = true;
+    migrateLegacyDrafts();
+    openArticle(conversationArticles.find(article => article.id === requestedArticleId) ?? conversationArticles[0] ?? null);
+  }, [articlesLoaded, conversationArticles, requestedArticleId, editor]);
+
+  const handleSelectArticle = (value: string) => {
+    const article = conversationArticles.find(article => article.id.toString() === value) ?? null;
+    keepUnsavedEdits();
+    openArticle(article);
+    setLocation(article ? `/article/${id}?article=${article.id}` : `/article/${id}`, { replace: true });
+  };
+
+  // Save article mutation - update if exists, create if new. Updates carry the
+  // version they were based on, so a save from a stale tab gets a 409.
   const saveArticleMutation = useMutation({
-    mutationFn: async (data: InsertArticle) => {
-      if (currentArticleId) {
-        // Update existing article
-        const response = await apiRequest("PATCH", `/api/articles/${currentArticleId}`, data);
-        return response.json();
-      } else {
-        // Create new article
-        const response = await apiRequest("POST", "/api/articles", data);
-        const newArticle = await response.json();
-        setCurrentArticleId(newArticle.id);
-        return newArticle;
-      }
+    mutationFn: async ({ articleId, revision }: { articleId: number | null; revision: boolean }) => {
+      const { title, content, bubbleIds } = editsRef.current;
+      const data: InsertArticle = { title, conversationId: id, content, bubbleIds };
+      const response = articleId
+        ? await apiRequest("PATCH", `/api/articles/${articleId}`, { ...data, version: versionRef.current ?? undefined, revision })
+        : await apiRequest("POST", "/api/articles", data);
+      const article: Article = await response.json();
+      return { article, snapshot: articleSnapshot(title, content, bubbleIds) };
     },
-    onSuccess: () => {
+    onSuccess: ({ article, snapshot }, { articleId }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
-      // Remove popup - manual save still shows success
-      setAutoSaveStatus('saved');
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", id, "articles"] });
+      // The editor has moved on to another article since
+      if (articleIdRef.current !== articleId) return;
+
+      articleIdRef.current = article.id;
+      versionRef.current = article.version;
+      savedSnapshotRef.current = snapshot;
+      if (id) clearPendingDraft(id, articleId);
+      // Edits made while the request was out are still only local
+      keepUnsavedEdits();
+      if (!articleId) {
+        setCurrentArticleId(article.id);
+        setLocation(`/article/${id}?article=${article.id}`, { replace: true });
+      }
+      setAutoSaveStatus(hasUnsavedEdits() ? 'unsaved' : 'saved');
+    },
+    onError: (error, { articleId }) => {
+      if (articleIdRef.current !== articleId) return;
+
+      if (error instanceof ApiError && error.status === 409) {
+        setConflict(JSON.parse(error.body).article);
+        setAutoSaveStatus('conflict');
+      } else if (!(error instanceof ApiError) || error.status >= 500) {
+        // The server couldn't be reached; keep the edits here until it can
+        keepUnsavedEdits();
+        setAutoSaveStatus('offline');
+      } else {
+        setAutoSaveStatus('unsaved');
+      }
     },
-    onError: () => {
-      setAutoSaveStatus('unsaved');
+    onSettled: () => {
+      savingRef.current = false;
     },
   });
 
+  const saveArticle = (revision: boolean) => {
+    savingRef.current = true;
+    setAutoSaveStatus('saving');
+    saveArticleMutation.mutate({ articleId: articleIdRef.current, revision });
+  };
+
   // Helper functions - defined before they're used
   const getColorClasses = (color: string) => {
     const colorClassMap = {
@@ -186,15 +343,11 @@ export default function ArticlePage() {
       chain.push(bubble);
 
       const outgoingConnections = connections
-        .filter(conn => conn.from === startBubbleId)
-        .sort((a, b) => {
-          const aTime = parseInt(a.id.split('-').pop() || '0');
-          const bTime = parseInt(b.id.split('-').pop() || '0');
-          return aTime - bTime;
-        });
+        .filter(conn => conn.fromBubbleId === startBubbleId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 
       if (outgoingConnections.length > 0) {
-        const nextBubbleId = outgoingConnections[0].to;
+        const nextBubbleId = outgoingConnections[0].toBubbleId;
         return buildChain(nextBubbleId, chain);
       }
 
@@ -203,8 +356,8 @@ export default function ArticlePage() {
 
     // Find starting points for chains
     const startingBubbles = bubblesArray.filter(bubble => {
-      const hasIncoming = connections.some(conn => conn.to === bubble.id);
-      const hasOutgoing = connections.some(conn => conn.from === bubble.id);
+      const hasIncoming = connections.some(conn => conn.toBubbleId === bubble.id);
+      const hasOutgoing = connections.some(conn => conn.fromBubbleId === bubble.id);
       return hasOutgoing && !hasIncoming;
     });
 
@@ -220,7 +373,7 @@ export default function ArticlePage() {
 
     // Add remaining connected bubbles
     const remainingConnected = bubblesArray.filter(bubble => {
-      const isConnected = connections.some(conn => conn.from === bubble.id || conn.to === bubble.id);
+      const isConnected = connections.some(conn => conn.fromBubbleId === bubble.id || conn.toBubbleId === bubble.id);
       return isConnected && !visited.has(bubble.id);
     });
 
@@ -255,21 +408,17 @@ export default function ArticlePage() {
 
     const buildChain = (startBubbleId: number): number[] => {
       const chain: number[] = [];
-      let currentId = startBubbleId;
+      let currentId: number | undefined = startBubbleId;
       
       while (currentId && !visited.has(currentId)) {
         visited.add(currentId);
         chain.push(currentId);
         
         const nextConnection = connections
-          .filter(conn => conn.from === currentId)
-          .sort((a, b) => {
-            const aTime = parseInt(a.id.split('-').pop() || '0');
-            const bTime = parseInt(b.id.split('-').pop() || '0');
-            return aTime - bTime;
-          })[0];
+          .filter(conn => conn.fromBubbleId === currentId)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
         
-        currentId = nextConnection?.to;
+        currentId = nextConnection?.toBubbleId;
       }
       
       return chain;
@@ -277,8 +426,8 @@ export default function ArticlePage() {
 
     // Find chain starting points
     const startingBubbles = bubbles.filter(bubble => {
-      const hasIncoming = connections.some(conn => conn.to === bubble.id);
-      const hasOutgoing = connections.some(conn => conn.from === bubble.id);
+      const hasIncoming = connections.some(conn => conn.toBubbleId === bubble.id);
+      const hasOutgoing = connections.some(conn => conn.fromBubbleId === bubble.id);
       return hasOutgoing && !hasIncoming;
     });
 
@@ -301,7 +450,7 @@ export default function ArticlePage() {
             tagName = `Group No.${tags.length + 1}`;
           }
           
-          const colors = ["blue", "green", "purple", "orange", "red"];
+          const colors = settings.bubbleColors;
           const tagColor = colors[tags.length % colors.length];
           
           tags.push({
@@ -338,241 +487,94 @@ export default function ArticlePage() {
     }
   });
 
-  // Word count calculation
-  const updateWordCount = (content: string) => {
-    const textContent = content.replace(/<[^>]*>/g, '').trim();
-    const words = textContent ? textContent.split(/\s+/).length : 0;
-    setWordCount(words);
-  };
+  const wordCount = countWords(articleContent);
 
-  // Update word count when content changes
-  useEffect(() => {
-    updateWordCount(articleContent);
-  }, [articleContent]);
-
-  // Formatting functions - simplified without cursor position management
-  const applyFormat = (command: string, value?: string) => {
-    if (editorRef.current) {
-      editorRef.current.focus();
-      document.execCommand(command, false, value);
-      const newContent = editorRef.current.innerHTML;
-      setArticleContent(newContent);
-    }
-  };
+  // Messages the article cites, for the source card and export footnotes
+  const citedMessageIds = useMemo(() => documentSources(articleContent), [articleContent]);
+  const { sources, isFetching: sourcesFetching } = useMessageSources(citedMessageIds);
+  const citeSource = (messageId: number) => describeSource(sources.get(messageId));
 
-  const insertHeading = (level: number) => {
-    if (editorRef.current) {
-      editorRef.current.focus();
-      
-      // Clear any placeholder content first
-      const placeholder = editorRef.current.querySelector('[style*="color: #9ca3af"]');
-      if (placeholder) {
-        editorRef.current.innerHTML = '';
-      }
-      
-      const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0);
-        
-        // Get the text content from the selection or current line
-        let textContent = '';
-        if (selection.toString()) {
-          textContent = selection.toString();
-        } else {
-          // Get the text of the current paragraph/line
-          let container = range.startContainer;
-          if (container.nodeType === Node.TEXT_NODE) {
-            container = container.parentNode;
-          }
-          
-          // Find the containing block element
-          while (container && container !== editorRef.current && 
-                 !['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'].includes(container.nodeName)) {
-            container = container.parentNode;
-          }
-          
-          if (container && container !== editorRef.current) {
-            textContent = container.textContent || '';
-          }
-        }
-        
-        // Create new heading element
-        const heading = document.createElement(`h${level}`);
-        heading.style.fontSize = level === 1 ? '24px' : level === 2 ? '20px' : '18px';
-        heading.style.fontWeight = '600';
-        heading.style.marginBottom = '12px';
-        heading.style.marginTop = level === 1 ? '32px' : '24px';
-        heading.style.color = '#374151';
-        heading.textContent = textContent || 'Heading';
-        
-        if (selection.toString()) {
-          // Replace selected text with heading
-          range.deleteContents();
-          range.insertNode(heading);
-        } else {
-          // Replace current paragraph with heading
-          let container = range.startContainer;
-          if (container.nodeType === Node.TEXT_NODE) {
-            container = container.parentNode;
-          }
-          
-          while (container && container !== editorRef.current && 
-                 !['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'].includes(container.nodeName)) {
-            container = container.parentNode;
-          }
-          
-          if (container && container !== editorRef.current) {
-            container.parentNode.replaceChild(heading, container);
-          } else {
-            // If no container found, just insert the heading
-            range.insertNode(heading);
-          }
-        }
-        
-        // Position cursor at end of heading
-        const newRange = document.createRange();
-        newRange.selectNodeContents(heading);
-        newRange.collapse(false);
-        selection.removeAllRanges();
-        selection.addRange(newRange);
-      }
-      
-      setArticleContent(editorRef.current.innerHTML);
-    }
+  // The article as exported: embeds carry their message's current text
+  const resolvedContent = useMemo(
+    () => resolveEmbeds(articleContent, messageId => sources.get(messageId)?.text),
+    [articleContent, sources],
+  );
+
+  const hideSourceCard = () => {
+    clearTimeout(sourceCardTimeoutRef.current);
+    sourceCardTimeoutRef.current = setTimeout(() => setHoveredSource(null), SOURCE_CARD_HIDE_DELAY);
   };
 
-  const convertToNormal = () => {
-    if (editorRef.current) {
-      editorRef.current.focus();
-      
-      const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0);
-        
-        // Get the text content from the selection or current line
-        let textContent = '';
-        if (selection.toString()) {
-          textContent = selection.toString();
-        } else {
-          // Get the text of the current paragraph/line
-          let container = range.startContainer;
-          if (container.nodeType === Node.TEXT_NODE) {
-            container = container.parentNode;
-          }
-          
-          // Find the containing block element
-          while (container && container !== editorRef.current && 
-                 !['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'].includes(container.nodeName)) {
-            container = container.parentNode;
-          }
-          
-          if (container && container !== editorRef.current) {
-            textContent = container.textContent || '';
-          }
-        }
-        
-        // Create new paragraph element
-        const paragraph = document.createElement('p');
-        paragraph.style.fontSize = '16px';
-        paragraph.style.fontWeight = 'normal';
-        paragraph.style.marginBottom = '16px';
-        paragraph.style.lineHeight = '1.6';
-        paragraph.style.color = '#374151';
-        paragraph.textContent = textContent;
-        
-        if (selection.toString()) {
-          // Replace selected text with paragraph
-          range.deleteContents();
-          range.insertNode(paragraph);
-        } else {
-          // Replace current paragraph/heading with normal paragraph
-          let container = range.startContainer;
-          if (container.nodeType === Node.TEXT_NODE) {
-            container = container.parentNode;
-          }
-          
-          while (container && container !== editorRef.current && 
-                 !['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'].includes(container.nodeName)) {
-            container = container.parentNode;
-          }
-          
-          if (container && container !== editorRef.current) {
-            container.parentNode.replaceChild(paragraph, container);
-          } else {
-            // If no container found, just insert the paragraph
-            range.insertNode(paragraph);
-          }
-        }
-        
-        // Position cursor at end of paragraph
-        const newRange = document.createRange();
-        newRange.selectNodeContents(paragraph);
-        newRange.collapse(false);
-        selection.removeAllRanges();
-        selection.addRange(newRange);
-      }
-      
-      setArticleContent(editorRef.current.innerHTML);
-    }
+  const keepSourceCard = () => {
+    clearTimeout(sourceCardTimeoutRef.current);
   };
 
-  const insertDivider = () => {
-    if (editorRef.current) {
-      editorRef.current.focus();
-      document.execCommand('insertHTML', false, '<hr style="margin: 24px 0; border: none; border-top: 2px solid #e5e7eb; width: 100%;">');
-      setArticleContent(editorRef.current.innerHTML);
+  // Shows the source card under the line of cited text the pointer is on
+  const handleEditorMouseOver = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.closest("[data-source-card]")) return;
+
+    const cited = target.closest<HTMLElement>("[data-message-id]");
+    const messageId = parseInt(cited?.dataset.messageId || "");
+    if (!cited || Number.isNaN(messageId)) {
+      hideSourceCard();
+      return;
     }
+
+    keepSourceCard();
+    const container = e.currentTarget.getBoundingClientRect();
+    const rects = Array.from(cited.getClientRects());
+    const line = rects.find(rect => e.clientY >= rect.top && e.clientY <= rect.bottom) ?? rects[0];
+    setHoveredSource({ messageId, top: line.bottom - container.top + 4, left: line.left - container.left });
   };
 
-  // Auto-save to local storage functionality
-  const triggerAutoSave = () => {
-    if (autoSaveTimeoutRef.current) {
-      clearTimeout(autoSaveTimeoutRef.current);
-    }
+  const handleJumpToSource = (source: MessageSource) => {
+    setLocation(sourceLink(source));
+  };
 
-    setAutoSaveStatus('unsaved');
-    
+  // Autosaves go to the server and stay out of the revision history. One
+  // request at a time: if a save is still out, try again after the delay.
+  const scheduleAutoSave = () => {
+    clearTimeout(autoSaveTimeoutRef.current);
     autoSaveTimeoutRef.current = setTimeout(() => {
-      if (articleTitle.trim() || articleContent.trim()) {
-        setAutoSaveStatus('saving');
-        
-        try {
-          // Create text content for local storage
-          const textContent = articleContent.replace(/<[^>]*>/g, '\n').replace(/\n+/g, '\n').trim();
-          const fullContent = `${articleTitle}\n${'='.repeat(articleTitle.length)}\n\n${textContent}`;
-          
-          // Save to localStorage as temporary file
-          const timestamp = new Date().toISOString();
-          const saveKey = `article_draft_${id}_${timestamp.slice(0, 19).replace(/:/g, '-')}`;
-          
-          localStorage.setItem(saveKey, fullContent);
-          localStorage.setItem('latest_article_draft', JSON.stringify({
-            title: articleTitle,
-            content: articleContent,
-            timestamp,
-            conversationId: id
-          }));
-          
-          setAutoSaveStatus('saved');
-        } catch (error) {
-          console.error('Auto-save failed:', error);
-          setAutoSaveStatus('unsaved');
-        }
+      if (savingRef.current) {
+        scheduleAutoSave();
+      } else if (hasUnsavedEdits()) {
+        saveArticle(false);
       }
-    }, 2000); // Auto-save after 2 seconds of inactivity
+    }, AUTOSAVE_DELAY);
   };
 
-  // Trigger auto-save when content changes
+  // Trigger auto-save when content changes; paused while a conflict is open
   useEffect(() => {
-    if (articleContent || articleTitle) {
-      triggerAutoSave();
-    }
+    if (conflict || !hasUnsavedEdits()) return;
+    setAutoSaveStatus(status => status === 'offline' ? status : 'unsaved');
+    scheduleAutoSave();
+  }, [articleContent, articleTitle, usedBubbles, conflict]);
+
+  // Whatever is still unsaved when the page goes away is kept locally
+  useEffect(() => {
+    window.addEventListener('beforeunload', keepUnsavedEdits);
     return () => {
-      if (autoSaveTimeoutRef.current) {
-        clearTimeout(autoSaveTimeoutRef.current);
-      }
+      window.removeEventListener('beforeunload', keepUnsavedEdits);
+      clearTimeout(autoSaveTimeoutRef.current);
+      keepUnsavedEdits();
     };
-  }, [articleContent, articleTitle]);
+  }, []);
+
+  // While offline, retry when the browser reports a connection and periodically
+  useEffect(() => {
+    if (autoSaveStatus !== 'offline') return;
+    const retry = () => {
+      if (!savingRef.current && hasUnsavedEdits()) saveArticle(false);
+    };
+    window.addEventListener('online', retry);
+    const interval = setInterval(retry, OFFLINE_RETRY_INTERVAL);
+    return () => {
+      window.removeEventListener('online', retry);
+      clearInterval(interval);
+    };
+  }, [autoSaveStatus]);
 
   // Auto-save status text
   const getAutoSaveText = () => {
@@ -580,48 +582,81 @@ export default function ArticlePage() {
       case 'saving': return 'Saving...';
       case 'saved': return 'Auto-saved';
       case 'unsaved': return 'Unsaved changes';
+      case 'offline': return 'Offline - kept on this device';
+      case 'conflict': return 'Changed elsewhere';
       default: return 'Auto-saved';
     }
   };
 
+  // Saving by hand also records a revision
   const handleSaveArticle = () => {
-    saveArticleMutation.mutate({
-      title: articleTitle,
-      content: articleContent,
-      bubbleIds: usedBubbles,
-    });
+    clearTimeout(autoSaveTimeoutRef.current);
+    saveArticle(true);
+  };
+
+  const handleRestoreRevision = (article: Article) => {
+    versionRef.current = article.version;
+    savedSnapshotRef.current = articleSnapshot(article.title, article.content, article.bubbleIds);
+    setArticleTitle(article.title);
+    loadDocument(article.content);
+  };
+
+  // Conflict resolution: overwrite the newer copy, drop local edits, or merge
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    versionRef.current = conflict.version;
+    setConflict(null);
+    saveArticle(false);
+  };
+
+  const handleUseTheirs = () => {
+    if (!conflict) return;
+    if (id) clearPendingDraft(id, conflict.id);
+    openArticle(conflict);
+  };
+
+  const handleCombine = () => {
+    if (!conflict) return;
+    versionRef.current = conflict.version;
+    setConflict(null);
+    setUsedBubbles(prev => Array.from(new Set([...conflict.bubbleIds, ...prev])));
+    loadDocument(combineDocuments(conflict.content, articleContent));
   };
 
   const handleExportPDF = () => {
     setShowPDFPreview(true);
   };
 
-  const handleDownloadPDF = () => {
+  const handleDownloadPDF = async (options: PDFExportOptions) => {
     // Use conversation name as default filename, fallback to article title
     const defaultFilename = conversation?.name || articleTitle;
-    generatePDF({
-      title: articleTitle,
-      content: articleContent,
-      filename: `${defaultFilename.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`
-    });
-    setShowPDFPreview(false);
+    try {
+      await generatePDF({
+        title: articleTitle,
+        content: resolvedContent,
+        describeSource: citeSource,
+        filename: `${defaultFilename.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`,
+        ...options,
+      });
+      setShowPDFPreview(false);
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert('Failed to generate the PDF. Please try again.');
+    }
   };
 
+  const exportFilename = (extension: string) =>
+    `${(conversation?.name || articleTitle).replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`;
+
   const handleDownloadText = () => {
-    // Create plain text version
-    const textContent = articleContent.replace(/<[^>]*>/g, '\n').replace(/\n+/g, '\n').trim();
+    const textContent = documentToPlainText(resolvedContent);
     const fullContent = `${articleTitle}\n${'='.repeat(articleTitle.length)}\n\n${textContent}`;
-    
-    // Create and download text file
-    const blob = new Blob([fullContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${(conversation?.name || articleTitle).replace(/[^a-z0-9]/gi, '_').toLowerCase()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(fullContent, exportFilename('txt'), 'text/plain');
+  };
+
+  const handleDownloadMarkdown = () => {
+    const fullContent = `# ${articleTitle}\n\n${documentToMarkdown(resolvedContent, citeSource)}`;
+    downloadFile(fullContent, exportFilename('md'), 'text/markdown');
   };
 
   if (isLoading) {
@@ -652,24 +687,48 @@ export default function ArticlePage() {
               <h2 className="text-xl font-bold text-gray-900">Article Editor</h2>
               <p className="text-sm text-gray-500">Drag bubbles to build your article</p>
             </div>
+            <Select value={currentArticleId?.toString() ?? "new"} onValueChange={handleSelectArticle}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose an article" />
+              </SelectTrigger>
+              <SelectContent>
+                {conversationArticles.map(article => (
+                  <SelectItem key={article.id} value={article.id.toString()}>
+                    {article.title || "Untitled"}
+                  </SelectItem>
+                ))}
+                <SelectItem value="new">New article</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
           <div className="flex items-center space-x-3">
             <Button
               onClick={handleSaveArticle}
-              disabled={saveArticleMutation.isPending}
+              disabled={saveArticleMutation.isPending || conflict !== null}
               variant="ghost"
             >
               <Save className="mr-2 h-4 w-4" />
-              Save to Database
+              Save Revision
             </Button>
             <Button variant="outline">
               <Eye className="mr-2 h-4 w-4" />
               Preview
             </Button>
+            <Button
+              variant={showRevisions ? "default" : "outline"}
+              onClick={() => setShowRevisions(!showRevisions)}
+            >
+              <History className="mr-2 h-4 w-4" />
+              History
+            </Button>
             <Button onClick={handleDownloadText} variant="outline">
               <Download className="mr-2 h-4 w-4" />
               Download TXT
             </Button>
+            <Button onClick={handleDownloadMarkdown} variant="outline">
+              <FileText className="mr-2 h-4 w-4" />
+              Download Markdown
+            </Button>
             <Button onClick={handleExportPDF}>
               <FileDown className="mr-2 h-4 w-4" />
               Export PDF
@@ -677,7 +736,8 @@ export default function ArticlePage() {
             
             {/* Auto-save indicator */}
             <div className={`flex items-center text-xs ${
-              autoSaveStatus === 'unsaved' ? 'text-orange-500' : 
+              autoSaveStatus === 'unsaved' || autoSaveStatus === 'offline' ? 'text-orange-500' :
+              autoSaveStatus === 'conflict' ? 'text-red-500' : 
               autoSaveStatus === 'saving' ? 'text-blue-500' : 'text-gray-500'
             }`}>
               {autoSaveStatus === 'saving' && (
@@ -714,37 +774,15 @@ export default function ArticlePage() {
                         const newUsedBubbles = [...usedBubbles, ...tag.bubbleIds.filter(id => !usedBubbles.includes(id))];
                         setUsedBubbles(newUsedBubbles);
                         
-                        if (editorRef.current) {
-                          // Clear placeholder text if present
-                          const placeholder = editorRef.current.querySelector('[style*="color: #9ca3af"]');
-                          if (placeholder) {
-                            editorRef.current.innerHTML = '';
-                          }
-                          
-                          // Create and add tag heading
-                          const heading = document.createElement('h3');
-                          heading.style.fontSize = '18px';
-                          heading.style.fontWeight = '600';
-                          heading.style.marginBottom = '12px';
-                          heading.style.marginTop = '24px';
-                          heading.style.color = '#374151';
-                          heading.textContent = tag.name;
-                          editorRef.current.appendChild(heading);
-                          
-                          // Add each bubble's content as a paragraph
-                          tag.bubbleIds.forEach(bubbleId => {
-                            const bubble = bubbles.find(b => b.id === bubbleId);
-                            if (bubble && bubble.message.text) {
-                              const paragraph = document.createElement('p');
-                              paragraph.style.marginBottom = '16px';
-                              paragraph.style.lineHeight = '1.6';
-                              paragraph.textContent = bubble.message.text;
-                              editorRef.current.appendChild(paragraph);
-                            }
-                          });
-                          
-                          // Update state with new content
-                          setArticleContent(editorRef.current.innerHTML);
+                        if (editor) {
+                          // The tag name as a heading, then each bubble's text
+                          appendBlocks(editor, [
+                            textHeading(tag.name, 3),
+                            ...tag.bubbleIds.flatMap(bubbleId => {
+                              const bubble = bubbles.find(b => b.id === bubbleId);
+                              return bubble?.message.text ? bubbleBlocks(bubble, insertMode) : [];
+                            }),
+                          ]);
                         }
                       }}
                     >
@@ -783,8 +821,37 @@ export default function ArticlePage() {
                 Original Order
               </Button>
             </div>
+
+            {/* Insert Mode */}
+            <div className="flex items-center gap-2 mb-4">
+              <span className="text-xs text-gray-600">Insert as</span>
+              <Button
+                variant={insertMode === 'copy' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setInsertMode('copy')}
+                className="text-xs"
+                title="Copy the bubble's text into the article"
+              >
+                Text
+              </Button>
+              <Button
+                variant={insertMode === 'embed' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setInsertMode('embed')}
+                className="text-xs"
+                title="Embed the bubble so the article follows edits to its message"
+              >
+                Live Embed
+              </Button>
+            </div>
             
-            {availableBubbles.length === 0 ? (
+            {isEncrypted ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">
+                  This conversation is encrypted. Its bubbles can't be used in articles, which are stored unencrypted.
+                </p>
+              </div>
+            ) : availableBubbles.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-gray-500 mb-4">All bubbles have been used.</p>
                 <Button
@@ -860,8 +927,9 @@ export default function ArticlePage() {
                   
                   const data = e.dataTransfer.getData("text/plain");
                   if (data) {
-                    const bubble = JSON.parse(data);
-                    handleBubbleDrop(bubble.id, bubble.text);
+                    const { id: bubbleId } = JSON.parse(data);
+                    const bubble = bubbles.find(b => b.id === bubbleId);
+                    if (bubble) handleBubbleDrop(bubble);
                   }
                 }}
               >
@@ -877,7 +945,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('bold')}
+                    onClick={() => editor?.chain().focus().toggleBold().run()}
                     title="Bold"
                   >
                     <Bold className="h-4 w-4" />
@@ -886,7 +954,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('italic')}
+                    onClick={() => editor?.chain().focus().toggleItalic().run()}
                     title="Italic"
                   >
                     <Italic className="h-4 w-4" />
@@ -895,7 +963,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('underline')}
+                    onClick={() => editor?.chain().focus().toggleUnderline().run()}
                     title="Underline"
                   >
                     <Underline className="h-4 w-4" />
@@ -908,7 +976,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="px-2 h-8 text-xs"
-                    onClick={() => insertHeading(1)}
+                    onClick={() => editor?.chain().focus().toggleHeading({ level: 1 }).run()}
                     title="Heading 1"
                   >
                     H1
@@ -917,7 +985,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="px-2 h-8 text-xs"
-                    onClick={() => insertHeading(2)}
+                    onClick={() => editor?.chain().focus().toggleHeading({ level: 2 }).run()}
                     title="Heading 2"
                   >
                     H2
@@ -926,7 +994,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="px-2 h-8 text-xs"
-                    onClick={() => insertHeading(3)}
+                    onClick={() => editor?.chain().focus().toggleHeading({ level: 3 }).run()}
                     title="Heading 3"
                   >
                     H3
@@ -935,7 +1003,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="px-2 h-8 text-xs"
-                    onClick={convertToNormal}
+                    onClick={() => editor?.chain().focus().setParagraph().run()}
                     title="Normal Paragraph"
                   >
                     Normal
@@ -948,7 +1016,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('insertUnorderedList')}
+                    onClick={() => editor?.chain().focus().toggleBulletList().run()}
                     title="Bullet List"
                   >
                     <List className="h-4 w-4" />
@@ -957,7 +1025,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('insertOrderedList')}
+                    onClick={() => editor?.chain().focus().toggleOrderedList().run()}
                     title="Numbered List"
                   >
                     <ListOrdered className="h-4 w-4" />
@@ -970,7 +1038,7 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={insertDivider}
+                    onClick={() => editor?.chain().focus().setHorizontalRule().run()}
                     title="Insert Divider"
                   >
                     <Minus className="h-4 w-4" />
@@ -983,7 +1051,8 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('undo')}
+                    onClick={() => editor?.chain().focus().undo().run()}
+                    disabled={!editor?.can().undo()}
                     title="Undo"
                   >
                     <Undo className="h-4 w-4" />
@@ -992,7 +1061,8 @@ export default function ArticlePage() {
                     size="sm"
                     variant="ghost"
                     className="p-2 h-8 w-8"
-                    onClick={() => applyFormat('redo')}
+                    onClick={() => editor?.chain().focus().redo().run()}
+                    disabled={!editor?.can().redo()}
                     title="Redo"
                   >
                     <Redo className="h-4 w-4" />
@@ -1007,36 +1077,35 @@ export default function ArticlePage() {
               </div>
 
               {/* Article Content */}
-              <div 
-                ref={editorRef}
-                className="min-h-[400px] p-6 border border-gray-200 rounded-b-lg bg-white shadow-sm border-t-0"
-                contentEditable
-                suppressContentEditableWarning
-                onInput={(e) => {
-                  const content = e.currentTarget.innerHTML;
-                  setArticleContent(content);
-                  updateWordCount(content);
-                }}
-                onBlur={(e) => setArticleContent(e.currentTarget.innerHTML)}
-                onFocus={(e) => {
-                  // Clear placeholder on focus if editor is empty
-                  if (!e.currentTarget.textContent?.trim()) {
-                    e.currentTarget.innerHTML = '';
-                  }
-                }}
-                style={{
-                  lineHeight: '1.6',
-                  fontSize: '16px',
-                  fontFamily: 'system-ui, -apple-system, sans-serif',
-                  outline: 'none'
-                }}
-                data-placeholder="Start writing your article or drag bubbles from the sidebar..."
-              />
-
-
+              <div className="relative" onMouseOver={handleEditorMouseOver} onMouseLeave={hideSourceCard}>
+                <MessageEmbedContext.Provider value={{ sources, isFetching: sourcesFetching, onJump: handleJumpToSource }}>
+                  <EditorContent editor={editor} />
+                </MessageEmbedContext.Provider>
+                {hoveredSource && (
+                  <div data-source-card className="not-prose">
+                    <SourceHoverCard
+                      source={sources.get(hoveredSource.messageId) ?? (sourcesFetching ? undefined : null)}
+                      top={hoveredSource.top}
+                      left={hoveredSource.left}
+                      onJump={handleJumpToSource}
+                      onMouseEnter={keepSourceCard}
+                      onMouseLeave={hideSourceCard}
+                    />
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
+
+        {/* Revision History Panel */}
+        {showRevisions && (
+          <ArticleRevisionsPanel
+            articleId={currentArticleId}
+            onRestore={handleRestoreRevision}
+            onClose={() => setShowRevisions(false)}
+          />
+        )}
       </div>
 
       {/* PDF Preview Modal */}
@@ -1045,7 +1114,15 @@ export default function ArticlePage() {
         onClose={() => setShowPDFPreview(false)}
         onDownload={handleDownloadPDF}
         title={articleTitle}
-        content={articleContent}
+        content={resolvedContent}
+      />
+
+      <ArticleConflictDialog
+        theirs={conflict}
+        mine={{ title: articleTitle, content: articleContent }}
+        onKeepMine={handleKeepMine}
+        onUseTheirs={handleUseTheirs}
+        onCombine={handleCombine}
       />
     </div>
   );
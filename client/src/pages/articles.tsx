@@ -0,0 +1,240 @@
+import { useState, useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Home, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import ArticleCard from "@/components/article-card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ArticleListPage, ArticleSummary, ConversationWithStats } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+// Sort options map onto the sort/order query parameters
+const SORT_OPTIONS = {
+  "updated-desc": "Recently updated",
+  "updated-asc": "Least recently updated",
+  "words-desc": "Most words",
+  "words-asc": "Fewest words",
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+export default function Articles() {
+  const [, setLocation] = useLocation();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
+  const [sortOption, setSortOption] = useState<SortOption>("updated-desc");
+  const [conversationFilter, setConversationFilter] = useState("all");
+  const [page, setPage] = useState(0);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Debounce search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedSearchQuery, sortOption, conversationFilter]);
+
+  const { data: conversations = [] } = useQuery<ConversationWithStats[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const [sort, order] = sortOption.split("-");
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (debouncedSearchQuery) params.set("q", debouncedSearchQuery);
+  if (conversationFilter !== "all") params.set("conversationId", conversationFilter);
+
+  const { data, isLoading, isFetching } = useQuery<ArticleListPage>({
+    queryKey: [`/api/articles?${params}`],
+    staleTime: 0,
+    placeholderData: (previous) => previous,
+  });
+  const articles = data?.articles ?? [];
+  const total = data?.total ?? 0;
+
+  // Deleting the last article on a page leaves it empty; step back a page
+  useEffect(() => {
+    if (data && data.articles.length === 0 && page > 0) setPage(Math.max(0, Math.ceil(data.total / PAGE_SIZE) - 1));
+  }, [data, page]);
+
+  // Every page of the listing is its own query
+  const invalidateArticles = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/articles") });
+  };
+
+  const duplicateArticleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/articles/${id}/duplicate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateArticles();
+      toast({ title: "Article duplicated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to duplicate article", variant: "destructive" });
+    },
+  });
+
+  const deleteArticleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/articles/${id}`);
+    },
+    onSuccess: () => {
+      invalidateArticles();
+      toast({ title: "Article deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete article", variant: "destructive" });
+    },
+  });
+
+  const handleOpenArticle = (article: ArticleSummary) => {
+    setLocation(`/article/${article.conversationId}?article=${article.id}`);
+  };
+
+  const handleDeleteArticle = (id: number) => {
+    if (confirm("Are you sure you want to delete this article and its revision history? This action cannot be undone.")) {
+      deleteArticleMutation.mutate(id);
+    }
+  };
+
+  const hasFilters = debouncedSearchQuery !== "" || conversationFilter !== "all";
+  const firstShown = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastShown = Math.min(total, (page + 1) * PAGE_SIZE);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="gradient-primary-to-secondary text-white">
+        <div className="max-w-6xl mx-auto px-4 py-6">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="hover:bg-white/20 text-white">
+                <Home className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold">Articles</h1>
+              <p className="text-purple-200">
+                {hasFilters ? `${total} matching` : `${total} article${total !== 1 ? 's' : ''}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search titles and text..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={conversationFilter} onValueChange={setConversationFilter}>
+                <SelectTrigger className="w-full md:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All conversations</SelectItem>
+                  {conversations.map(conversation => (
+                    <SelectItem key={conversation.id} value={conversation.id.toString()}>
+                      {conversation.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+                <SelectTrigger className="w-full md:w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Articles Grid */}
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading articles...</p>
+          </div>
+        ) : articles.length === 0 ? (
+          <div className="text-center py-12">
+            {hasFilters ? (
+              <div>
+                <p className="text-gray-500 mb-4">No articles match your filters.</p>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSearchQuery("");
+                    setConversationFilter("all");
+                  }}
+                >
+                  Clear filters
+                </Button>
+              </div>
+            ) : (
+              <div>
+                <p className="text-gray-500 mb-4">No articles yet. Write one from a conversation's bubbles.</p>
+                <Button variant="outline" onClick={() => setLocation("/bubbles")}>
+                  Go to Bubbles
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className={`grid gap-6 sm:grid-cols-2 lg:grid-cols-3 ${isFetching ? 'opacity-60' : ''}`}>
+              {articles.map((article) => (
+                <ArticleCard
+                  key={article.id}
+                  article={article}
+                  onOpen={handleOpenArticle}
+                  onDuplicate={(id) => duplicateArticleMutation.mutate(id)}
+                  onDelete={handleDeleteArticle}
+                />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between mt-6 text-sm text-gray-600">
+              <span>Showing {firstShown}–{lastShown} of {total}</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={lastShown >= total}>
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Zap } from "lucide-react";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shown in place of any page while nobody is signed in
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen w-full gradient-primary flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-10 h-10 rounded-lg gradient-primary-to-secondary text-white flex items-center justify-center">
+            <Zap className="h-5 w-5" />
+          </div>
+          <CardTitle>Neocortex</CardTitle>
+          <CardDescription>Your conversations, bubbles and articles are only visible to you</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs
+            value={mode}
+            onValueChange={(value) => {
+              setMode(value as "login" | "register");
+              loginMutation.reset();
+              registerMutation.reset();
+            }}
+          >
+            <TabsList className="grid grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="register">Create account</TabsTrigger>
+            </TabsList>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  minLength={mode === "register" ? 8 : undefined}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <TabsContent value="register" className="mt-0">
+                <p className="text-xs text-gray-500">
+                  At least 3 characters for the username (letters, digits, ".", "-" and "_") and 8 for the password.
+                </p>
+              </TabsContent>
+
+              {mutation.error && (
+                <p className="text-sm text-red-600">{apiErrorMessage(mutation.error)}</p>
+              )}
+
+              <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                {mode === "login"
+                  ? (mutation.isPending ? "Signing in..." : "Sign in")
+                  : (mutation.isPending ? "Creating account..." : "Create account")}
+              </Button>
+            </form>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
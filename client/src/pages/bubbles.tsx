@@ -1,11 +1,16 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useMemo } from "react";
 import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Save, FileText, FileDown, Plus, Link as LinkIcon, Palette, RefreshCw, Grid3X3 } from "lucide-react";
 import BubbleCard from "@/components/bubble-card";
+import ConversationUnlock from "@/components/conversation-unlock";
 import { apiRequest } from "@/lib/queryClient";
-import type { BubbleWithMessage, InsertBubble } from "@shared/schema";
+import { encryptText } from "@/lib/conversation-crypto";
+import { useConnections } from "@/hooks/use-connections";
+import { useConversationKey, useDecryptedTexts } from "@/hooks/use-conversation-crypto";
+import { useSettings } from "@/hooks/use-settings";
+import type { BubbleWithMessage, BubbleLayout, Conversation, InsertBubble, MessageWithBubble, RecreateBubbles } from "@shared/schema";
 
 export default function Bubbles() {
   const { conversationId } = useParams();
@@ -14,41 +19,84 @@ export default function Bubbles() {
   const canvasRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   
-  // Connection state - using localStorage to persist across re-renders and page reloads
+  // Connection state - connections are persisted server-side per conversation
   const [isConnectMode, setIsConnectMode] = useState(false);
   const [selectedBubbles, setSelectedBubbles] = useState<number[]>([]);
-  const [connections, setConnections] = useState<Array<{id: string; from: number; to: number}>>(() => {
-    // Load connections from localStorage on component mount
-    if (typeof window !== 'undefined' && id) {
-      const stored = localStorage.getItem(`bubbleConnections_${id}`);
-      return stored ? JSON.parse(stored) : [];
-    }
-    return [];
+  const { connections, addConnection, removeConnection } = useConnections(id);
+  const { settings } = useSettings();
+
+  const { data: conversation } = useQuery<Conversation>({
+    queryKey: ["/api/conversations", id],
+    enabled: !!id,
   });
 
-  const { data: bubbles = [], isLoading } = useQuery<BubbleWithMessage[]>({
+  const { data: storedBubbles = [], isLoading } = useQuery<BubbleWithMessage[]>({
     queryKey: ["/api/conversations", id, "bubbles"],
     enabled: !!id,
   });
 
-  // Create bubbles from messages if they don't exist
-  const createBubbleMutation = useMutation({
-    mutationFn: async (data: InsertBubble) => {
-      const response = await apiRequest("POST", "/api/bubbles", data);
-      return response.json();
+  // Bubbles of an encrypted conversation are shown decrypted with the key
+  // this tab holds
+  const encryption = conversation?.encryption ?? null;
+  const encryptionKey = useConversationKey(id);
+  const isEncrypted = encryption !== null;
+  const isLockedConversation = isEncrypted && !encryptionKey;
+  const readText = useDecryptedTexts(
+    encryptionKey,
+    isEncrypted ? storedBubbles.flatMap(b => [b.title, b.message.text, b.message.title]) : [],
+  );
+  const bubbles = useMemo(() => {
+    if (!isEncrypted) return storedBubbles;
+    return storedBubbles.map(b => ({
+      ...b,
+      title: readText(b.title) ?? "",
+      message: { ...b.message, text: readText(b.message.text) ?? "…", title: readText(b.message.title) ?? "" },
+    }));
+  }, [storedBubbles, isEncrypted, readText]);
+
+  // Create or replace many bubbles in one request; the server answers with
+  // the conversation's bubbles as they are now
+  const recreateBubblesMutation = useMutation({
+    mutationFn: async (request: RecreateBubbles) => {
+      const response = await apiRequest("POST", `/api/conversations/${id}/bubbles/recreate`, request);
+      return response.json() as Promise<BubbleWithMessage[]>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", id, "bubbles"] });
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/conversations", id, "bubbles"], updated);
+      // Replaced bubbles take their connections with them
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", id, "connections"] });
+    },
+    onError: (error) => {
+      console.error("Failed to create bubbles:", error);
+      alert("Failed to create bubbles. Nothing was changed.");
     },
   });
 
-  // Delete bubble mutation
-  const deleteBubbleMutation = useMutation({
-    mutationFn: async (bubbleId: number) => {
-      await apiRequest("DELETE", `/api/bubbles/${bubbleId}`);
+  // Move and resize many bubbles in one request
+  const layoutMutation = useMutation({
+    mutationFn: async (layout: BubbleLayout) => {
+      const response = await apiRequest("PUT", `/api/conversations/${id}/bubbles/layout`, layout);
+      return response.json() as Promise<BubbleWithMessage[]>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", id, "bubbles"] });
+    onMutate: async (layout) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/conversations", id, "bubbles"] });
+      const previousBubbles = queryClient.getQueryData<BubbleWithMessage[]>(["/api/conversations", id, "bubbles"]);
+
+      // Show the new layout right away
+      const positions = new Map(layout.map(position => [position.id, position]));
+      queryClient.setQueryData<BubbleWithMessage[]>(["/api/conversations", id, "bubbles"], (old) =>
+        old?.map(bubble => ({ ...bubble, ...positions.get(bubble.id) }))
+      );
+
+      return { previousBubbles };
+    },
+    onError: (err, layout, context) => {
+      if (context?.previousBubbles) {
+        queryClient.setQueryData(["/api/conversations", id, "bubbles"], context.previousBubbles);
+      }
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/conversations", id, "bubbles"], updated);
     },
   });
 
@@ -106,10 +154,16 @@ export default function Bubbles() {
   });
 
   // Get messages to create bubbles from
-  const { data: messages = [] } = useQuery({
+  const { data: messages = [] } = useQuery<MessageWithBubble[]>({
     queryKey: ["/api/conversations", id, "messages"],
     enabled: !!id,
   });
+  const readMessageTitle = useDecryptedTexts(encryptionKey, isEncrypted ? messages.map(m => m.title) : []);
+
+  // Encrypted messages have no keywords; their title stands in for the primary
+  // one. It is grouped by once decrypted and copied to the bubble as it is.
+  const primaryKeyword = (message: MessageWithBubble) =>
+    isEncrypted ? readMessageTitle(message.title) ?? "" : message.keywords[0] || "";
 
   // Calculate optimal bubble size based on available space and bubble count
   const calculateOptimalBubbleSize = (totalBubbles: number) => {
@@ -157,26 +211,21 @@ export default function Bubbles() {
     };
   };
 
-  // Create bubbles for messages that don't have them with adaptive layout
-  const handleCreateBubbles = () => {
-    const colors = ["blue", "green", "purple", "orange", "red"];
+  // Bubbles for the given messages, grouped by primary keyword and filling
+  // columns top to bottom, sized for `totalBubbles` on the canvas
+  const layoutNewBubbles = (messagesToPlace: MessageWithBubble[], totalBubbles: number): InsertBubble[] => {
+    const colors = settings.bubbleColors;
     const gapX = 20;
     const gapY = 20;
     const startX = 20;
     const startY = 20;
 
-    // Get messages that don't have bubbles and organize them
-    const messagesToCreate = messages.filter(message => 
-      !bubbles.find(b => b.messageId === message.id)
-    );
-
-    // Calculate optimal size based on total number of bubbles (including existing ones)
-    const totalBubbles = bubbles.length + messagesToCreate.length;
-    const { width: bubbleWidth, height: bubbleHeight, isCompact } = calculateOptimalBubbleSize(totalBubbles);
+    // Calculate optimal size based on total number of bubbles
+    const { width: bubbleWidth, height: bubbleHeight } = calculateOptimalBubbleSize(totalBubbles);
 
-    // Group messages by keyword, then by conversation order
-    const groupedMessages = messagesToCreate.reduce((groups: { [key: string]: typeof messagesToCreate }, message) => {
-      const keyword = message.title || "_no_keyword";
+    // Group messages by primary keyword, then by conversation order
+    const groupedMessages = messagesToPlace.reduce((groups: { [key: string]: MessageWithBubble[] }, message) => {
+      const keyword = primaryKeyword(message) || "_no_keyword";
       if (!groups[keyword]) groups[keyword] = [];
       groups[keyword].push(message);
       return groups;
@@ -193,140 +242,49 @@ export default function Bubbles() {
     const maxRows = Math.floor((window.innerHeight - 200) / (bubbleHeight + gapY));
     let currentColumn = 0;
     let currentRow = 0;
-    let bubbleIndex = 0;
-
-    sortedGroups.forEach(([keyword, groupMessages]) => {
-      groupMessages.forEach((message) => {
-        const x = startX + currentColumn * (bubbleWidth + gapX);
-        const y = startY + currentRow * (bubbleHeight + gapY);
-
-        createBubbleMutation.mutate({
-          messageId: message.id,
-          x: x,
-          y: y,
-          width: bubbleWidth,
-          height: bubbleHeight,
-          category: "", // No default category - let user add manually
-          color: colors[bubbleIndex % colors.length],
-          title: message.title || "", // Inherit keyword from message
-        });
-
-        // Move to next position - fill column first (top to bottom)
-        currentRow++;
-        if (currentRow >= maxRows) {
-          currentRow = 0;
-          currentColumn++;
-        }
-        
-        bubbleIndex++;
-      });
-    });
-  };
 
-  // Recreate all bubbles from latest messages
-  const handleRecreateBubbles = async () => {
-    if (bubbles.length === 0) {
-      // If no bubbles exist, just create them
-      handleCreateBubbles();
-      return;
-    }
+    return sortedGroups.flatMap(([, groupMessages]) => groupMessages).map((message, bubbleIndex) => {
+      const bubble: InsertBubble = {
+        messageId: message.id,
+        x: startX + currentColumn * (bubbleWidth + gapX),
+        y: startY + currentRow * (bubbleHeight + gapY),
+        width: bubbleWidth,
+        height: bubbleHeight,
+        category: "", // No default category - let user add manually
+        color: colors[bubbleIndex % colors.length],
+        title: isEncrypted ? message.title : message.keywords[0] || "", // Inherit primary keyword from message
+      };
 
-    // Store current bubbles list since it will change during deletion
-    const bubblesToDelete = [...bubbles];
-    
-    // Delete all existing bubbles one by one with proper callback chain
-    let deletedCount = 0;
-    
-    const deleteAndCreate = () => {
-      if (deletedCount < bubblesToDelete.length) {
-        const bubble = bubblesToDelete[deletedCount];
-        deleteBubbleMutation.mutate(bubble.id, {
-          onSuccess: () => {
-            deletedCount++;
-            if (deletedCount === bubblesToDelete.length) {
-              // All deletions complete, now create new bubbles
-              console.log("All bubbles deleted, creating new ones...");
-              createNewBubbles();
-            } else {
-              // Delete next bubble
-              deleteAndCreate();
-            }
-          },
-          onError: (error) => {
-            console.error("Failed to delete bubble:", error);
-            deletedCount++;
-            if (deletedCount === bubblesToDelete.length) {
-              createNewBubbles();
-            } else {
-              deleteAndCreate();
-            }
-          }
-        });
+      // Move to next position - fill column first (top to bottom)
+      currentRow++;
+      if (currentRow >= maxRows) {
+        currentRow = 0;
+        currentColumn++;
       }
-    };
-
-    const createNewBubbles = () => {
-      const colors = ["blue", "green", "purple", "orange", "red"];
-      const gapX = 20;
-      const gapY = 20;
-      const startX = 20;
-      const startY = 20;
-
-      // Calculate optimal size based on total number of messages
-      const { width: bubbleWidth, height: bubbleHeight, isCompact } = calculateOptimalBubbleSize(messages.length);
-
-      // Group messages by keyword, then by conversation order
-      const groupedMessages = messages.reduce((groups: { [key: string]: typeof messages }, message) => {
-        const keyword = message.title || "_no_keyword";
-        if (!groups[keyword]) groups[keyword] = [];
-        groups[keyword].push(message);
-        return groups;
-      }, {});
-
-      // Sort groups: keyword groups first, then no-keyword group
-      const sortedGroups = Object.entries(groupedMessages).sort(([keyA], [keyB]) => {
-        if (keyA === "_no_keyword") return 1;
-        if (keyB === "_no_keyword") return -1;
-        return keyA.localeCompare(keyB);
-      });
+      return bubble;
+    });
+  };
 
-      // Calculate positions for all bubbles - fill columns top to bottom
-      const maxRows = Math.floor((window.innerHeight - 200) / (bubbleHeight + gapY));
-      let currentColumn = 0;
-      let currentRow = 0;
-      let bubbleIndex = 0;
+  // Create bubbles for messages that don't have them with adaptive layout
+  const handleCreateBubbles = () => {
+    const messagesToCreate = messages.filter(message =>
+      !bubbles.find(b => b.messageId === message.id)
+    );
 
-      sortedGroups.forEach(([keyword, groupMessages]) => {
-        groupMessages.forEach((message) => {
-          console.log(`Creating bubble for message ${message.id} with title: ${message.title}`);
-          
-          const x = startX + currentColumn * (bubbleWidth + gapX);
-          const y = startY + currentRow * (bubbleHeight + gapY);
-
-          createBubbleMutation.mutate({
-            messageId: message.id,
-            x: x,
-            y: y,
-            width: bubbleWidth,
-            height: bubbleHeight,
-            category: "", // No default category - let user add manually
-            color: colors[bubbleIndex % colors.length],
-            title: message.title || "", // Inherit keyword from message
-          });
-
-          // Move to next position - fill column first (top to bottom)
-          currentRow++;
-          if (currentRow >= maxRows) {
-            currentRow = 0;
-            currentColumn++;
-          }
-          
-          bubbleIndex++;
-        });
-      });
-    };
+    // Sized for all bubbles, including existing ones
+    recreateBubblesMutation.mutate({
+      bubbles: layoutNewBubbles(messagesToCreate, bubbles.length + messagesToCreate.length),
+      keepExisting: true,
+    });
+  };
 
-    deleteAndCreate();
+  // Recreate all bubbles from latest messages, replacing the current ones
+  // (and their connections) in one step
+  const handleRecreateBubbles = () => {
+    recreateBubblesMutation.mutate({
+      bubbles: layoutNewBubbles(messages, messages.length),
+      keepExisting: false,
+    });
   };
 
   const handleBubbleColorChange = (bubbleId: number, newColor: string) => {
@@ -343,14 +301,14 @@ export default function Bubbles() {
 
 
 
-  const handleBubbleTitleChange = (bubbleId: number, newTitle: string) => {
+  const handleBubbleTitleChange = async (bubbleId: number, newTitle: string) => {
     const bubble = bubbles.find(b => b.id === bubbleId);
     if (bubble) {
       updateBubbleMutation.mutate({ 
         bubbleId, 
         x: bubble.x, 
         y: bubble.y, 
-        title: newTitle 
+        title: encryptionKey ? await encryptText(encryptionKey, newTitle) : newTitle
       });
     }
   };
@@ -411,17 +369,12 @@ export default function Bubbles() {
 
         // Find the next bubble in the chain (most recent outgoing connection)
         const outgoingConnections = connections
-          .filter(conn => conn.from === startBubbleId)
-          .sort((a, b) => {
-            // Sort by timestamp in connection ID (creation order)
-            const aTime = parseInt(a.id.split('-').pop() || '0');
-            const bTime = parseInt(b.id.split('-').pop() || '0');
-            return aTime - bTime;
-          });
+          .filter(conn => conn.fromBubbleId === startBubbleId)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt)); // Creation order
 
         // Follow the chain by taking the first (earliest) connection
         if (outgoingConnections.length > 0) {
-          const nextBubbleId = outgoingConnections[0].to;
+          const nextBubbleId = outgoingConnections[0].toBubbleId;
           return buildChain(nextBubbleId, chain);
         }
 
@@ -430,8 +383,8 @@ export default function Bubbles() {
 
       // Find starting points for chains (bubbles with outgoing but no incoming connections)
       const startingBubbles = bubbles.filter(bubble => {
-        const hasIncoming = connections.some(conn => conn.to === bubble.id);
-        const hasOutgoing = connections.some(conn => conn.from === bubble.id);
+        const hasIncoming = connections.some(conn => conn.toBubbleId === bubble.id);
+        const hasOutgoing = connections.some(conn => conn.fromBubbleId === bubble.id);
         return hasOutgoing && !hasIncoming;
       });
 
@@ -447,7 +400,7 @@ export default function Bubbles() {
 
       // Add any remaining connected bubbles that weren't captured in chains
       const remainingConnected = bubbles.filter(bubble => {
-        const isConnected = connections.some(conn => conn.from === bubble.id || conn.to === bubble.id);
+        const isConnected = connections.some(conn => conn.fromBubbleId === bubble.id || conn.toBubbleId === bubble.id);
         return isConnected && !visited.has(bubble.id);
       });
 
@@ -493,17 +446,14 @@ export default function Bubbles() {
     let currentRow = 0;
 
     // Align all bubbles to grid positions in connection order
-    sortedBubbles.forEach((bubble) => {
-      const x = startX + currentColumn * (bubbleWidth + gapX);
-      const y = startY + currentRow * (bubbleHeight + gapY);
-
-      updateBubbleMutation.mutate({
-        bubbleId: bubble.id,
-        x: x,
-        y: y,
+    const layout = sortedBubbles.map((bubble) => {
+      const position = {
+        id: bubble.id,
+        x: startX + currentColumn * (bubbleWidth + gapX),
+        y: startY + currentRow * (bubbleHeight + gapY),
         width: bubbleWidth,
         height: bubbleHeight,
-      });
+      };
 
       // Move to next position - fill column first (top to bottom)
       currentRow++;
@@ -511,12 +461,34 @@ export default function Bubbles() {
         currentRow = 0;
         currentColumn++;
       }
+      return position;
+    });
+
+    // One request for the whole layout: it is saved completely or not at all
+    layoutMutation.mutate(layout, {
+      onSuccess: () => {
+        const message = connections.length > 0
+          ? "Bubbles aligned with connected bubbles at the top in connection order!"
+          : "Bubbles aligned to grid layout preserving your arrangement!";
+        alert(message);
+      },
+      onError: () => alert("Failed to align bubbles. The previous layout was kept."),
     });
+  };
 
-    const message = connections.length > 0 
-      ? "Bubbles aligned with connected bubbles at the top in connection order!"
-      : "Bubbles aligned to grid layout preserving your arrangement!";
-    alert(message);
+  // Fetched rather than linked to, so the request carries the app lock token.
+  // The tab opens first, while the click still allows pop-ups.
+  const handleExportPdf = async () => {
+    const tab = window.open("", "_blank");
+    try {
+      const response = await apiRequest("GET", `/api/export-pdf/${id}`);
+      const url = URL.createObjectURL(await response.blob());
+      if (tab) tab.location.href = url;
+      else window.open(url, "_blank");
+    } catch (error) {
+      tab?.close();
+      alert("Failed to export PDF.");
+    }
   };
 
   const handleConnectMode = () => {
@@ -532,31 +504,6 @@ export default function Bubbles() {
     }
   };
 
-  // Helper functions for connection management
-  const addConnection = useCallback((connection: {id: string; from: number; to: number}) => {
-    console.log('➕ Adding connection:', connection);
-    setConnections(prev => {
-      const updated = [...prev, connection];
-      console.log('💾 Saving connections to localStorage. Total:', updated.length);
-      // Save to localStorage
-      if (typeof window !== 'undefined' && id) {
-        localStorage.setItem(`bubbleConnections_${id}`, JSON.stringify(updated));
-      }
-      return updated;
-    });
-  }, [connections, id]);
-
-  const removeConnection = useCallback((connectionId: string) => {
-    setConnections(prev => {
-      const updated = prev.filter(conn => conn.id !== connectionId);
-      // Save to localStorage
-      if (typeof window !== 'undefined' && id) {
-        localStorage.setItem(`bubbleConnections_${id}`, JSON.stringify(updated));
-      }
-      return updated;
-    });
-  }, [connections, id]);
-
   const handleBubbleDoubleClick = (bubbleId: number) => {
     console.log('🖱️ Double-click detected on bubble:', bubbleId, 'Connect mode:', isConnectMode);
     
@@ -593,8 +540,8 @@ export default function Bubbles() {
       // Check for existing connection to prevent duplicates
       const existingConnection = connections.find(
         conn => 
-          (conn.from === fromBubble && conn.to === toBubble) ||
-          (conn.from === toBubble && conn.to === fromBubble)
+          (conn.fromBubbleId === fromBubble && conn.toBubbleId === toBubble) ||
+          (conn.fromBubbleId === toBubble && conn.toBubbleId === fromBubble)
       );
       
       if (existingConnection) {
@@ -605,13 +552,8 @@ export default function Bubbles() {
       }
       
       // Create new connection
-      const newConnection = {
-        id: `${fromBubble}-${toBubble}-${Date.now()}`,
-        from: fromBubble,
-        to: toBubble
-      };
-      console.log('🎯 Creating new connection:', newConnection);
-      addConnection(newConnection);
+      console.log('🎯 Creating new connection:', fromBubble, '->', toBubble);
+      addConnection(fromBubble, toBubble);
       
       setSelectedBubbles([]);
     } else {
@@ -626,24 +568,22 @@ export default function Bubbles() {
     
     // Right-click removes the most recent connection for this bubble
     const existingConnections = connections.filter(
-      conn => conn.from === bubbleId || conn.to === bubbleId
+      conn => conn.fromBubbleId === bubbleId || conn.toBubbleId === bubbleId
     );
     
     if (existingConnections.length > 0) {
-      // Remove the most recently created connection (highest timestamp in ID)
-      const mostRecentConnection = existingConnections.reduce((latest, current) => {
-        const latestTime = parseInt(latest.id.split('-').pop() || '0');
-        const currentTime = parseInt(current.id.split('-').pop() || '0');
-        return currentTime > latestTime ? current : latest;
-      });
+      // Remove the most recently created connection
+      const mostRecentConnection = existingConnections.reduce((latest, current) =>
+        current.createdAt > latest.createdAt ? current : latest
+      );
       removeConnection(mostRecentConnection.id);
     }
   };
 
   const renderConnections = () => {
     return connections.map(connection => {
-      const fromBubble = bubbles.find(b => b.id === connection.from);
-      const toBubble = bubbles.find(b => b.id === connection.to);
+      const fromBubble = bubbles.find(b => b.id === connection.fromBubbleId);
+      const toBubble = bubbles.find(b => b.id === connection.toBubbleId);
       
       if (!fromBubble || !toBubble) return null;
       
@@ -743,7 +683,7 @@ export default function Bubbles() {
               variant="ghost"
               size="sm"
               className="bg-white/20 hover:bg-white/30 text-white"
-              disabled={messages.length === 0}
+              disabled={messages.length === 0 || recreateBubblesMutation.isPending || isLockedConversation}
             >
               <RefreshCw className="mr-2 h-4 w-4" />
               Recreate Bubbles
@@ -766,9 +706,11 @@ export default function Bubbles() {
               Create Article
             </Button>
             <Button
-              onClick={() => window.open(`/api/export-pdf/${id}`, '_blank')}
+              onClick={handleExportPdf}
               size="sm"
               className="bg-yellow-400 text-yellow-900 hover:bg-yellow-300"
+              disabled={isEncrypted}
+              title={isEncrypted ? "PDF export isn't available for encrypted conversations" : undefined}
             >
               <FileDown className="mr-2 h-4 w-4" />
               Export PDF
@@ -777,6 +719,12 @@ export default function Bubbles() {
         </div>
       </div>
 
+      {isEncrypted && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 text-sm text-amber-800 text-center">
+          Encrypted conversation: PDF export isn't available, and bubbles can't be used in articles.
+        </div>
+      )}
+
       {/* Canvas Area */}
       <div className="flex-1 relative overflow-hidden">
         <div 
@@ -794,11 +742,15 @@ export default function Bubbles() {
           {/* Render connections behind bubbles */}
           {renderConnections()}
           
-          {bubbles.length === 0 ? (
+          {isLockedConversation ? (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <ConversationUnlock conversationId={id!} encryption={encryption!} />
+            </div>
+          ) : bubbles.length === 0 ? (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center">
                 <p className="text-gray-600 mb-4">No bubbles created yet.</p>
-                <Button onClick={handleCreateBubbles}>
+                <Button onClick={handleCreateBubbles} disabled={recreateBubblesMutation.isPending}>
                   <Plus className="mr-2 h-4 w-4" />
                   Create Bubbles from Messages
                 </Button>
@@ -838,6 +790,7 @@ export default function Bubbles() {
             className="bg-white bubble-shadow rounded-2xl p-3 hover:bubble-shadow-lg text-gray-600 hover:text-primary"
             variant="ghost"
             title="Align bubbles in grid layout"
+            disabled={layoutMutation.isPending}
           >
             <Grid3X3 className="h-5 w-5" />
           </Button>
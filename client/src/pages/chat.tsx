@@ -1,42 +1,96 @@
-import { useState, useRef, useEffect } from "react";
-import { useLocation, useParams } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowLeft, Send, Workflow, Lightbulb, Copy, Move, Plus, Languages } from "lucide-react";
+import { ArrowLeft, Send, Workflow, Lightbulb, Copy, Move, Plus, Languages, Trash2, ArrowDown, Lock, LockOpen } from "lucide-react";
 import MessageBubble from "@/components/message-bubble";
-import { apiRequest } from "@/lib/queryClient";
-import type { Conversation, ConversationWithStats, MessageWithBubble, InsertMessage, InsertConversation } from "@shared/schema";
+import ConversationUnlock from "@/components/conversation-unlock";
+import ConversationEncryptionDialog from "@/components/conversation-encryption-dialog";
+import { apiRequest, unlockHeaders } from "@/lib/queryClient";
+import { encryptText } from "@/lib/conversation-crypto";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { useConversationKey, useDecryptedTexts } from "@/hooks/use-conversation-crypto";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import type { Conversation, ConversationWithStats, MessageWithBubble, MessagePage, InsertMessage, InsertConversation, KeywordWithCount, TranslateResponse, BulkMessageOperation, BulkMessageResult } from "@shared/schema";
+
+const MESSAGE_PAGE_SIZE = 50;
+// Height of a message before it has been drawn and measured
+const ESTIMATED_MESSAGE_HEIGHT = 120;
+// How close to either end of the loaded messages the next page is fetched
+const LOAD_MORE_DISTANCE = 600;
+
+const TRANSLATION_PROVIDER_LABELS: Record<string, string> = {
+  google: "Google Translate",
+  openai: "OpenAI-compatible",
+  mock: "Local mock (testing)",
+};
+// Radix selects can't have an empty value; this one leaves the provider to the server
+const SERVER_DEFAULT_PROVIDER = "default";
+
+// Which services the translations came from, and how many were reused
+function describeTranslations(results: TranslateResponse[]): string {
+  const counts = new Map<string, number>();
+  results.forEach(result => counts.set(result.provider, (counts.get(result.provider) ?? 0) + 1));
+  const providers = Array.from(counts, ([provider, count]) => {
+    const label = TRANSLATION_PROVIDER_LABELS[provider] ?? provider;
+    return counts.size > 1 ? `${label} (${count})` : label;
+  });
+  const cached = results.filter(result => result.cached).length;
+  return `By ${providers.join(', ')}${cached > 0 ? `, ${cached} of them reused from earlier translations` : ''}`;
+}
+
+// Where the chat should scroll once the messages are loaded
+type PendingJump = { messageId: number } | { date: string };
 
 export default function Chat() {
   const { id } = useParams();
   const conversationId = id ? parseInt(id) : null;
   const [, setLocation] = useLocation();
+  const search = useSearch();
+  const jumpToMessageId = parseInt(new URLSearchParams(search).get("message") || "") || null;
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const [pendingJump, setPendingJump] = useState<PendingJump | null>(jumpToMessageId ? { messageId: jumpToMessageId } : null);
+  // The loaded messages start around this message or date ("around=…",
+  // "date=…"), or at the newest ones ("")
+  const [windowAnchor, setWindowAnchor] = useState({
+    conversationId,
+    anchor: jumpToMessageId ? `around=${jumpToMessageId}` : "",
+  });
   const [message, setMessage] = useState("");
   const [conversationName, setConversationName] = useState("");
   const [isEditingName, setIsEditingName] = useState(false);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedMessages, setSelectedMessages] = useState<Set<number>>(new Set());
-  const [messageKeywords, setMessageKeywords] = useState<Map<number, string>>(new Map());
+  const [messageKeywords, setMessageKeywords] = useState<Map<number, string[]>>(new Map());
   const [showMoveDialog, setShowMoveDialog] = useState(false);
   const [newConversationTitle, setNewConversationTitle] = useState("");
   const [targetConversationId, setTargetConversationId] = useState<string>("");
   const [removeFromOriginal, setRemoveFromOriginal] = useState(false);
   const [showBilingualDialog, setShowBilingualDialog] = useState(false);
-  const [sourceLanguage, setSourceLanguage] = useState("zh");
-  const [targetLanguage, setTargetLanguage] = useState("en");
+  // The languages picked for translating, the ones from settings until then
+  const { settings } = useSettings();
+  const [sourceChoice, setSourceLanguage] = useState<string | null>(null);
+  const [targetChoice, setTargetLanguage] = useState<string | null>(null);
+  const sourceLanguage = sourceChoice ?? settings.sourceLanguage;
+  const targetLanguage = targetChoice ?? settings.targetLanguage;
   const [isTranslating, setIsTranslating] = useState(false);
-  const [translationProvider, setTranslationProvider] = useState('google'); // Default to Google
+  // Unset until picked, so the server's default provider applies
+  const [translationProvider, setTranslationProvider] = useState<string | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const [showEncryptionDialog, setShowEncryptionDialog] = useState(false);
   const isUserAction = useRef(false);
-  const lastMessageCount = useRef(0);
+  const lastMessageId = useRef<number>();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   // Get conversation details
   const { data: conversation } = useQuery<Conversation>({
@@ -44,17 +98,88 @@ export default function Chat() {
     enabled: !!conversationId,
   });
 
-  // Get messages for this conversation
-  const { data: messages = [], isLoading } = useQuery<MessageWithBubble[]>({
-    queryKey: ["/api/conversations", conversationId, "messages"],
+  // Get messages for this conversation a page at a time: older pages are put
+  // in front as the chat is scrolled up, newer ones after it when scrolled down
+  const anchor = windowAnchor.conversationId === conversationId ? windowAnchor.anchor : "";
+  const messagePagesKey = ["/api/conversations", conversationId, "messages", "pages"];
+  const {
+    data: messagePages,
+    isLoading,
+    isFetching,
+    isError,
+    hasPreviousPage,
+    hasNextPage,
+    isFetchingPreviousPage,
+    isFetchingNextPage,
+    fetchPreviousPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...messagePagesKey, anchor],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", `/api/conversations/${conversationId}/messages?limit=${MESSAGE_PAGE_SIZE}${pageParam}`);
+      return response.json() as Promise<MessagePage>;
+    },
+    initialPageParam: anchor ? `&${anchor}` : "",
+    getPreviousPageParam: (first) => first.olderCursor ? `&before=${encodeURIComponent(first.olderCursor)}` : undefined,
+    getNextPageParam: (last) => last.newerCursor ? `&after=${encodeURIComponent(last.newerCursor)}` : undefined,
     enabled: !!conversationId,
   });
+  const storedMessages = useMemo(() => messagePages?.pages.flatMap(page => page.messages) ?? [], [messagePages]);
+
+  // An encrypted conversation is shown decrypted with the key this tab holds.
+  // Its messages have no keywords; the (encrypted) title stands in for the
+  // primary one.
+  const encryption = conversation?.encryption ?? null;
+  const encryptionKey = useConversationKey(conversationId);
+  const isEncrypted = encryption !== null;
+  const readText = useDecryptedTexts(encryptionKey, isEncrypted ? storedMessages.flatMap(m => [m.text, m.title]) : []);
+  const messages = useMemo(() => {
+    if (!isEncrypted) return storedMessages;
+    return storedMessages.map(m => {
+      const title = readText(m.title) ?? "";
+      return { ...m, text: readText(m.text) ?? "…", title, keywords: title ? [title] : [] };
+    });
+  }, [storedMessages, isEncrypted, readText]);
+
+  // Text as it is stored: encrypted in an encrypted conversation
+  const sealText = async (text: string) => encryptionKey ? encryptText(encryptionKey, text) : text;
+
+  const { items: visibleMessages, totalSize, measureElement, scrollToKey } = useVirtualList({
+    keys: messages.map(m => m.id),
+    scrollRef: messagesContainerRef,
+    estimateSize: ESTIMATED_MESSAGE_HEIGHT,
+  });
+
+  const setAnchor = (next: string) => setWindowAnchor({ conversationId, anchor: next });
+
+  // Messages alternate sides. The count starts from a message that stays
+  // loaded, so sides don't swap when earlier pages are put in front.
+  const sideReference = useRef<{ id: number; isUser: boolean }>();
+  let sideIndex = messages.findIndex(m => m.id === sideReference.current?.id);
+  if (sideIndex === -1 && messages.length > 0) {
+    sideReference.current = { id: messages[0].id, isUser: true };
+    sideIndex = 0;
+  }
+  const isUserSide = (index: number) => ((index - sideIndex) % 2 === 0) === sideReference.current?.isUser;
+
+  // Applies a change to every loaded page of messages
+  const updateLoadedMessages = (update: (messages: MessageWithBubble[]) => MessageWithBubble[]) => {
+    queryClient.setQueriesData<InfiniteData<MessagePage>>({ queryKey: messagePagesKey }, (data) =>
+      data && { ...data, pages: data.pages.map(page => ({ ...page, messages: update(page.messages) })) }
+    );
+  };
 
   // Get all conversations for move dialog
   const { data: allConversations = [] } = useQuery<ConversationWithStats[]>({
     queryKey: ["/api/conversations"],
   });
 
+  // Existing keywords, offered as suggestions while tagging
+  const { data: allKeywords = [] } = useQuery<KeywordWithCount[]>({
+    queryKey: ["/api/keywords"],
+    enabled: isSelectionMode,
+  });
+
   // Create new conversation mutation
   const createConversationMutation = useMutation({
     mutationFn: async (data: InsertConversation) => {
@@ -122,15 +247,9 @@ export default function Chat() {
     },
     onSuccess: (updatedMessage) => {
       // Immediately update the cache with server response
-      queryClient.setQueryData(
-        ["/api/conversations", conversationId, "messages"],
-        (oldData: any[]) => {
-          if (!oldData) return oldData;
-          return oldData.map(msg => 
-            msg.id === updatedMessage.id ? updatedMessage : msg
-          );
-        }
-      );
+      updateLoadedMessages(loaded => loaded.map(msg =>
+        msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg
+      ));
 
       // Force immediate refetch to ensure UI consistency
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
@@ -143,7 +262,7 @@ export default function Chat() {
     }
   });
 
-  // Delete message mutation with preserved scroll position
+  // Delete message mutation
   const deleteMessageMutation = useMutation({
     mutationFn: async (messageId: number) => {
       const response = await apiRequest("DELETE", `/api/messages/${messageId}`);
@@ -153,47 +272,25 @@ export default function Chat() {
       return messageId;
     },
     onMutate: async (messageId: number) => {
-      // Save current scroll position before deletion
-      if (messagesContainerRef.current) {
-        const container = messagesContainerRef.current;
-        const savedPosition = container.scrollTop;
-
-        // Store scroll position in a ref that won't trigger re-renders
-        container.setAttribute('data-saved-scroll', savedPosition.toString());
-      }
-
       // Cancel any outgoing refetches to avoid overwriting optimistic update
-      await queryClient.cancelQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      await queryClient.cancelQueries({ queryKey: messagePagesKey });
 
       // Snapshot the previous value
-      const previousMessages = queryClient.getQueryData(["/api/conversations", conversationId, "messages"]);
+      const previousMessages = queryClient.getQueriesData<InfiniteData<MessagePage>>({ queryKey: messagePagesKey });
 
       // Optimistically update cache immediately (before server response)
-      queryClient.setQueryData(
-        ["/api/conversations", conversationId, "messages"],
-        (oldData: any[]) => {
-          if (!oldData) return oldData;
-          return oldData.filter(msg => msg.id !== messageId);
-        }
-      );
+      updateLoadedMessages(loaded => loaded.filter(msg => msg.id !== messageId));
 
       // Return context object with snapshot value
       return { previousMessages };
     },
     onError: (error, messageId, context) => {
       // If mutation fails, rollback to previous state
-      if (context?.previousMessages) {
-        queryClient.setQueryData(
-          ["/api/conversations", conversationId, "messages"],
-          context.previousMessages
-        );
+      for (const [key, data] of context?.previousMessages ?? []) {
+        queryClient.setQueryData(key, data);
       }
       console.error('Failed to delete message:', error);
     },
-    onSuccess: () => {
-      // Don't restore scroll position here - let the useEffect handle it after refetch
-      // The data-saved-scroll attribute will be processed by useEffect after invalidateQueries
-    },
     onSettled: () => {
       // Always refetch after error or success to ensure consistency
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
@@ -201,39 +298,100 @@ export default function Chat() {
     }
   });
 
+  // Jump to a specific message (e.g. from search results): the loaded
+  // messages move to around it unless it is among them already
   useEffect(() => {
-    // Check if we have a saved scroll position (from deletion, translation, or other operations)
-    const hasSavedScroll = messagesContainerRef.current?.hasAttribute('data-saved-scroll');
-
-    if (hasSavedScroll) {
-      // Restore saved scroll position
-      const container = messagesContainerRef.current;
-      const savedPosition = container?.getAttribute('data-saved-scroll');
-      if (savedPosition && container) {
-        requestAnimationFrame(() => {
-          requestAnimationFrame(() => {
-            if (container) {
-              container.scrollTop = parseInt(savedPosition);
-              container.removeAttribute('data-saved-scroll');
-            }
-          });
-        });
-      }
+    if (!jumpToMessageId) return;
+    setPendingJump({ messageId: jumpToMessageId });
+    if (!messages.some(m => m.id === jumpToMessageId)) setAnchor(`around=${jumpToMessageId}`);
+
+    // Drop the query param so later updates scroll normally
+    setLocation(`/chat/${conversationId}`, { replace: true });
+  }, [jumpToMessageId]);
+
+  // A message that can't be found (e.g. deleted since it was linked) leaves the newest messages
+  useEffect(() => {
+    if (isError && anchor) setAnchor("");
+  }, [isError, anchor]);
+
+  // Scroll to the pending jump's message once it has loaded. A date past the
+  // last message lands on the last message.
+  useEffect(() => {
+    if (!pendingJump || isFetching) return;
+    const target = "messageId" in pendingJump
+      ? messages.find(m => m.id === pendingJump.messageId)
+      : messages.find(m => m.createdAt >= pendingJump.date) ?? messages[messages.length - 1];
+    setPendingJump(null);
+    if (!target) return;
+
+    const align = "messageId" in pendingJump ? "center" : "start";
+    scrollToKey(target.id, align);
+    // Once more after the messages around it have been measured
+    requestAnimationFrame(() => requestAnimationFrame(() => scrollToKey(target.id, align)));
+    setHighlightedMessageId(target.id);
+    setTimeout(() => setHighlightedMessageId(null), 2500);
+  }, [messages, pendingJump, isFetching]);
+
+  // Follow new messages at the end of the conversation (not deleted, edited,
+  // or translated ones, and not while showing older messages)
+  useEffect(() => {
+    const last = messages[messages.length - 1]?.id;
+    const previous = lastMessageId.current;
+    lastMessageId.current = last;
+    if (last === undefined || last === previous || hasNextPage || pendingJump) return;
+
+    const appended = previous !== undefined && messages.some(m => m.id === previous);
+    if (appended) {
+      // Small delay to ensure DOM has rendered
+      setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
+    } else if (!anchor) {
+      // Opened at the newest messages
+      scrollToKey(last, "end");
+      requestAnimationFrame(() => requestAnimationFrame(() => messagesEndRef.current?.scrollIntoView()));
+    }
+  }, [messages, hasNextPage, pendingJump]);
+
+  // Fetches the next page at whichever end of the loaded messages is in view
+  const loadMoreMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!container || pendingJump) return;
+
+    if (container.scrollTop < LOAD_MORE_DISTANCE && hasPreviousPage && !isFetchingPreviousPage) {
+      fetchPreviousPage();
+    }
+    const fromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    if (fromBottom < LOAD_MORE_DISTANCE && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  // Also when a page arrives that doesn't fill the screen
+  useEffect(() => {
+    if (!isFetching) loadMoreMessages();
+  }, [messages, isFetching]);
+
+  const handleJumpToDate = (value: string) => {
+    if (!value) return;
+    // Midnight where the user is
+    const date = new Date(`${value}T00:00`).toISOString();
+    setPendingJump({ date });
+
+    // Load the messages from that date on, unless they are loaded already
+    const first = messages[0];
+    const loaded = first !== undefined
+      && (first.createdAt <= date || !hasPreviousPage)
+      && (messages.some(m => m.createdAt >= date) || !hasNextPage);
+    if (!loaded) setAnchor(`date=${encodeURIComponent(date)}`);
+  };
+
+  const handleJumpToLatest = () => {
+    setPendingJump(null);
+    if (anchor) {
+      setAnchor("");
     } else {
-      // Only auto-scroll when messages are added (not deleted, edited, or translated)
-      const messageAdded = messages.length > lastMessageCount.current;
-      lastMessageCount.current = messages.length;
-
-      if (messageAdded && messages.length > 0) {
-        // Small delay to ensure DOM has rendered
-        setTimeout(() => {
-          if (!messagesContainerRef.current?.hasAttribute('data-saved-scroll') && messagesEndRef.current) {
-            messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
-          }
-        }, 50);
-      }
+      queryClient.resetQueries({ queryKey: messagePagesKey });
     }
-  }, [messages]);
+  };
 
   // Selection handlers
   const handleSelectionChange = (messageId: number, selected: boolean) => {
@@ -241,12 +399,12 @@ export default function Chat() {
       const newSet = new Set(prev);
       if (selected) {
         newSet.add(messageId);
-        // Initialize keyword with existing message title if available
+        // Initialize keywords with the message's existing ones
         const message = messages.find(m => m.id === messageId);
-        if (message?.title && !messageKeywords.has(messageId)) {
+        if (message && message.keywords.length > 0 && !messageKeywords.has(messageId)) {
           setMessageKeywords(prev => {
             const newMap = new Map(prev);
-            newMap.set(messageId, message.title);
+            newMap.set(messageId, message.keywords);
             return newMap;
           });
         }
@@ -262,22 +420,24 @@ export default function Chat() {
     });
   };
 
-  const handleKeywordChange = (messageId: number, keyword: string) => {
+  const handleKeywordsChange = (messageId: number, keywords: string[]) => {
+    // Only the primary keyword survives encryption, as the title
+    if (isEncrypted) keywords = keywords.slice(0, 1);
     setMessageKeywords(prev => {
       const newMap = new Map(prev);
-      newMap.set(messageId, keyword);
+      newMap.set(messageId, keywords);
       return newMap;
     });
 
-    // Save keyword to the message in the database immediately
-    updateMessageTitle(messageId, keyword);
+    // Save keywords to the message in the database immediately
+    updateMessageKeywords(messageId, keywords);
   };
 
-  const handleMessageEdit = (messageId: number, newText: string) => {
+  const handleMessageEdit = async (messageId: number, newText: string) => {
     // Update message text in the database
     updateMessageMutation.mutate({ 
       id: messageId, 
-      text: newText.trim() 
+      text: await sealText(newText.trim())
     });
   };
 
@@ -310,8 +470,11 @@ export default function Chat() {
       // Update the original message with the first part
       await updateMessageMutation.mutateAsync({
         id: messageId,
-        text: parts[0].trim()
+        text: await sealText(parts[0].trim())
       });
+      // The parts share the title (kept encrypted as it is) or keywords
+      const stored = storedMessages.find(m => m.id === messageId)!;
+      const labels = isEncrypted ? { title: stored.title } : { keywords: message.keywords };
 
       // Create new messages for the remaining parts with sequential timestamps
       for (let i = 1; i < parts.length; i++) {
@@ -323,11 +486,12 @@ export default function Chat() {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...unlockHeaders(),
           },
           body: JSON.stringify({
             conversationId: message.conversationId,
-            text: parts[i].trim(),
-            title: message.title || "",
+            text: await sealText(parts[i].trim()),
+            ...labels,
             createdAt: newTimestamp.toISOString()
           }),
         });
@@ -346,20 +510,23 @@ export default function Chat() {
     }
   };
 
-  // Translation service using Google Translate with enhanced parameters
-  const translateText = async (text: string, from: string, to: string): Promise<string> => {
-    try {
-      // Enhanced Google Translate with additional parameters for better context
-      const response = await fetch(`https://translate.googleapis.com/translate_a/single?client=gtx&sl=${from}&tl=${to}&dt=t&dt=bd&dt=ex&dt=ld&dt=md&dt=qca&dt=rw&dt=rm&dt=ss&q=${encodeURIComponent(text)}`);
-      const data = await response.json();
-      if (data[0]?.[0]?.[0]) {
-        return data[0][0][0];
-      }
-      throw new Error('Google Translate failed');
-    } catch (error) {
-      console.warn('Google Translate failed:', error);
-      return text; // Return original text if translation fails
+  // Translation runs on the server, which picks the provider and caches results
+  const translateText = async (text: string, from: string, to: string): Promise<TranslateResponse> => {
+    const response = await fetch('/api/translate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...unlockHeaders(),
+      },
+      body: JSON.stringify({ text, from, to, provider: translationProvider ?? undefined }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Translation failed (${response.status})`);
     }
+
+    return response.json();
   };
 
 
@@ -386,21 +553,27 @@ export default function Chat() {
     return 'en'; // Default to English
   };
 
-  const updateMessageTitle = async (messageId: number, title: string) => {
+  const updateMessageKeywords = async (messageId: number, keywords: string[]) => {
     try {
       // Mark as user action to prevent auto-scroll
       isUserAction.current = true;
 
-      await apiRequest("PATCH", `/api/messages/${messageId}`, { title });
-      // Refresh messages to show the updated title
+      if (isEncrypted) {
+        const title = keywords[0] ?? "";
+        await apiRequest("PATCH", `/api/messages/${messageId}`, { title: await sealText(title) });
+      } else {
+        await apiRequest("PUT", `/api/messages/${messageId}/keywords`, { keywords });
+      }
+      // Refresh messages to show the updated keywords
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/keywords"] });
 
       // Reset user action flag after short delay
       setTimeout(() => {
         isUserAction.current = false;
       }, 300);
     } catch (error) {
-      console.error("Error updating message title:", error);
+      console.error("Error updating message keywords:", error);
       isUserAction.current = false;
     }
   };
@@ -410,14 +583,10 @@ export default function Chat() {
       return;
     }
 
-    // Save current scroll position before translation
-    if (messagesContainerRef.current) {
-      const container = messagesContainerRef.current;
-      const savedPosition = container.scrollTop;
-      container.setAttribute('data-saved-scroll', savedPosition.toString());
-    }
-
     setIsTranslating(true);
+    setTranslationError(null);
+    const failures: { messageId: number; reason: string }[] = [];
+    const translations: TranslateResponse[] = [];
     
     try {
       // Get selected messages and sort by creation order
@@ -451,7 +620,7 @@ export default function Chat() {
         const message = selectedMessagesList[i];
         
         try {
-          const translatedText = await translateText(message.text, sourceLanguage, targetLanguage);
+          const translation = await translateText(message.text, sourceLanguage, targetLanguage);
           
           // Calculate precise timestamp positioning
           const translatedTimestamp = calculateTranslationTimestamp(message, messages);
@@ -461,10 +630,11 @@ export default function Chat() {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              ...unlockHeaders(),
             },
             body: JSON.stringify({
               conversationId: conversationId,
-              text: translatedText,
+              text: translation.translatedText,
               title: "",
               originalLanguage: targetLanguage,
               translatedFrom: message.id,
@@ -475,12 +645,18 @@ export default function Chat() {
           if (!response.ok) {
             throw new Error(`Failed to create translation for message ${message.id}`);
           }
+          translations.push(translation);
 
           // Wait for database to process the request completely
           await new Promise(resolve => setTimeout(resolve, 200));
 
         } catch (error) {
           console.error(`Failed to translate message ${message.id}:`, error);
+          const preview = message.text.length > 40 ? `${message.text.slice(0, 40)}…` : message.text;
+          failures.push({
+            messageId: message.id,
+            reason: `"${preview}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
         }
       }
 
@@ -489,12 +665,30 @@ export default function Chat() {
         queryKey: ["/api/conversations", conversationId, "messages"] 
       });
 
+      if (translations.length > 0) {
+        toast({
+          title: `Translated ${translations.length} message${translations.length !== 1 ? 's' : ''}`,
+          description: describeTranslations(translations),
+        });
+      }
+
+      if (failures.length > 0) {
+        // Keep the dialog open with only the failed messages selected so they can be retried
+        setTranslationError(
+          `${failures.length} of ${selectedMessagesList.length} message${selectedMessagesList.length !== 1 ? 's' : ''} could not be translated:\n` +
+          failures.map(f => f.reason).join('\n')
+        );
+        setSelectedMessages(new Set(failures.map(f => f.messageId)));
+        return;
+      }
+
       // Reset state
       setShowBilingualDialog(false);
       setSelectedMessages(new Set());
       setMessageKeywords(new Map());
     } catch (error) {
       console.error("Translation process failed:", error);
+      setTranslationError(error instanceof Error ? error.message : 'Translation failed');
     } finally {
       setIsTranslating(false);
     }
@@ -517,38 +711,25 @@ export default function Chat() {
     setMessageKeywords(new Map());
   };
 
+  // Bulk operations run server-side in a single transaction
+  const runBulkOperation = async (operation: BulkMessageOperation): Promise<BulkMessageResult> => {
+    const response = await apiRequest("POST", "/api/messages/bulk", operation);
+    return response.json();
+  };
+
   // Move/Copy handlers
   const handleMoveToNewConversation = async () => {
     if (selectedMessages.size === 0 || !newConversationTitle.trim()) return;
 
     try {
-      // Create new conversation
-      const createResponse = await apiRequest("POST", "/api/conversations", { 
-        name: newConversationTitle.trim() 
+      const result = await runBulkOperation({
+        action: removeFromOriginal ? "move" : "copy",
+        messageIds: Array.from(selectedMessages),
+        newConversationName: newConversationTitle.trim(),
       });
-      const newConversation = await createResponse.json();
-
-      // Get selected message details
-      const selectedMessagesList = messages.filter(m => selectedMessages.has(m.id));
-
-      // Copy messages to new conversation
-      for (const msg of selectedMessagesList) {
-        const keyword = messageKeywords.get(msg.id) || "";
-        await apiRequest("POST", "/api/messages", {
-          conversationId: newConversation.id,
-          text: msg.text,
-          title: keyword
-        });
-
-        // Remove from original if requested
-        if (removeFromOriginal) {
-          await apiRequest("DELETE", `/api/messages/${msg.id}`);
-        }
-      }
 
-      // Refresh data
+      // Refresh data (bubbles and connections move with their messages)
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
 
       // Clear selection and close dialog
       clearSelection();
@@ -557,10 +738,11 @@ export default function Chat() {
       setRemoveFromOriginal(false);
 
       // Navigate to new conversation
-      setLocation(`/chat/${newConversation.id}`);
+      setLocation(`/chat/${result.conversationId}`);
 
     } catch (error) {
       console.error("Error moving messages:", error);
+      alert('Failed to move messages. Nothing was changed.');
     }
   };
 
@@ -568,27 +750,14 @@ export default function Chat() {
     if (selectedMessages.size === 0 || !targetConversationId) return;
 
     try {
-      // Get selected message details
-      const selectedMessagesList = messages.filter(m => selectedMessages.has(m.id));
-
-      // Copy messages to target conversation
-      for (const msg of selectedMessagesList) {
-        const keyword = messageKeywords.get(msg.id) || "";
-        await apiRequest("POST", "/api/messages", {
-          conversationId: parseInt(targetConversationId),
-          text: msg.text,
-          title: keyword
-        });
-
-        // Remove from original if requested
-        if (removeFromOriginal) {
-          await apiRequest("DELETE", `/api/messages/${msg.id}`);
-        }
-      }
+      await runBulkOperation({
+        action: removeFromOriginal ? "move" : "copy",
+        messageIds: Array.from(selectedMessages),
+        targetConversationId: parseInt(targetConversationId),
+      });
 
-      // Refresh data
+      // Refresh data (bubbles and connections move with their messages)
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
 
       // Clear selection and close dialog
       clearSelection();
@@ -598,6 +767,23 @@ export default function Chat() {
 
     } catch (error) {
       console.error("Error moving messages:", error);
+      alert('Failed to move messages. Nothing was changed.');
+    }
+  };
+
+  const handleDeleteSelected = async () => {
+    if (selectedMessages.size === 0) return;
+    if (!confirm(`Delete ${selectedMessages.size} selected message${selectedMessages.size !== 1 ? 's' : ''}? Their translations and bubbles are deleted too.`)) {
+      return;
+    }
+
+    try {
+      await runBulkOperation({ action: "delete", messageIds: Array.from(selectedMessages) });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      clearSelection();
+    } catch (error) {
+      console.error("Error deleting messages:", error);
+      alert('Failed to delete messages. Nothing was changed.');
     }
   };
 
@@ -623,7 +809,7 @@ export default function Chat() {
     return null;
   };
 
-  const handleSendMessage = () => {
+  const handleSendMessage = async () => {
     if (!message.trim()) return;
 
     if (!conversationId) {
@@ -638,7 +824,7 @@ export default function Chat() {
 
     sendMessageMutation.mutate({
       conversationId,
-      text: message.trim(),
+      text: await sealText(message.trim()),
       originalLanguage: detectedLanguage, // Set the original language for new user messages
     });
   };
@@ -661,7 +847,13 @@ export default function Chat() {
     }
   };
 
-  const wordCount = messages.reduce((total, msg) => total + msg.text.split(' ').length, 0);
+  // Counted over the whole conversation, not just the loaded messages
+  const stats = allConversations.find(c => c.id === conversationId);
+  const messageCount = stats?.messageCount ?? messages.length;
+  const wordCount = stats?.wordCount ?? messages.reduce((total, msg) => total + msg.text.split(' ').length, 0);
+
+  // Until the passphrase is entered there is nothing to show or write
+  const isLockedConversation = isEncrypted && !encryptionKey;
 
   return (
     <div className="h-screen flex flex-col bg-gray-50">
@@ -700,17 +892,41 @@ export default function Chat() {
                 </h2>
               )}
               <p className="text-sm text-purple-200">
-                {messages.length} message{messages.length !== 1 ? "s" : ""}
+                {messageCount} message{messageCount !== 1 ? "s" : ""}
               </p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
-            <span className="text-sm text-purple-200">{wordCount} words</span>
+            {isEncrypted ? (
+              <span className="text-sm text-purple-200 flex items-center"><Lock className="h-3 w-3 mr-1" />Encrypted</span>
+            ) : (
+              <span className="text-sm text-purple-200">{wordCount} words</span>
+            )}
+            {conversationId && (
+              <input
+                type="date"
+                onChange={(e) => handleJumpToDate(e.target.value)}
+                className="bg-white/20 text-white text-sm rounded-md px-2 py-1 focus:outline-none [color-scheme:dark]"
+                title="Jump to date"
+              />
+            )}
+            {conversationId && !isLockedConversation && (
+              <Button
+                onClick={() => setShowEncryptionDialog(true)}
+                variant="ghost"
+                size="sm"
+                className="hover:bg-white/20 text-white"
+                title={isEncrypted ? "Encryption" : "Encrypt conversation"}
+              >
+                {isEncrypted ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+              </Button>
+            )}
             <Button
               onClick={toggleSelectionMode}
               variant="ghost"
               size="sm"
               className="hover:bg-white/20 text-white"
+              disabled={isLockedConversation}
             >
               <Lightbulb 
                 className={`h-4 w-4 transition-all ${
@@ -768,7 +984,8 @@ export default function Chat() {
                 variant="outline"
                 size="sm"
                 onClick={() => setShowMoveDialog(true)}
-                disabled={selectedMessages.size === 0}
+                disabled={selectedMessages.size === 0 || isEncrypted}
+                title={isEncrypted ? "Encrypted messages can't be moved or copied" : undefined}
               >
                 <Move className="h-4 w-4 mr-1" />
                 Move
@@ -776,50 +993,111 @@ export default function Chat() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setShowBilingualDialog(true)}
-                disabled={selectedMessages.size === 0}
+                onClick={() => {
+                  setTranslationError(null);
+                  setShowBilingualDialog(true);
+                }}
+                disabled={selectedMessages.size === 0 || isEncrypted}
+                title={isEncrypted ? "Translation isn't available for encrypted conversations" : undefined}
               >
                 <Languages className="h-4 w-4 mr-1" />
                 Translate
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDeleteSelected}
+                disabled={selectedMessages.size === 0}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
             </div>
           </div>
+          {isEncrypted && (
+            <p className="max-w-4xl mx-auto mt-2 text-xs text-blue-700">
+              Encrypted conversation: translation and moving messages aren't available - the server can't read the
+              text. Each message keeps one keyword, stored encrypted as its title.
+            </p>
+          )}
         </div>
       )}
 
 
 
-      {/* Messages Area */}
-      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto">
-        <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
-          {isLoading ? (
-            <div className="text-center py-8">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto mb-4"></div>
-              <p className="text-gray-500">Loading messages...</p>
-            </div>
-          ) : messages.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-gray-500 mb-4">Start your conversation by typing a message below.</p>
-            </div>
-          ) : (
-            messages.map((message, index) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isUser={index % 2 === 0} // Alternate between user and self
-                isSelectable={isSelectionMode}
-                isSelected={selectedMessages.has(message.id)}
-                keyword={messageKeywords.get(message.id) || message.title || ""}
-                onSelectionChange={handleSelectionChange}
-                onKeywordChange={handleKeywordChange}
-                onMessageEdit={handleMessageEdit}
-                onMessageDelete={handleMessageDelete}
-                onMessageSplit={handleMessageSplit}
-              />
-            ))
-          )}
-          <div ref={messagesEndRef} />
+      {/* Messages Area: only the messages near the visible part are drawn */}
+      <div className="relative flex-1 flex flex-col min-h-0">
+        <div ref={messagesContainerRef} className="flex-1 overflow-y-auto" onScroll={loadMoreMessages}>
+          <div className="max-w-4xl mx-auto px-4">
+            {isLockedConversation ? (
+              <ConversationUnlock conversationId={conversationId!} encryption={encryption!} />
+            ) : isLoading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-gray-500">Loading messages...</p>
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500 mb-4">Start your conversation by typing a message below.</p>
+              </div>
+            ) : (
+              <div className="relative" style={{ height: totalSize }}>
+                {visibleMessages.map(({ key, index, start }) => {
+                  const message = messages[index];
+                  return (
+                    <div
+                      key={key}
+                      ref={measureElement}
+                      data-virtual-key={key}
+                      className="absolute inset-x-0 top-0 pt-4"
+                      style={{ transform: `translateY(${start}px)` }}
+                    >
+                      <div
+                        id={`message-${message.id}`}
+                        className={`rounded-2xl transition-colors duration-700 ${
+                          highlightedMessageId === message.id ? 'bg-yellow-100' : ''
+                        }`}
+                      >
+                        <MessageBubble
+                          message={message}
+                          isUser={isUserSide(index)} // Alternate between user and self
+                          isSelectable={isSelectionMode}
+                          isSelected={selectedMessages.has(message.id)}
+                          keywords={messageKeywords.get(message.id) || message.keywords}
+                          keywordSuggestions={allKeywords.map(k => k.name)}
+                          onSelectionChange={handleSelectionChange}
+                          onKeywordsChange={handleKeywordsChange}
+                          onMessageEdit={handleMessageEdit}
+                          onMessageDelete={handleMessageDelete}
+                          onMessageSplit={handleMessageSplit}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <div ref={messagesEndRef} className="h-6" />
+          </div>
         </div>
+
+        {(isFetchingPreviousPage || isFetchingNextPage) && (
+          <div className={`absolute left-1/2 -translate-x-1/2 ${isFetchingPreviousPage ? 'top-2' : 'bottom-2'} rounded-full bg-white shadow px-3 py-1 text-xs text-gray-500`}>
+            {isFetchingPreviousPage ? 'Loading earlier messages...' : 'Loading later messages...'}
+          </div>
+        )}
+        {hasNextPage && !isFetchingNextPage && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleJumpToLatest}
+            className="absolute right-4 bottom-4 rounded-full shadow"
+          >
+            <ArrowDown className="h-4 w-4 mr-1" />
+            Latest
+          </Button>
+        )}
       </div>
 
       {/* Message Input */}
@@ -850,7 +1128,7 @@ export default function Chat() {
             </div>
             <Button
               onClick={handleSendMessage}
-              disabled={!message.trim() || sendMessageMutation.isPending || createConversationMutation.isPending}
+              disabled={!message.trim() || sendMessageMutation.isPending || createConversationMutation.isPending || isLockedConversation}
               className="bg-primary hover:bg-primary/90 p-3 rounded-2xl"
             >
               <Send className="h-4 w-4" />
@@ -903,7 +1181,7 @@ export default function Chat() {
                     </SelectTrigger>
                     <SelectContent>
                       {allConversations
-                        .filter(conv => conv.id !== conversationId)
+                        .filter(conv => conv.id !== conversationId && !conv.encryption)
                         .map(conv => (
                           <SelectItem key={conv.id} value={conv.id.toString()}>
                             {conv.name}
@@ -941,6 +1219,15 @@ export default function Chat() {
         </DialogContent>
       </Dialog>
 
+      {conversationId && (
+        <ConversationEncryptionDialog
+          conversationId={conversationId}
+          encrypted={isEncrypted}
+          open={showEncryptionDialog}
+          onOpenChange={setShowEncryptionDialog}
+        />
+      )}
+
       {/* Translate Selected Messages Dialog */}
       <Dialog open={showBilingualDialog} onOpenChange={setShowBilingualDialog}>
         <DialogContent className="max-w-md">
@@ -994,6 +1281,31 @@ export default function Chat() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Translation Service</label>
+              <Select
+                value={translationProvider ?? SERVER_DEFAULT_PROVIDER}
+                onValueChange={(value) => setTranslationProvider(value === SERVER_DEFAULT_PROVIDER ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SERVER_DEFAULT_PROVIDER}>Server default</SelectItem>
+                  {Object.entries(TRANSLATION_PROVIDER_LABELS).map(([provider, label]) => (
+                    <SelectItem key={provider} value={provider}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-2 text-xs text-gray-500">
+                Text translated before between the same languages is reused, whichever service translated it.
+              </p>
+            </div>
+            {translationError && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 whitespace-pre-line max-h-40 overflow-y-auto">
+                {translationError}
+              </div>
+            )}
             <div className="flex gap-3 pt-4">
               <Button 
                 onClick={() => setShowBilingualDialog(false)} 
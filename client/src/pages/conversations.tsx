@@ -1,4 +1,4 @@
-import { useState, useRef, useMemo } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -8,20 +8,23 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Home, Plus, Search, Upload, FileText } from "lucide-react";
+import { Home, Plus, Search, Upload, FileText, MessageSquare, Lock } from "lucide-react";
 import ConversationCard from "@/components/conversation-card";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ConversationWithStats, InsertConversation } from "@shared/schema";
+import { useSettings } from "@/hooks/use-settings";
+import type { ConversationWithStats, InsertConversation, SearchResult } from "@shared/schema";
 
 export default function Conversations() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState("recent");
   const [editingConversation, setEditingConversation] = useState<{ id: number; name: string } | null>(null);
   const [newName, setNewName] = useState("");
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { settings } = useSettings();
   
   // Import states
   const [showImportDialog, setShowImportDialog] = useState(false);
@@ -41,6 +44,19 @@ export default function Conversations() {
     queryKey: ["/api/conversations"],
   });
 
+  // Debounce full-text search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Full-text search across message text, keywords and articles
+  const { data: searchResults = [], isFetching: isSearching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedSearchQuery)}`],
+    enabled: debouncedSearchQuery.length > 0,
+    staleTime: 0,
+  });
+
   const createConversationMutation = useMutation({
     mutationFn: async (data: InsertConversation) => {
       const response = await apiRequest("POST", "/api/conversations", data);
@@ -74,6 +90,20 @@ export default function Conversations() {
     },
   });
 
+  const duplicateConversationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/conversations/${id}/duplicate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({ title: "Conversation duplicated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to duplicate conversation", variant: "destructive" });
+    },
+  });
+
   const handleNewConversation = () => {
     const conversationName = prompt("Enter conversation name:");
     if (conversationName?.trim()) {
@@ -86,7 +116,7 @@ export default function Conversations() {
     const day = today.getDate();
     const month = today.toLocaleString('en-US', { month: 'long' });
     const year = today.getFullYear();
-    const defaultName = `${day} ${month} ${year} Brain talk`;
+    const defaultName = `${day} ${month} ${year} ${settings.todayTalkName}`;
     
     const conversationName = prompt("Enter conversation name:", defaultName);
     if (conversationName?.trim()) {
@@ -111,12 +141,8 @@ export default function Conversations() {
     }
   };
 
-  const handleDuplicateConversation = async (id: number) => {
-    const originalConversation = conversations.find(c => c.id === id);
-    if (originalConversation) {
-      const newName = `${originalConversation.name} (Copy)`;
-      createConversationMutation.mutate({ name: newName });
-    }
+  const handleDuplicateConversation = (id: number) => {
+    duplicateConversationMutation.mutate(id);
   };
 
   // Import functionality
@@ -266,7 +292,7 @@ export default function Conversations() {
       
       return {
         date,
-        name: `${day} ${month} ${year} Brain Talk`,
+        name: `${day} ${month} ${year} ${settings.todayTalkName}`,
         messages: messages.filter(msg => msg.text.length > 0) // Remove empty messages
       };
     });
@@ -376,8 +402,9 @@ export default function Conversations() {
       .filter(conv => {
         if (!searchQuery) return true;
         const query = searchQuery.toLowerCase();
+        // The last message of an encrypted conversation is ciphertext
         return conv.name.toLowerCase().includes(query) ||
-               conv.lastMessage?.toLowerCase().includes(query);
+               (!conv.encryption && conv.lastMessage?.toLowerCase().includes(query));
       })
       .sort((a, b) => {
         switch (sortBy) {
@@ -638,26 +665,84 @@ export default function Conversations() {
           </CardContent>
         </Card>
 
+        {/* Full-text Search Results */}
+        {searchQuery && (isSearching || searchResults.length > 0) && (
+          <div className="mb-6">
+            <h2 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
+              <Search className="h-4 w-4 mr-1" />
+              {isSearching
+                ? "Searching messages and articles..."
+                : `${searchResults.length} match${searchResults.length !== 1 ? 'es' : ''} in messages and articles`}
+            </h2>
+            <div className="space-y-2">
+              {searchResults.map((result) => (
+                <Card
+                  key={`${result.kind}-${result.id}`}
+                  className="cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => setLocation(result.link)}
+                >
+                  <CardContent className="p-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center space-x-2 text-xs text-gray-500">
+                        {result.kind === "message" ? (
+                          <MessageSquare className="h-3 w-3" />
+                        ) : (
+                          <FileText className="h-3 w-3" />
+                        )}
+                        <span>{result.conversationName || "Article"}</span>
+                        {result.title && (
+                          <Badge
+                            variant="secondary"
+                            className="bg-purple-100 text-purple-700 [&_mark]:bg-yellow-200"
+                            dangerouslySetInnerHTML={{ __html: result.title }}
+                          />
+                        )}
+                        {result.hasBubble && <Badge variant="outline">Bubble</Badge>}
+                      </div>
+                      <span className="text-xs text-gray-400">
+                        {new Date(result.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p
+                      className="text-sm text-gray-800 [&_mark]:bg-yellow-200 [&_mark]:rounded-sm"
+                      dangerouslySetInnerHTML={{ __html: result.snippet }}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {searchQuery && conversations.some(conv => conv.encryption) && (
+          <p className="mb-6 text-xs text-gray-500 flex items-center">
+            <Lock className="h-3 w-3 mr-1" />
+            Messages in encrypted conversations aren't searched - only their names are.
+          </p>
+        )}
+
         {/* Conversations Grid */}
         {filteredConversations.length === 0 ? (
-          <div className="text-center py-12">
-            {searchQuery ? (
-              <div>
-                <p className="text-gray-500 mb-4">No conversations match your search.</p>
-                <Button variant="outline" onClick={() => setSearchQuery("")}>
-                  Clear search
-                </Button>
-              </div>
-            ) : (
-              <div>
-                <p className="text-gray-500 mb-4">No conversations yet.</p>
-                <Button onClick={handleNewConversation}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Start your first conversation
-                </Button>
-              </div>
-            )}
-          </div>
+          searchQuery && searchResults.length > 0 ? null : (
+            <div className="text-center py-12">
+              {searchQuery ? (
+                <div>
+                  <p className="text-gray-500 mb-4">No conversations match your search.</p>
+                  <Button variant="outline" onClick={() => setSearchQuery("")}>
+                    Clear search
+                  </Button>
+                </div>
+              ) : (
+                <div>
+                  <p className="text-gray-500 mb-4">No conversations yet.</p>
+                  <Button onClick={handleNewConversation}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Start your first conversation
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
         ) : (
           <div className="grid gap-6">
             {filteredConversations.map((conversation) => (
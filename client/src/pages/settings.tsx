@@ -0,0 +1,243 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Home, Languages, Palette, Volume2, CalendarDays, Check } from "lucide-react";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { BUBBLE_COLORS, LANGUAGE_NAMES, type BubbleColor, type LanguageCode, type Settings as SettingsValues } from "@shared/schema";
+
+// Written out so Tailwind keeps the classes
+const COLOR_SWATCHES: Record<BubbleColor, string> = {
+  blue: "bg-blue-100 text-blue-700 border-blue-300",
+  green: "bg-green-100 text-green-700 border-green-300",
+  purple: "bg-purple-100 text-purple-700 border-purple-300",
+  orange: "bg-orange-100 text-orange-700 border-orange-300",
+  red: "bg-red-100 text-red-700 border-red-300",
+};
+
+// Radix selects can't have an empty value
+const AUTOMATIC_VOICE = "automatic";
+
+// The browser's speech voices, which some browsers only list after a while
+function useSpeechVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const update = () => setVoices(speechSynthesis.getVoices());
+    update();
+    speechSynthesis.addEventListener("voiceschanged", update);
+    return () => speechSynthesis.removeEventListener("voiceschanged", update);
+  }, []);
+
+  return voices;
+}
+
+export default function Settings() {
+  const { settings, isLoading, updateMutation } = useSettings();
+  const { toast } = useToast();
+  const voices = useSpeechVoices();
+  const [form, setForm] = useState<SettingsValues | null>(null);
+
+  // Edited from what is saved, again after every save
+  useEffect(() => {
+    if (!isLoading) setForm(settings);
+  }, [settings, isLoading]);
+
+  if (!form) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<SettingsValues>) => setForm({ ...form, ...changes });
+
+  // A color is taken out, or added at the end of the turn
+  const toggleColor = (color: BubbleColor) => {
+    update({
+      bubbleColors: form.bubbleColors.includes(color)
+        ? form.bubbleColors.filter(c => c !== color)
+        : [...form.bubbleColors, color],
+    });
+  };
+
+  const sameLanguages = form.sourceLanguage === form.targetLanguage;
+  const isValid = !sameLanguages && form.bubbleColors.length > 0 && form.todayTalkName.trim().length > 0;
+  const isChanged = JSON.stringify(form) !== JSON.stringify(settings);
+  const voiceMissing = form.ttsVoice !== null && !voices.some(voice => voice.voiceURI === form.ttsVoice);
+
+  const today = new Date();
+  const todayTalkPreview = `${today.getDate()} ${today.toLocaleString('en-US', { month: 'long' })} ${today.getFullYear()} ${form.todayTalkName.trim()}`;
+
+  const handleSave = () => {
+    updateMutation.mutate(
+      { ...form, todayTalkName: form.todayTalkName.trim() },
+      { onSuccess: () => toast({ title: "Settings saved" }) },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="gradient-primary-to-secondary text-white">
+        <div className="max-w-3xl mx-auto px-4 py-6">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="hover:bg-white/20 text-white">
+                <Home className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold">Settings</h1>
+              <p className="text-purple-200">Your preferences, on every device you sign in from</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {/* Translation */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold flex items-center"><Languages className="mr-2 h-5 w-5" />Translation</h2>
+              <p className="text-sm text-gray-500">The languages translations start with; each one can still be changed.</p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select value={form.sourceLanguage} onValueChange={(value) => update({ sourceLanguage: value as LanguageCode })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={form.targetLanguage} onValueChange={(value) => update({ targetLanguage: value as LanguageCode })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {sameLanguages && <p className="text-sm text-red-600">Source and target language must differ</p>}
+          </CardContent>
+        </Card>
+
+        {/* Bubble colors */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold flex items-center"><Palette className="mr-2 h-5 w-5" />Bubble colors</h2>
+              <p className="text-sm text-gray-500">New bubbles and connection groups take these colors in turn, in the order they were picked.</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {BUBBLE_COLORS.map(color => {
+                const position = form.bubbleColors.indexOf(color);
+                return (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => toggleColor(color)}
+                    className={`flex items-center px-3 py-1.5 rounded-full border-2 text-sm font-medium capitalize transition-opacity ${COLOR_SWATCHES[color]} ${position === -1 ? 'opacity-40 border-transparent' : ''}`}
+                  >
+                    {position !== -1 && <span className="mr-1.5 text-xs">{position + 1}.</span>}
+                    {color}
+                    {position !== -1 && <Check className="ml-1.5 h-3 w-3" />}
+                  </button>
+                );
+              })}
+            </div>
+            {form.bubbleColors.length === 0 && <p className="text-sm text-red-600">Pick at least one color</p>}
+          </CardContent>
+        </Card>
+
+        {/* Read aloud */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold flex items-center"><Volume2 className="mr-2 h-5 w-5" />Read aloud</h2>
+              <p className="text-sm text-gray-500">
+                The voice messages and bubbles are read with. It is used for text in its own language; other text
+                gets a voice for that language.
+              </p>
+            </div>
+            <Select
+              value={form.ttsVoice ?? AUTOMATIC_VOICE}
+              onValueChange={(value) => update({ ttsVoice: value === AUTOMATIC_VOICE ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTOMATIC_VOICE}>Automatic, by language</SelectItem>
+                {voiceMissing && (
+                  <SelectItem value={form.ttsVoice!}>{form.ttsVoice} (not on this device)</SelectItem>
+                )}
+                {voices.map(voice => (
+                  <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                    {voice.name} ({voice.lang})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {voices.length === 0 && (
+              <p className="text-sm text-gray-500">This browser doesn't offer any voices to choose from.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Today Talk */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold flex items-center"><CalendarDays className="mr-2 h-5 w-5" />Today Talk</h2>
+              <p className="text-sm text-gray-500">The name that follows the date, for Today Talk and imported days.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="today-talk-name">Name</Label>
+              <Input
+                id="today-talk-name"
+                value={form.todayTalkName}
+                maxLength={100}
+                onChange={(e) => update({ todayTalkName: e.target.value })}
+              />
+              <p className="text-sm text-gray-500">
+                {form.todayTalkName.trim() ? `For example "${todayTalkPreview}"` : <span className="text-red-600">Enter a name</span>}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {updateMutation.error && <p className="text-sm text-red-600">{apiErrorMessage(updateMutation.error)}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setForm(settings)} disabled={!isChanged || updateMutation.isPending}>
+            Discard changes
+          </Button>
+          <Button onClick={handleSave} disabled={!isChanged || !isValid || updateMutation.isPending}>
+            {updateMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
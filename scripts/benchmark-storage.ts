@@ -0,0 +1,115 @@
+// Seeds a throwaway database with many messages and times the storage calls
+// behind the conversation list, the chat and the bubble canvas as it grows.
+// Chat and canvas read one conversation of fixed size, so their times should
+// stay flat however many messages the rest of the database holds.
+//
+//   npm run bench:storage [-- <total messages, default 100000>]
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const TOTAL_MESSAGES = parseInt(process.argv[2] || "") || 100_000;
+const MESSAGES_PER_CONVERSATION = 500;
+const CHECKPOINTS = [0.1, 0.5, 1].map(share => Math.round(TOTAL_MESSAGES * share));
+const RUNS = 5;
+
+const dbPath = path.join(os.tmpdir(), `benchmark-${process.pid}.sqlite`);
+process.env.DATABASE_PATH = dbPath;
+
+(async () => {
+  // Imported after DATABASE_PATH is set, as opening the database is a side effect
+  const { db } = await import("../server/db");
+  const { storage } = await import("../server/storage");
+  const { conversations, messages, bubbles, connections } = await import("@shared/schema");
+
+  const words = "the quick brown fox jumps over a lazy dog while thinking about notes".split(" ");
+  const sentence = (seed: number) =>
+    Array.from({ length: 8 + (seed % 20) }, (_, i) => words[(seed + i * 7) % words.length]).join(" ");
+
+  let seeded = 0;
+  let clock = Date.UTC(2020, 0, 1);
+  const { id: userId } = await storage.createUser({ username: "benchmark", passwordHash: "" });
+
+  // One conversation of MESSAGES_PER_CONVERSATION messages, every other one
+  // with a bubble, and the bubbles connected in a chain
+  function seedConversation() {
+    db.transaction((tx) => {
+      const now = new Date(clock).toISOString();
+      const conversation = tx
+        .insert(conversations)
+        .values({ userId, name: `Conversation ${seeded / MESSAGES_PER_CONVERSATION + 1}`, createdAt: now, updatedAt: now })
+        .returning()
+        .get();
+
+      const rows = Array.from({ length: MESSAGES_PER_CONVERSATION }, (_, i) => ({
+        conversationId: conversation.id,
+        text: sentence(seeded + i),
+        createdAt: new Date((clock += 60_000)).toISOString(),
+      }));
+      const inserted: { id: number }[] = [];
+      // Stays under SQLite's limit on bound parameters
+      for (let i = 0; i < rows.length; i += 200) {
+        inserted.push(...tx.insert(messages).values(rows.slice(i, i + 200)).returning({ id: messages.id }).all());
+      }
+
+      const bubbleRows = inserted
+        .filter((_, i) => i % 2 === 0)
+        .map((message, i) => ({ messageId: message.id, x: (i % 10) * 300, y: Math.floor(i / 10) * 150 }));
+      const made: { id: number }[] = [];
+      for (let i = 0; i < bubbleRows.length; i += 200) {
+        made.push(...tx.insert(bubbles).values(bubbleRows.slice(i, i + 200)).returning({ id: bubbles.id }).all());
+      }
+
+      const links = made.slice(1).map((bubble, i) => ({
+        conversationId: conversation.id,
+        fromBubbleId: made[i].id,
+        toBubbleId: bubble.id,
+      }));
+      for (let i = 0; i < links.length; i += 200) {
+        tx.insert(connections).values(links.slice(i, i + 200)).run();
+      }
+    });
+    seeded += MESSAGES_PER_CONVERSATION;
+  }
+
+  // Median of a few runs, in milliseconds
+  async function time(run: () => Promise<unknown>): Promise<number> {
+    const durations: number[] = [];
+    for (let i = 0; i < RUNS; i++) {
+      const start = performance.now();
+      await run();
+      durations.push(performance.now() - start);
+    }
+    durations.sort((a, b) => a - b);
+    return durations[Math.floor(RUNS / 2)];
+  }
+
+  try {
+    // The conversation the chat and canvas timings read
+    seedConversation();
+    const [{ id: conversationId }] = await storage.getConversations(userId);
+
+    const results: Record<string, string>[] = [];
+    for (const checkpoint of CHECKPOINTS) {
+      while (seeded < checkpoint) seedConversation();
+
+      results.push({
+        messages: seeded.toLocaleString(),
+        "conversation list": `${(await time(() => storage.getConversations(userId))).toFixed(1)} ms`,
+        "chat (newest page)": `${(await time(() => storage.getMessagePage(conversationId, { limit: 50 }))).toFixed(1)} ms`,
+        "canvas (bubbles + connections)": `${(await time(() => Promise.all([
+          storage.getBubblesByConversation(conversationId),
+          storage.getConnectionsByConversation(conversationId),
+        ]))).toFixed(1)} ms`,
+      });
+      console.log(`Seeded ${seeded.toLocaleString()} messages`);
+    }
+
+    console.table(results);
+  } finally {
+    for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+})();
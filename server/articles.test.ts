@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { documentToPlainText, type ArticleDocument } from "@shared/article-document";
+import { storage } from "./storage";
+import { createTestApp, createUser, signUp } from "./test-utils";
+
+const doc = (text: string): ArticleDocument => ({
+  type: "doc",
+  content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+});
+
+const texts = (revisions: { content: ArticleDocument }[]) =>
+  revisions.map(revision => documentToPlainText(revision.content));
+
+describe("article revisions", () => {
+  it("starts the history with the new article and adds every save, newest first", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "Draft", content: doc("one") });
+    await storage.updateArticle(article.id, { content: doc("two") });
+    await storage.updateArticle(article.id, { content: doc("three") });
+
+    expect(texts(await storage.getArticleRevisions(article.id))).toEqual(["three", "two", "one"]);
+  });
+
+  it("doesn't record a save that changed nothing", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "Draft", content: doc("one") });
+    await storage.updateArticle(article.id, { title: "Draft", content: doc("one") });
+
+    expect(await storage.getArticleRevisions(article.id)).toHaveLength(1);
+  });
+
+  it("restores a revision as the newest one, keeping what it replaced", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "Draft", content: doc("one") });
+    await storage.updateArticle(article.id, { title: "Final", content: doc("two") });
+    const [, first] = await storage.getArticleRevisions(article.id);
+
+    const restored = await storage.restoreArticleRevision(article.id, first.id);
+    expect(restored).toMatchObject({ title: "Draft", content: doc("one") });
+    expect(texts(await storage.getArticleRevisions(article.id))).toEqual(["one", "two", "one"]);
+  });
+
+  it("won't restore a revision of another article", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "A", content: doc("a") });
+    const other = await storage.createArticle(user.id, { title: "B", content: doc("b") });
+    const [revision] = await storage.getArticleRevisions(other.id);
+
+    await expect(storage.restoreArticleRevision(article.id, revision.id)).rejects.toThrow("Revision not found");
+  });
+
+  it("go with the article when it is deleted", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "Draft", content: doc("one") });
+    await storage.deleteArticle(article.id);
+
+    await expect(storage.getArticleRevisions(article.id)).rejects.toThrow("Article not found");
+  });
+});
+
+describe("article revision routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("list and restore the owner's revisions", async () => {
+    const agent = await signUp(app);
+    const { body: article } = await agent.post("/api/articles").send({ title: "Draft", content: doc("one") }).expect(201);
+    await agent.patch(`/api/articles/${article.id}`).send({ content: doc("two") }).expect(200);
+
+    const { body: revisions } = await agent.get(`/api/articles/${article.id}/revisions`).expect(200);
+    expect(texts(revisions)).toEqual(["two", "one"]);
+    const { body: restored } = await agent.post(`/api/articles/${article.id}/revisions/${revisions[1].id}/restore`).expect(200);
+    expect(restored.content).toEqual(doc("one"));
+    await agent.post(`/api/articles/${article.id}/revisions/999999/restore`).expect(404);
+  });
+
+  it("are kept from other users", async () => {
+    const agent = await signUp(app);
+    const stranger = await signUp(app);
+    const { body: article } = await agent.post("/api/articles").send({ title: "Draft", content: doc("one") }).expect(201);
+    const { body: [revision] } = await agent.get(`/api/articles/${article.id}/revisions`).expect(200);
+
+    await stranger.get(`/api/articles/${article.id}/revisions`).expect(404);
+    await stranger.post(`/api/articles/${article.id}/revisions/${revision.id}/restore`).expect(404);
+  });
+});
+
+describe("article autosave", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("counts every save in the version, and keeps autosaves out of the history", async () => {
+    const agent = await signUp(app);
+    const { body: article } = await agent.post("/api/articles").send({ title: "Draft", content: doc("one") }).expect(201);
+
+    const { body: saved } = await agent.patch(`/api/articles/${article.id}`)
+      .send({ content: doc("two"), version: article.version, revision: false })
+      .expect(200);
+    expect(saved.version).toBe(article.version + 1);
+    const { body: revisions } = await agent.get(`/api/articles/${article.id}/revisions`).expect(200);
+    expect(texts(revisions)).toEqual(["one"]);
+  });
+
+  it("refuses a save made from a stale version, sending the newer article", async () => {
+    const agent = await signUp(app);
+    const { body: article } = await agent.post("/api/articles").send({ title: "Draft", content: doc("one") }).expect(201);
+    await agent.patch(`/api/articles/${article.id}`).send({ content: doc("elsewhere"), version: article.version }).expect(200);
+
+    const { body } = await agent.patch(`/api/articles/${article.id}`)
+      .send({ content: doc("here"), version: article.version, revision: false })
+      .expect(409);
+    expect(body.message).toBe("Article was changed elsewhere");
+    expect(body.article).toMatchObject({ version: article.version + 1, content: doc("elsewhere") });
+  });
+
+  it("records autosaved text in the history before restoring over it", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, { title: "Draft", content: doc("one") });
+    await storage.updateArticle(article.id, { content: doc("autosaved") }, { revision: false });
+    const [first] = await storage.getArticleRevisions(article.id);
+
+    await storage.restoreArticleRevision(article.id, first.id);
+    expect(texts(await storage.getArticleRevisions(article.id))).toEqual(["one", "autosaved", "one"]);
+  });
+});
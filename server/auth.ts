@@ -0,0 +1,112 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./passwords";
+import { credentialsSchema, type User as UserRecord, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends UserRecord {}
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+const toPublicUser = ({ passwordHash, pinHash, pinAttempts, pinLockedUntil, ...user }: UserRecord): PublicUser => user;
+
+// Sessions live in memory, so everyone signs in again after a restart.
+// Without SESSION_SECRET each start picks a new secret, with the same effect.
+export function setupAuth(app: Express) {
+  app.use(session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: { httpOnly: true, sameSite: "lax", maxAge: SESSION_MAX_AGE },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !verifyPassword(password, user.passwordHash)) return done(null, false);
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account ends its sessions
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = credentialsSchema.parse(req.body);
+      const user = await storage.createUser({ username, passwordHash: hashPassword(password) });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid account details", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Username already taken") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: UserRecord | false) => {
+      if (error) return next(error);
+      if (!user) return res.status(401).json({ message: "Invalid username or password" });
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.status(204).send());
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) return res.status(401).json({ message: "Not signed in" });
+    res.json(toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a signed-in user
+  app.use("/api", requireAuth);
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return res.status(401).json({ message: "Not signed in" });
+  next();
+};
+
+// For maintenance routes that reach past any one user's data
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.user?.isAdmin) return res.status(403).json({ message: "Only admins can do this" });
+  next();
+};
@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+describe("updateBubbleLayout", () => {
+  it("moves the conversation's bubbles together", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+
+    const updated = await storage.updateBubbleLayout(conversation.id, [
+      { id: bubbles[0].id, x: 10, y: 20 },
+      { id: bubbles[1].id, x: 30, y: 40, width: 200 },
+    ]);
+    expect(updated.map(bubble => [bubble.x, bubble.y])).toEqual([[10, 20], [30, 40]]);
+    expect(updated[1].width).toBe(200);
+  });
+
+  it("moves none when one bubble is from another conversation", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    const elsewhere = await seedConversation(user.id);
+
+    await expect(storage.updateBubbleLayout(conversation.id, [
+      { id: bubbles[0].id, x: 10, y: 20 },
+      { id: elsewhere.bubbles[0].id, x: 30, y: 40 },
+    ])).rejects.toThrow("Bubble not found");
+    expect((await storage.getBubble(bubbles[0].id))?.x).toBe(bubbles[0].x);
+  });
+});
+
+describe("recreateBubbles", () => {
+  it("replaces the bubbles, and their connections with them", async () => {
+    const user = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(user.id);
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+
+    const recreated = await storage.recreateBubbles(conversation.id, { bubbles: [{ messageId: messages[0].id, x: 5 }], keepExisting: false });
+    expect(recreated.map(bubble => [bubble.messageId, bubble.x])).toEqual([[messages[0].id, 5]]);
+    expect(recreated[0].id).not.toBe(bubbles[0].id);
+    expect(await storage.getConnectionsByConversation(conversation.id)).toEqual([]);
+  });
+
+  it("only adds bubbles for messages without one when keeping the existing ones", async () => {
+    const user = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(user.id);
+    const unplaced = await storage.createMessage({ conversationId: conversation.id, text: "third message" });
+
+    const recreated = await storage.recreateBubbles(conversation.id, {
+      bubbles: [{ messageId: messages[0].id, x: 5 }, { messageId: unplaced.id, x: 9 }, { messageId: unplaced.id, x: 11 }],
+      keepExisting: true,
+    });
+    expect(recreated.map(bubble => [bubble.messageId, bubble.x])).toEqual([
+      [messages[0].id, bubbles[0].x],
+      [messages[1].id, bubbles[1].x],
+      [unplaced.id, 9],
+    ]);
+  });
+
+  it("refuses messages of another conversation", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    const elsewhere = await seedConversation(user.id);
+
+    await expect(storage.recreateBubbles(conversation.id, { bubbles: [{ messageId: elsewhere.messages[0].id }], keepExisting: false }))
+      .rejects.toThrow("Message not found");
+    expect((await storage.getBubblesByConversation(conversation.id)).map(bubble => bubble.id)).toEqual(bubbles.map(bubble => bubble.id));
+  });
+});
+
+describe("batch bubble routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("refuse a layout with another conversation's bubble", async () => {
+    const agent = await signUp(app);
+    const { conversation, bubbles } = await seedConversation(agent.user.id);
+    const elsewhere = await seedConversation(agent.user.id);
+
+    await agent.put(`/api/conversations/${conversation.id}/bubbles/layout`)
+      .send([{ id: bubbles[0].id, x: 1, y: 1 }, { id: elsewhere.bubbles[0].id, x: 2, y: 2 }])
+      .expect(404, { message: "Bubble not found" });
+  });
+
+  it("recreate the conversation's bubbles", async () => {
+    const agent = await signUp(app);
+    const { conversation, messages } = await seedConversation(agent.user.id);
+
+    const { body: recreated } = await agent.post(`/api/conversations/${conversation.id}/bubbles/recreate`)
+      .send({ bubbles: [{ messageId: messages[1].id, x: 7, y: 8 }] })
+      .expect(200);
+    expect(recreated.map((bubble: { messageId: number; x: number }) => [bubble.messageId, bubble.x])).toEqual([[messages[1].id, 7]]);
+  });
+});
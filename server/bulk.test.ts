@@ -0,0 +1,104 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+const texts = async (conversationId: number) =>
+  (await storage.getMessagesByConversation(conversationId)).map(message => message.text);
+
+describe("bulkMessages", () => {
+  it("deletes the messages, reporting each once", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+
+    const result = await storage.bulkMessages(user.id, { action: "delete", messageIds: [messages[0].id, messages[0].id] });
+    expect(result).toEqual({ action: "delete", messageIds: [messages[0].id] });
+    expect(await texts(conversation.id)).toEqual(["second message"]);
+  });
+
+  it("changes nothing when one of the messages is missing", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+
+    await expect(storage.bulkMessages(user.id, { action: "delete", messageIds: [messages[0].id, 999999] }))
+      .rejects.toThrow("Message not found");
+    expect(await texts(conversation.id)).toEqual(["first message", "second message"]);
+  });
+
+  it("moves messages into a new conversation, taking their translations along", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id, ["hello", "unrelated"]);
+    const translation = await storage.createMessage({ conversationId: conversation.id, text: "bonjour", translatedFrom: messages[0].id });
+
+    const result = await storage.bulkMessages(user.id, { action: "move", messageIds: [messages[0].id], newConversationName: "Moved" });
+    expect(result.messageIds).toEqual([messages[0].id, translation.id]);
+    expect((await storage.getConversation(result.conversationId!))?.name).toBe("Moved");
+    expect(await texts(result.conversationId!)).toEqual(["hello", "bonjour"]);
+    expect(await texts(conversation.id)).toEqual(["unrelated"]);
+  });
+
+  it("keeps connections whose bubbles both move, and drops those that would span two conversations", async () => {
+    const user = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(user.id, ["one", "two", "three"]);
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[1].id, toBubbleId: bubbles[2].id });
+    const target = await storage.createConversation(user.id, { name: "Target" });
+
+    await storage.bulkMessages(user.id, { action: "move", messageIds: [messages[0].id, messages[1].id], targetConversationId: target.id });
+    expect((await storage.getConnectionsByConversation(target.id)).map(connection => [connection.fromBubbleId, connection.toBubbleId]))
+      .toEqual([[bubbles[0].id, bubbles[1].id]]);
+    expect(await storage.getConnectionsByConversation(conversation.id)).toEqual([]);
+    expect((await storage.getBubblesByConversation(target.id)).map(bubble => bubble.id)).toEqual([bubbles[0].id, bubbles[1].id]);
+  });
+
+  it("copies messages, leaving the originals where they are", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+    const target = await storage.createConversation(user.id, { name: "Target" });
+
+    const result = await storage.bulkMessages(user.id, { action: "copy", messageIds: messages.map(message => message.id), targetConversationId: target.id });
+    expect(result.conversationId).toBe(target.id);
+    expect(result.messageIds).not.toContain(messages[0].id);
+    expect(await texts(target.id)).toEqual(["first message", "second message"]);
+    expect(await texts(conversation.id)).toEqual(["first message", "second message"]);
+  });
+
+  it("sets the same keywords on every message", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id);
+
+    await storage.bulkMessages(user.id, { action: "set-keywords", messageIds: messages.map(message => message.id), keywords: ["tea"] });
+    expect((await storage.getKeywords(user.id)).map(keyword => [keyword.name, keyword.usageCount])).toEqual([["tea", 2]]);
+  });
+});
+
+describe("bulk route", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("copies messages into a new conversation", async () => {
+    const agent = await signUp(app);
+    const { messages } = await seedConversation(agent.user.id);
+
+    const { body: result } = await agent.post("/api/messages/bulk")
+      .send({ action: "copy", messageIds: messages.map(message => message.id), newConversationName: "Copy" })
+      .expect(200);
+    expect(result.messageIds).toHaveLength(2);
+    const { body: copied } = await agent.get(`/api/conversations/${result.conversationId}/messages`).expect(200);
+    expect(copied.map((message: { text: string }) => message.text)).toEqual(["first message", "second message"]);
+  });
+
+  it("needs exactly one target to move or copy to", async () => {
+    const agent = await signUp(app);
+    const { conversation, messages } = await seedConversation(agent.user.id);
+
+    await agent.post("/api/messages/bulk").send({ action: "move", messageIds: [messages[0].id] }).expect(400);
+    await agent.post("/api/messages/bulk")
+      .send({ action: "move", messageIds: [messages[0].id], targetConversationId: conversation.id, newConversationName: "Both" })
+      .expect(400);
+    await agent.post("/api/messages/bulk").send({ action: "delete", messageIds: [] }).expect(400);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+describe("createConnection", () => {
+  it("connects bubbles of the conversation", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    const connection = await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+    expect(await storage.getConnectionsByConversation(conversation.id)).toEqual([connection]);
+  });
+
+  it("refuses to connect a bubble to itself, or twice", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    await expect(storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[0].id }))
+      .rejects.toThrow("Cannot connect a bubble to itself");
+
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+    await expect(storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id }))
+      .rejects.toThrow("Connection already exists");
+  });
+
+  it("refuses bubbles of another conversation", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    const elsewhere = await seedConversation(user.id);
+    await expect(storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: elsewhere.bubbles[0].id }))
+      .rejects.toThrow("Bubbles must belong to the conversation");
+  });
+
+  it("goes when one of its bubbles is deleted", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+    await storage.deleteBubble(bubbles[1].id);
+    expect(await storage.getConnectionsByConversation(conversation.id)).toEqual([]);
+  });
+});
+
+describe("connection routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("creates, lists and deletes connections", async () => {
+    const agent = await signUp(app);
+    const { conversation, bubbles } = await seedConversation(agent.user.id);
+    const url = `/api/conversations/${conversation.id}/connections`;
+
+    const { body: connection } = await agent.post(url).send({ fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id }).expect(201);
+    await agent.post(url).send({ fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id }).expect(409);
+    await agent.get(url).expect(200, [connection]);
+    await agent.delete(`${url}/${connection.id}`).expect(204);
+    await agent.get(url).expect(200, []);
+  });
+
+  it("answers 400 for bubbles of another of the user's conversations", async () => {
+    const agent = await signUp(app);
+    const { conversation, bubbles } = await seedConversation(agent.user.id);
+    const elsewhere = await seedConversation(agent.user.id);
+    await agent.post(`/api/conversations/${conversation.id}/connections`)
+      .send({ fromBubbleId: bubbles[0].id, toBubbleId: elsewhere.bubbles[0].id })
+      .expect(400, { message: "Bubbles must belong to the conversation" });
+  });
+
+  it("imports connections kept in the browser, skipping ones that exist", async () => {
+    const agent = await signUp(app);
+    const { conversation, bubbles } = await seedConversation(agent.user.id, ["one", "two", "three"]);
+    const url = `/api/conversations/${conversation.id}/connections`;
+    await agent.post(url).send({ fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id }).expect(201);
+
+    await agent.post(`${url}/import`).send({
+      connections: [
+        { fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id },
+        { fromBubbleId: bubbles[1].id, toBubbleId: bubbles[2].id },
+      ],
+    }).expect(200);
+    const { body } = await agent.get(url).expect(200);
+    expect(body.map((connection: { fromBubbleId: number; toBubbleId: number }) => [connection.fromBubbleId, connection.toBubbleId]))
+      .toEqual([[bubbles[0].id, bubbles[1].id], [bubbles[1].id, bubbles[2].id]]);
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+describe("duplicateConversation", () => {
+  it("copies the messages with their keywords, bubbles and connections", async () => {
+    const user = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(user.id);
+    await storage.setMessageKeywords(messages[0].id, ["tea"]);
+    await storage.updateBubble(bubbles[1].id, { x: 120, y: 80 });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+
+    const copy = await storage.duplicateConversation(conversation.id);
+    expect(copy).toMatchObject({ name: "Notes (Copy)", userId: user.id });
+
+    const copiedMessages = await storage.getMessagesByConversation(copy.id);
+    expect(copiedMessages.map(message => [message.text, message.keywords])).toEqual([
+      ["first message", ["tea"]],
+      ["second message", []],
+    ]);
+    expect(copiedMessages.map(message => message.id)).not.toContain(messages[0].id);
+
+    const copiedBubbles = await storage.getBubblesByConversation(copy.id);
+    expect(copiedBubbles.map(bubble => bubble.messageId)).toEqual(copiedMessages.map(message => message.id));
+    expect([copiedBubbles[1].x, copiedBubbles[1].y]).toEqual([120, 80]);
+
+    const copiedConnections = await storage.getConnectionsByConversation(copy.id);
+    expect(copiedConnections.map(connection => [connection.fromBubbleId, connection.toBubbleId]))
+      .toEqual([[copiedBubbles[0].id, copiedBubbles[1].id]]);
+  });
+
+  it("points copied translations at the copied originals", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id, ["hello"]);
+    await storage.createMessage({ conversationId: conversation.id, text: "bonjour", translatedFrom: messages[0].id });
+
+    const copy = await storage.duplicateConversation(conversation.id);
+    const [original, translation] = await storage.getMessagesByConversation(copy.id);
+    expect(translation.translatedFrom).toBe(original.id);
+  });
+
+  it("leaves the original untouched", async () => {
+    const user = await createUser();
+    const { conversation, bubbles } = await seedConversation(user.id);
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+
+    await storage.duplicateConversation(conversation.id);
+    expect(await storage.getMessagesByConversation(conversation.id)).toHaveLength(2);
+    expect(await storage.getConnectionsByConversation(conversation.id)).toHaveLength(1);
+  });
+});
+
+describe("duplicate route", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("copies the owner's conversation", async () => {
+    const agent = await signUp(app);
+    const { conversation } = await seedConversation(agent.user.id);
+
+    const { body: copy } = await agent.post(`/api/conversations/${conversation.id}/duplicate`).expect(201);
+    expect(copy.name).toBe("Notes (Copy)");
+    const { body: copied } = await agent.get(`/api/conversations/${copy.id}/messages`).expect(200);
+    expect(copied).toHaveLength(2);
+  });
+
+  it("won't copy another user's conversation", async () => {
+    const agent = await signUp(app);
+    const stranger = await signUp(app);
+    const { conversation } = await seedConversation(stranger.user.id);
+
+    await agent.post(`/api/conversations/${conversation.id}/duplicate`).expect(404);
+  });
+});
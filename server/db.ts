@@ -1,61 +1,39 @@
 import Database from 'better-sqlite3';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import * as schema from "@shared/schema";
-// import { migrate } from 'drizzle-orm/better-sqlite3/migrator'; // Not needed for manual table creation
 import path from 'path';
+import { registerSearchFunctions } from './search';
+import { runMigrations, verifySchema } from './migrate';
 
-// Create SQLite database file in the project root
-const dbPath = path.join(process.cwd(), 'database.sqlite');
+// Create SQLite database file in the project root, unless DATABASE_PATH
+// points elsewhere (e.g. the benchmark's throwaway database)
+const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'database.sqlite');
 const sqlite = new Database(dbPath);
 
 // Enable WAL mode for better performance
 sqlite.pragma('journal_mode = WAL');
 
-export const db = drizzle(sqlite, { schema });
+// Overwrite deleted content with zeros, so text replaced by its ciphertext
+// isn't left behind in free pages
+sqlite.pragma('secure_delete = ON');
 
-// Initialize database tables if they don't exist
-try {
-  // Create tables using SQL if they don't exist
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS conversations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
+// SQL functions used by the full-text search triggers
+registerSearchFunctions(sqlite);
 
-    CREATE TABLE IF NOT EXISTS messages (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      conversation_id INTEGER NOT NULL,
-      text TEXT NOT NULL,
-      title TEXT NOT NULL DEFAULT '',
-      original_language TEXT,
-      translated_from INTEGER,
-      created_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
+export const db = drizzle(sqlite, { schema });
 
-    CREATE TABLE IF NOT EXISTS bubbles (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      message_id INTEGER NOT NULL,
-      x INTEGER NOT NULL DEFAULT 0,
-      y INTEGER NOT NULL DEFAULT 0,
-      width INTEGER NOT NULL DEFAULT 280,
-      height INTEGER NOT NULL DEFAULT 120,
-      category TEXT NOT NULL DEFAULT 'general',
-      color TEXT NOT NULL DEFAULT 'blue',
-      title TEXT NOT NULL DEFAULT ''
-    );
+// Bring the schema up to date before anything touches it. Errors here are
+// fatal: starting against a half-migrated or newer database risks data loss.
+try {
+  const applied = runMigrations(sqlite);
+  verifySchema(sqlite);
 
-    CREATE TABLE IF NOT EXISTS articles (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      content TEXT NOT NULL,
-      bubble_ids TEXT NOT NULL DEFAULT '[]',
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-  `);
-  console.log('✅ SQLite database initialized successfully');
+  // Enforce foreign keys (and their ON DELETE CASCADE) on this connection
+  sqlite.pragma('foreign_keys = ON');
+  console.log(applied.length > 0
+    ? `✅ SQLite database migrated to version ${applied[applied.length - 1]}`
+    : '✅ SQLite database initialized successfully');
 } catch (error) {
   console.error('❌ Error initializing database:', error);
+  throw error;
 }
\ No newline at end of file
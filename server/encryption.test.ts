@@ -0,0 +1,205 @@
+import { existsSync, readFileSync } from "fs";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { ArticleDocument } from "@shared/article-document";
+import type { Conversation } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { hashText } from "./translation";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+// Test ciphertext: the shape the server checks for, not real AES-GCM output
+const seal = (text: string) => `enc:v1:${Buffer.from("iv").toString("base64")}:${Buffer.from(text).toString("base64")}`;
+const encryption = { salt: Buffer.from("salt").toString("base64"), iterations: 310_000, verifier: seal("neocortex") };
+
+// The encryption update the browser would send for the conversation
+async function sealedUpdate(conversation: Conversation) {
+  const messages = await storage.getMessagesByConversation(conversation.id);
+  const bubbles = await storage.getBubblesByConversation(conversation.id);
+  return {
+    encryption,
+    messages: messages.map(message => ({ id: message.id, text: seal(message.text), title: message.title ? seal(message.title) : "" })),
+    bubbles: bubbles.map(bubble => ({ id: bubble.id, title: "" })),
+  };
+}
+
+const quoting = (messageId: number): ArticleDocument => ({
+  type: "doc",
+  content: [{
+    type: "paragraph",
+    content: [{ type: "text", text: "quoted", marks: [{ type: "source", attrs: { messageId, bubbleId: null } }] }],
+  }],
+});
+
+describe("setConversationEncryption", () => {
+  it("stores the ciphertext and keeps it out of search", async () => {
+    const user = await createUser();
+    const { conversation } = await seedConversation(user.id);
+    expect(await storage.search(user.id, "message")).toHaveLength(2);
+
+    const encrypted = await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect(encrypted.encryption).toEqual(encryption);
+    expect((await storage.getMessagesByConversation(conversation.id)).every(message => message.text.startsWith("enc:v1:"))).toBe(true);
+    expect(await storage.search(user.id, "message")).toEqual([]);
+  });
+
+  it("encrypts a message with two bubbles, showing it once and keeping its first bubble", async () => {
+    const user = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(user.id);
+    const extra = await storage.createBubble({ messageId: messages[0].id });
+
+    const listed = await storage.getMessagesByConversation(conversation.id);
+    expect(listed.map(message => [message.id, message.bubble?.id])).toEqual([[messages[0].id, bubbles[0].id], [messages[1].id, bubbles[1].id]]);
+    const page = await storage.getMessagePage(conversation.id, { limit: 10 });
+    expect(page.messages.map(message => message.id)).toEqual([messages[0].id, messages[1].id]);
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect(await storage.getBubble(extra.id)).toBeUndefined();
+    expect(await storage.getBubble(bubbles[0].id)).toBeDefined();
+  });
+
+  it("leaves no plaintext in the database files", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id, ["xylophone quartz", "zephyr marmalade"]);
+    await storage.updateMessage(messages[1].id, { text: "zephyr marmalade, edited" });
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    const files = [process.env.DATABASE_PATH!, `${process.env.DATABASE_PATH}-wal`].filter(file => existsSync(file));
+    for (const file of files) {
+      const contents = readFileSync(file).toString("latin1");
+      expect(contents).not.toContain("xylophone");
+      expect(contents).not.toContain("marmalade");
+    }
+  });
+
+  it("drops the owner's cached translations of the messages, not other users'", async () => {
+    const user = await createUser();
+    const other = await createUser();
+    const { conversation } = await seedConversation(user.id, ["good morning"]);
+    const translation = { textHash: hashText("good morning"), sourceLanguage: "en", targetLanguage: "de", provider: "google", translatedText: "Guten Morgen" };
+    await storage.cacheTranslation(user.id, translation);
+    await storage.cacheTranslation(other.id, translation);
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect(await storage.getCachedTranslation(user.id, translation.textHash, "en", "de")).toBeUndefined();
+    expect(await storage.getCachedTranslation(other.id, translation.textHash, "en", "de")).toBeDefined();
+  });
+
+  it("refuses plaintext", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+    const update = await sealedUpdate(conversation);
+    update.messages[0].text = messages[0].text;
+
+    await expect(storage.setConversationEncryption(conversation.id, update))
+      .rejects.toThrow("Encrypted conversations only take encrypted text");
+  });
+
+  it("refuses an update that misses a message", async () => {
+    const user = await createUser();
+    const { conversation } = await seedConversation(user.id);
+    const update = await sealedUpdate(conversation);
+
+    await expect(storage.setConversationEncryption(conversation.id, { ...update, messages: update.messages.slice(1) }))
+      .rejects.toThrow("Conversation changed - reload and try again");
+  });
+
+  it("refuses while an article quotes the conversation, and drops revisions that did", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+    const article = await storage.createArticle(user.id, { title: "Article", content: quoting(messages[0].id) });
+
+    await expect(storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation)))
+      .rejects.toThrow("Articles quote this conversation - remove the quotes first");
+
+    await storage.updateArticle(article.id, { content: { type: "doc", content: [] } });
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    const revisions = await storage.getArticleRevisions(article.id);
+    expect(revisions.map(revision => revision.content)).toEqual([{ type: "doc", content: [] }]);
+  });
+
+  it("drops the keywords, and makes the titles keywords again when turned off", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+    await storage.setMessageKeywords(messages[0].id, ["tea", "cake"]);
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect(await storage.getKeywords(user.id)).toEqual([]);
+
+    const bubbles = await storage.getBubblesByConversation(conversation.id);
+    const decrypted = await storage.setConversationEncryption(conversation.id, {
+      encryption: null,
+      messages: messages.map(message => ({ id: message.id, text: message.text, title: message.id === messages[0].id ? "tea" : "" })),
+      bubbles: bubbles.map(bubble => ({ id: bubble.id, title: "" })),
+    });
+    expect(decrypted.encryption).toBeNull();
+    expect((await storage.getKeywords(user.id)).map(keyword => keyword.name)).toEqual(["tea"]);
+    expect(await storage.search(user.id, "message")).toHaveLength(2);
+  });
+
+  it("keeps keywords other conversations still use", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id);
+    const elsewhere = await seedConversation(user.id);
+    await storage.setMessageKeywords(messages[0].id, ["tea", "cake"]);
+    await storage.setMessageKeywords(elsewhere.messages[0].id, ["tea"]);
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect((await storage.getKeywords(user.id)).map(keyword => [keyword.name, keyword.usageCount])).toEqual([["tea", 1]]);
+  });
+
+  it("encrypts more messages than SQLite takes bound variables", async () => {
+    const user = await createUser();
+    const { conversation, messages } = await seedConversation(user.id, ["tagged"]);
+    await storage.setMessageKeywords(messages[0].id, ["tea"]);
+    db.run(sql`
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 33000)
+      INSERT INTO messages (conversation_id, text) SELECT ${conversation.id}, 'message ' || i FROM n
+    `);
+
+    await storage.setConversationEncryption(conversation.id, await sealedUpdate(conversation));
+    expect(await storage.getKeywords(user.id)).toEqual([]);
+  }, 60_000);
+});
+
+describe("encryption routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("encrypt a conversation that then only takes ciphertext", async () => {
+    const agent = await signUp(app);
+    const { conversation, messages } = await seedConversation(agent.user.id);
+
+    await agent.put(`/api/conversations/${conversation.id}/encryption`).send(await sealedUpdate(conversation)).expect(200);
+
+    await agent.post("/api/messages").send({ conversationId: conversation.id, text: "plain" })
+      .expect(400, { message: "Encrypted conversations only take encrypted text" });
+    await agent.post("/api/messages").send({ conversationId: conversation.id, text: seal("sealed") }).expect(201);
+    await agent.put(`/api/messages/${messages[0].id}/keywords`).send({ keywords: ["tea"] })
+      .expect(409, { message: "Keywords aren't available in encrypted conversations" });
+    await agent.post("/api/messages/bulk").send({ action: "copy", messageIds: [messages[0].id], newConversationName: "Copy" })
+      .expect(409, { message: "Encrypted messages can't be moved or copied" });
+    await agent.get(`/api/export-pdf/${conversation.id}`).expect(409);
+  });
+
+  it("refuse while an article quotes the conversation", async () => {
+    const agent = await signUp(app);
+    const { conversation, messages } = await seedConversation(agent.user.id);
+    await agent.post("/api/articles").send({ title: "Article", content: quoting(messages[0].id) }).expect(201);
+
+    await agent.put(`/api/conversations/${conversation.id}/encryption`).send(await sealedUpdate(conversation))
+      .expect(409, { message: "Articles quote this conversation - remove the quotes first" });
+  });
+
+  it("won't turn off what isn't on", async () => {
+    const agent = await signUp(app);
+    const { conversation } = await seedConversation(agent.user.id);
+
+    await agent.put(`/api/conversations/${conversation.id}/encryption`).send({ encryption: null, messages: [], bubbles: [] })
+      .expect(400, { message: "Conversation is not encrypted" });
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+// Rows like the ones left from before foreign keys were enforced
+function insertOrphans(conversationId: number) {
+  db.run(sql`PRAGMA foreign_keys = OFF`);
+  try {
+    db.run(sql`INSERT INTO messages (conversation_id, text) VALUES (999999, 'lost message')`);
+    db.run(sql`INSERT INTO connections (conversation_id, from_bubble_id, to_bubble_id) VALUES (${conversationId}, 999998, 999999)`);
+  } finally {
+    db.run(sql`PRAGMA foreign_keys = ON`);
+  }
+}
+
+describe("integrity", () => {
+  it("reports nothing for a consistent database", async () => {
+    const user = await createUser();
+    await seedConversation(user.id);
+    expect(await storage.checkIntegrity()).toEqual({ ok: true, orphans: [], repaired: 0 });
+  });
+
+  it("finds orphans and repairs them, keeping everything else", async () => {
+    const user = await createUser();
+    const { conversation } = await seedConversation(user.id);
+    insertOrphans(conversation.id);
+
+    const report = await storage.checkIntegrity();
+    expect(report.ok).toBe(false);
+    expect(report.orphans.map(orphan => [orphan.table, orphan.parent]).sort()).toEqual([
+      ["connections", "bubbles"],
+      ["connections", "bubbles"],
+      ["messages", "conversations"],
+    ]);
+
+    expect(await storage.repairIntegrity()).toEqual({ ok: true, orphans: [], repaired: 3 });
+    expect(await storage.getMessagesByConversation(conversation.id)).toHaveLength(2);
+  });
+
+  it("enforces foreign keys on new writes", async () => {
+    await expect(storage.createMessage({ conversationId: 999999, text: "nowhere" })).rejects.toThrow();
+  });
+});
+
+describe("integrity routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("are for admins only", async () => {
+    const agent = await signUp(app);
+    await agent.get("/api/integrity").expect(403);
+    await agent.post("/api/integrity/repair").expect(403);
+    await request(app).get("/api/integrity").expect(401);
+  });
+
+  it("check and repair for an admin", async () => {
+    const admin = request.agent(app);
+    await admin.post("/api/login").send({ username: "admin", password: process.env.ADMIN_PASSWORD }).expect(200);
+    const user = await createUser();
+    const { conversation } = await seedConversation(user.id);
+    insertOrphans(conversation.id);
+
+    const { body: report } = await admin.get("/api/integrity").expect(200);
+    expect(report.ok).toBe(false);
+    const { body: repaired } = await admin.post("/api/integrity/repair").expect(200);
+    expect(repaired).toMatchObject({ ok: true, orphans: [] });
+  });
+});
@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+const counts = async (userId: number) =>
+  (await storage.getKeywords(userId)).map(keyword => [keyword.name, keyword.usageCount]);
+
+describe("keywords", () => {
+  it("tags messages in order, the first one becoming the title", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id);
+
+    expect(await storage.setMessageKeywords(messages[0].id, [" tea ", "cake", "tea", ""])).toEqual(["tea", "cake"]);
+    expect((await storage.getMessage(messages[0].id))?.title).toBe("tea");
+    await storage.setMessageKeywords(messages[1].id, ["tea"]);
+    expect(await counts(user.id)).toEqual([["cake", 1], ["tea", 2]]);
+  });
+
+  it("keeps names unique per user, not across users", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const mine = await seedConversation(owner.id);
+    const theirs = await seedConversation(other.id);
+
+    await storage.setMessageKeywords(mine.messages[0].id, ["tea"]);
+    await storage.setMessageKeywords(mine.messages[1].id, ["tea"]);
+    await storage.setMessageKeywords(theirs.messages[0].id, ["tea"]);
+
+    const [ownKeyword] = await storage.getKeywords(owner.id);
+    const [otherKeyword] = await storage.getKeywords(other.id);
+    expect(ownKeyword.usageCount).toBe(2);
+    expect(otherKeyword.usageCount).toBe(1);
+    expect(ownKeyword.id).not.toBe(otherKeyword.id);
+  });
+
+  it("renames a keyword and the titles that show it, unless the name is taken", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id);
+    await storage.setMessageKeywords(messages[0].id, ["tea"]);
+    await storage.setMessageKeywords(messages[1].id, ["cake"]);
+    const [cake, tea] = await storage.getKeywords(user.id);
+
+    await expect(storage.renameKeyword(tea.id, "cake")).rejects.toThrow("Keyword already exists");
+    expect(await storage.renameKeyword(tea.id, " green tea ")).toMatchObject({ name: "green tea", usageCount: 1 });
+    expect((await storage.getMessage(messages[0].id))?.title).toBe("green tea");
+    expect(cake.name).toBe("cake");
+  });
+
+  it("merges one keyword into another, counting a message tagged with both once", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id, ["one", "two", "three"]);
+    await storage.setMessageKeywords(messages[0].id, ["tea"]);
+    await storage.setMessageKeywords(messages[1].id, ["tea", "chai"]);
+    await storage.setMessageKeywords(messages[2].id, ["chai"]);
+    const [chai, tea] = await storage.getKeywords(user.id);
+
+    await expect(storage.mergeKeywords(chai.id, chai.id)).rejects.toThrow("Cannot merge a keyword into itself");
+    expect(await storage.mergeKeywords(chai.id, tea.id)).toMatchObject({ name: "tea", usageCount: 3 });
+    expect(await counts(user.id)).toEqual([["tea", 3]]);
+    expect((await storage.getMessage(messages[2].id))?.title).toBe("tea");
+  });
+
+  it("won't merge keywords of different users", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const mine = await seedConversation(owner.id);
+    const theirs = await seedConversation(other.id);
+    await storage.setMessageKeywords(mine.messages[0].id, ["tea"]);
+    await storage.setMessageKeywords(theirs.messages[0].id, ["chai"]);
+    const [tea] = await storage.getKeywords(owner.id);
+    const [chai] = await storage.getKeywords(other.id);
+
+    await expect(storage.mergeKeywords(chai.id, tea.id)).rejects.toThrow("Keyword not found");
+  });
+
+  it("takes a deleted keyword off its messages", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id);
+    await storage.setMessageKeywords(messages[0].id, ["tea", "cake"]);
+    const [, tea] = await storage.getKeywords(user.id);
+
+    await storage.deleteKeyword(tea.id);
+    expect((await storage.getMessage(messages[0].id))?.title).toBe("cake");
+    expect(await counts(user.id)).toEqual([["cake", 1]]);
+  });
+});
+
+describe("keyword routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("list, rename and merge the user's keywords", async () => {
+    const agent = await signUp(app);
+    const { messages } = await seedConversation(agent.user.id);
+    await agent.put(`/api/messages/${messages[0].id}/keywords`).send({ keywords: ["tea"] }).expect(200, ["tea"]);
+    await agent.put(`/api/messages/${messages[1].id}/keywords`).send({ keywords: ["chai"] }).expect(200, ["chai"]);
+
+    const { body: keywords } = await agent.get("/api/keywords").expect(200);
+    const [chai, tea] = keywords;
+    await agent.patch(`/api/keywords/${chai.id}`).send({ name: "tea" }).expect(409);
+    await agent.post(`/api/keywords/${chai.id}/merge`).send({ targetId: tea.id }).expect(200);
+    const { body: merged } = await agent.get("/api/keywords").expect(200);
+    expect(merged.map((keyword: { name: string; usageCount: number }) => [keyword.name, keyword.usageCount])).toEqual([["tea", 2]]);
+  });
+
+  it("won't merge into another user's keyword", async () => {
+    const agent = await signUp(app);
+    const stranger = await signUp(app);
+    const mine = await seedConversation(agent.user.id);
+    const theirs = await seedConversation(stranger.user.id);
+    await agent.put(`/api/messages/${mine.messages[0].id}/keywords`).send({ keywords: ["tea"] }).expect(200);
+    await stranger.put(`/api/messages/${theirs.messages[0].id}/keywords`).send({ keywords: ["chai"] }).expect(200);
+    const [tea] = (await agent.get("/api/keywords")).body;
+    const [chai] = (await stranger.get("/api/keywords")).body;
+
+    await agent.post(`/api/keywords/${tea.id}/merge`).send({ targetId: chai.id }).expect(404);
+  });
+});
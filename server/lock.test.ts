@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { createTestApp, signUp, TEST_PASSWORD } from "./test-utils";
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+const PIN = "123456";
+const WRONG_PIN = "000000";
+
+// A signed-in user with a PIN, in a new session that starts locked
+async function lockedUser() {
+  const first = await signUp(app);
+  await first.put("/api/lock/pin").send({ pin: PIN }).expect(200);
+
+  const agent = request.agent(app);
+  await agent.post("/api/login").send({ username: first.user.username, password: TEST_PASSWORD }).expect(200);
+  return Object.assign(agent, { username: first.user.username });
+}
+
+describe("app lock", () => {
+  it("stays off until a PIN is set", async () => {
+    const agent = await signUp(app);
+    await agent.get("/api/lock").expect(200, { enabled: false, locked: false, lockAfterMinutes: 5 });
+    await agent.get("/api/conversations").expect(200);
+  });
+
+  it("keeps the API locked until the PIN is entered", async () => {
+    const agent = await lockedUser();
+    await agent.get("/api/conversations").expect(423);
+
+    const { body } = await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(200);
+    await agent.get("/api/conversations").set("X-Unlock-Token", body.token).expect(200);
+    await agent.get("/api/conversations").expect(423);
+  });
+
+  it("locks the calling tab again", async () => {
+    const agent = await lockedUser();
+    const { body } = await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(200);
+    await agent.post("/api/lock").set("X-Unlock-Token", body.token).expect(204);
+    await agent.get("/api/conversations").set("X-Unlock-Token", body.token).expect(423);
+  });
+
+  it("stops checking PINs after five wrong ones, even for parallel requests", async () => {
+    const agent = await lockedUser();
+    const responses = await Promise.all(
+      Array.from({ length: 8 }, () => agent.post("/api/lock/unlock").send({ pin: WRONG_PIN }))
+    );
+    expect(responses.map(response => response.status).sort()).toEqual([403, 403, 403, 403, 403, 429, 429, 429]);
+    await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(429);
+  });
+
+  it("keeps the lockout when signing in again", async () => {
+    const agent = await lockedUser();
+    for (let i = 0; i < 5; i++) await agent.post("/api/lock/unlock").send({ pin: WRONG_PIN }).expect(403);
+
+    const again = request.agent(app);
+    await again.post("/api/login").send({ username: agent.username, password: TEST_PASSWORD }).expect(200);
+    await again.post("/api/lock/unlock").send({ pin: PIN }).expect(429);
+  });
+
+  it("counts wrong PINs given to change or remove the PIN", async () => {
+    const agent = await lockedUser();
+    const { body } = await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(200);
+    for (let i = 0; i < 5; i++) {
+      await agent.delete("/api/lock/pin").set("X-Unlock-Token", body.token).send({ pin: WRONG_PIN }).expect(403);
+    }
+    await agent.put("/api/lock/pin").set("X-Unlock-Token", body.token).send({ pin: "654321", currentPin: PIN }).expect(429);
+  });
+
+  it("starts counting again after the right PIN", async () => {
+    const agent = await lockedUser();
+    for (let i = 0; i < 4; i++) await agent.post("/api/lock/unlock").send({ pin: WRONG_PIN }).expect(403);
+    await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(200);
+    for (let i = 0; i < 4; i++) await agent.post("/api/lock/unlock").send({ pin: WRONG_PIN }).expect(403);
+    await agent.post("/api/lock/unlock").send({ pin: PIN }).expect(200);
+  });
+});
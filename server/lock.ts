@@ -0,0 +1,189 @@
+import type { Express, Request, RequestHandler } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./passwords";
+import { pinSchema, setPinSchema, lockSettingsSchema, type LockStatus, type UnlockResponse, type User } from "@shared/schema";
+
+// App lock: with a PIN set, API calls need a token handed out for the PIN.
+// Each tab unlocks on its own and keeps its token in memory only, so reloading
+// locks again. A token lives for the user's idle timeout, renewed by every
+// call it makes, so a tab left alone stops working even if nobody locks it.
+
+declare module "express-session" {
+  interface SessionData {
+    // Hashes of this session's unlock tokens, and when each runs out (ms)
+    unlockTokens?: Record<string, number>;
+  }
+}
+
+const UNLOCK_TOKEN_HEADER = "X-Unlock-Token";
+const MAX_FAILED_UNLOCKS = 5;
+const UNLOCK_RETRY_DELAY = 5 * 60 * 1000;
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+const tokenLifetime = (req: Request) => req.user!.lockAfterMinutes * 60 * 1000;
+
+// Whether the request carries a live token; if so, its life starts over
+function hasUnlockToken(req: Request): boolean {
+  const token = req.get(UNLOCK_TOKEN_HEADER);
+  const tokens = req.session.unlockTokens;
+  if (!token || !tokens) return false;
+
+  const now = Date.now();
+  for (const [hash, expiresAt] of Object.entries(tokens)) {
+    if (expiresAt <= now) delete tokens[hash];
+  }
+
+  const hash = hashToken(token);
+  if (!(hash in tokens)) return false;
+  tokens[hash] = now + tokenLifetime(req);
+  return true;
+}
+
+function issueUnlockToken(req: Request): UnlockResponse {
+  const token = randomBytes(32).toString("base64url");
+  req.session.unlockTokens = { ...req.session.unlockTokens, [hashToken(token)]: Date.now() + tokenLifetime(req) };
+  return { token };
+}
+
+// Checks a PIN against the user's, counting the check on the user row: after
+// MAX_FAILED_UNLOCKS wrong ones no PIN is checked for UNLOCK_RETRY_DELAY, in
+// any session. The attempt is claimed before the slow hash is compared.
+async function checkPin(user: User, pin: string): Promise<"right" | "wrong" | "locked out"> {
+  const attempt = await storage.claimPinAttempt(user.id, MAX_FAILED_UNLOCKS);
+  if (attempt === undefined) return "locked out";
+
+  if (verifyPassword(pin, user.pinHash!)) {
+    await storage.resetPinAttempts(user.id, null);
+    return "right";
+  }
+  if (attempt >= MAX_FAILED_UNLOCKS) {
+    await storage.resetPinAttempts(user.id, new Date(Date.now() + UNLOCK_RETRY_DELAY).toISOString());
+  }
+  return "wrong";
+}
+
+const pinRefusals = {
+  wrong: { status: 403, message: "Wrong PIN" },
+  "locked out": { status: 429, message: "Too many wrong PINs - try again in a few minutes" },
+};
+
+const isLocked = (req: Request) => req.user!.pinHash !== null && !hasUnlockToken(req);
+
+function lockStatus(req: Request): LockStatus {
+  return {
+    enabled: req.user!.pinHash !== null,
+    locked: isLocked(req),
+    lockAfterMinutes: req.user!.lockAfterMinutes,
+  };
+}
+
+export const requireUnlocked: RequestHandler = (req, res, next) => {
+  if (isLocked(req)) return res.status(423).json({ message: "App is locked" });
+  next();
+};
+
+// Registered after setupAuth, so every route here needs a signed-in user
+export function setupLock(app: Express) {
+  app.get("/api/lock", (req, res) => {
+    res.json(lockStatus(req));
+  });
+
+  app.post("/api/lock/unlock", async (req, res) => {
+    try {
+      const { pin } = z.object({ pin: z.string() }).parse(req.body);
+      const user = req.user!;
+      if (user.pinHash === null) {
+        return res.status(400).json({ message: "No PIN is set" });
+      }
+
+      const result = await checkPin(user, pin);
+      if (result !== "right") {
+        const { status, message } = pinRefusals[result];
+        return res.status(status).json({ message });
+      }
+
+      res.json(issueUnlockToken(req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PIN", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to unlock" });
+    }
+  });
+
+  // Lock now: the calling tab's token stops working
+  app.post("/api/lock", (req, res) => {
+    const token = req.get(UNLOCK_TOKEN_HEADER);
+    if (token && req.session.unlockTokens) {
+      delete req.session.unlockTokens[hashToken(token)];
+    }
+    res.status(204).send();
+  });
+
+  // Everything else under /api waits until the app is unlocked
+  app.use("/api", requireUnlocked);
+
+  app.patch("/api/lock", async (req, res) => {
+    try {
+      const settings = lockSettingsSchema.parse(req.body);
+      req.user = await storage.updateUser(req.user!.id, settings);
+      res.json(lockStatus(req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lock settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update lock settings" });
+    }
+  });
+
+  // Sets or changes the PIN. The tab that did it stays unlocked; any other
+  // tab of the session has to enter the new PIN.
+  app.put("/api/lock/pin", async (req, res) => {
+    try {
+      const { pin, currentPin } = setPinSchema.parse(req.body);
+      const user = req.user!;
+      if (user.pinHash !== null) {
+        const result = await checkPin(user, currentPin ?? "");
+        if (result !== "right") {
+          const { status, message } = pinRefusals[result];
+          return res.status(status).json({ message });
+        }
+      }
+
+      req.user = await storage.updateUser(user.id, { pinHash: hashPassword(pin) });
+      req.session.unlockTokens = {};
+      res.json(issueUnlockToken(req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PIN", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to set PIN" });
+    }
+  });
+
+  app.delete("/api/lock/pin", async (req, res) => {
+    try {
+      const { pin } = z.object({ pin: pinSchema }).parse(req.body);
+      const user = req.user!;
+      if (user.pinHash === null) {
+        return res.status(204).send();
+      }
+      const result = await checkPin(user, pin);
+      if (result !== "right") {
+        const { status, message } = pinRefusals[result];
+        return res.status(status).json({ message });
+      }
+
+      await storage.updateUser(user.id, { pinHash: null });
+      delete req.session.unlockTokens;
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PIN", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to remove PIN" });
+    }
+  });
+}
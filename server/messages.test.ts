@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createUser, signUp } from "./test-utils";
+
+const SAME_TIME = "2024-03-01T10:00:00.000Z";
+
+// Messages written in one moment, so only their ids tell them apart, and one after
+async function conversationWithTies(userId: number) {
+  const conversation = await storage.createConversation(userId, { name: "Ties" });
+  for (const text of ["a", "b", "c", "d"]) {
+    await storage.createMessage({ conversationId: conversation.id, text, createdAt: SAME_TIME });
+  }
+  await storage.createMessage({ conversationId: conversation.id, text: "e", createdAt: "2024-03-02T09:00:00.000Z" });
+  return conversation;
+}
+
+const texts = (page: { messages: { text: string }[] }) => page.messages.map(message => message.text);
+
+// The route's cursors as getMessagePage takes them
+function parseCursor(cursor: string | null) {
+  const match = /^(.+)_(\d+)$/.exec(cursor!)!;
+  return { createdAt: match[1], id: parseInt(match[2]) };
+}
+
+describe("getMessagePage", () => {
+  it("pages back from the newest messages without skipping ties", async () => {
+    const user = await createUser();
+    const conversation = await conversationWithTies(user.id);
+
+    const newest = await storage.getMessagePage(conversation.id, { limit: 2 });
+    expect(texts(newest)).toEqual(["d", "e"]);
+    expect(newest.newerCursor).toBeNull();
+
+    const older = await storage.getMessagePage(conversation.id, { limit: 2, before: parseCursor(newest.olderCursor) });
+    expect(texts(older)).toEqual(["b", "c"]);
+    const oldest = await storage.getMessagePage(conversation.id, { limit: 2, before: parseCursor(older.olderCursor) });
+    expect(texts(oldest)).toEqual(["a"]);
+    expect(oldest.olderCursor).toBeNull();
+  });
+
+  it("pages forward from a cursor", async () => {
+    const user = await createUser();
+    const conversation = await conversationWithTies(user.id);
+    const [, second] = (await storage.getMessagePage(conversation.id, { limit: 5 })).messages;
+
+    const page = await storage.getMessagePage(conversation.id, { limit: 2, after: { createdAt: second.createdAt, id: second.id } });
+    expect(texts(page)).toEqual(["c", "d"]);
+    expect(parseCursor(page.newerCursor)).toEqual({ createdAt: SAME_TIME, id: page.messages[1].id });
+  });
+
+  it("opens around a message, or at the first message from a date on", async () => {
+    const user = await createUser();
+    const conversation = await conversationWithTies(user.id);
+    const all = (await storage.getMessagePage(conversation.id, { limit: 5 })).messages;
+
+    expect(texts(await storage.getMessagePage(conversation.id, { limit: 3, around: all[2].id }))).toEqual(["b", "c", "d"]);
+    expect(texts(await storage.getMessagePage(conversation.id, { limit: 2, date: "2024-03-02T00:00:00.000Z" }))).toEqual(["d", "e"]);
+    await expect(storage.getMessagePage(conversation.id, { limit: 3, around: 999999 })).rejects.toThrow("Message not found");
+  });
+});
+
+describe("message page route", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("follows the cursors it hands out", async () => {
+    const agent = await signUp(app);
+    const conversation = await conversationWithTies(agent.user.id);
+
+    const { body: newest } = await agent.get(`/api/conversations/${conversation.id}/messages`).query({ limit: 3 }).expect(200);
+    expect(texts(newest)).toEqual(["c", "d", "e"]);
+    const { body: older } = await agent.get(`/api/conversations/${conversation.id}/messages`)
+      .query({ limit: 3, before: newest.olderCursor })
+      .expect(200);
+    expect(texts(older)).toEqual(["a", "b"]);
+  });
+
+  it("refuses a bad cursor or more than one anchor", async () => {
+    const agent = await signUp(app);
+    const conversation = await conversationWithTies(agent.user.id);
+    const url = `/api/conversations/${conversation.id}/messages`;
+
+    await agent.get(url).query({ before: "not-a-cursor" }).expect(400);
+    await agent.get(url).query({ before: `${SAME_TIME}_1`, after: `${SAME_TIME}_2` }).expect(400);
+    await agent.get(url).query({ limit: 0 }).expect(400);
+    await agent.get(url).query({ around: 999999 }).expect(404);
+  });
+
+  it("sends every message without a page query", async () => {
+    const agent = await signUp(app);
+    const conversation = await conversationWithTies(agent.user.id);
+
+    const { body } = await agent.get(`/api/conversations/${conversation.id}/messages`).expect(200);
+    expect(body.map((message: { text: string }) => message.text)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
@@ -0,0 +1,148 @@
+import Database from "better-sqlite3";
+import { readFileSync, rmSync, statSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runMigrations, verifySchema, SchemaError } from "./migrate";
+import { migrations } from "./migrations";
+import { verifyPassword } from "./passwords";
+import { registerSearchFunctions } from "./search";
+
+function openDatabase() {
+  const sqlite = new Database(":memory:");
+  registerSearchFunctions(sqlite);
+  return sqlite;
+}
+
+const upTo = (version: number) => migrations.slice(0, version);
+
+describe("runMigrations", () => {
+  it("builds an empty database up to the schema in shared/schema.ts", () => {
+    const sqlite = openDatabase();
+    expect(runMigrations(sqlite)).toEqual(migrations.map(migration => migration.version));
+    expect(() => verifySchema(sqlite)).not.toThrow();
+  });
+
+  it("applies nothing the second time", () => {
+    const sqlite = openDatabase();
+    runMigrations(sqlite);
+    expect(runMigrations(sqlite)).toEqual([]);
+  });
+
+  it("applies only the migrations a database is missing", () => {
+    const sqlite = openDatabase();
+    runMigrations(sqlite, upTo(10));
+    expect(runMigrations(sqlite)).toEqual(migrations.slice(10).map(migration => migration.version));
+    expect(() => verifySchema(sqlite)).not.toThrow();
+  });
+
+  it("refuses a database migrated by a newer build", () => {
+    const sqlite = openDatabase();
+    runMigrations(sqlite);
+    expect(() => runMigrations(sqlite, upTo(5))).toThrow(SchemaError);
+  });
+
+  it("refuses a list with a gap in its versions", () => {
+    expect(() => runMigrations(openDatabase(), [migrations[0], migrations[2]])).toThrow(SchemaError);
+  });
+
+  it("rolls back every pending migration when one fails", () => {
+    const sqlite = openDatabase();
+    const failing = { version: migrations.length + 1, name: "failing", up: () => { throw new Error("boom"); } };
+    expect(() => runMigrations(sqlite, [...migrations, failing])).toThrow("boom");
+    expect(sqlite.prepare("SELECT name FROM sqlite_master WHERE name = 'schema_migrations'").all()).toHaveLength(1);
+    expect(sqlite.prepare("SELECT count(*) AS count FROM schema_migrations").get()).toEqual({ count: 0 });
+  });
+});
+
+describe("upgrading old data", () => {
+  // A database from before articles were documents, with one of each kind of row
+  function databaseAtVersion7() {
+    const sqlite = openDatabase();
+    runMigrations(sqlite, upTo(7));
+    sqlite.exec(`
+      INSERT INTO conversations (id, name) VALUES (1, 'Notes');
+      INSERT INTO messages (id, conversation_id, text, title) VALUES (1, 1, '我喜欢 reading', 'books');
+      INSERT INTO articles (id, title, content) VALUES
+        (1, 'Notes', '<p><b>Bold</b> text &amp; <i>more</i></p><ul><li>one</li><li>two</li></ul>');
+    `);
+    return sqlite;
+  }
+
+  it("converts HTML articles to documents and counts their words", () => {
+    const sqlite = databaseAtVersion7();
+    runMigrations(sqlite);
+
+    const article = sqlite.prepare("SELECT content, word_count AS wordCount, conversation_id AS conversationId, user_id AS userId FROM articles").get() as {
+      content: string;
+      wordCount: number;
+      conversationId: number | null;
+      userId: number;
+    };
+    expect(JSON.parse(article.content)).toEqual({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Bold", marks: [{ type: "bold" }] },
+            { type: "text", text: " text & " },
+            { type: "text", text: "more", marks: [{ type: "italic" }] },
+          ],
+        },
+        {
+          type: "bulletList",
+          content: [
+            { type: "listItem", content: [{ type: "paragraph", content: [{ type: "text", text: "one" }] }] },
+            { type: "listItem", content: [{ type: "paragraph", content: [{ type: "text", text: "two" }] }] },
+          ],
+        },
+      ],
+    });
+    expect(article.wordCount).toBe(6);
+    // Linked by its title, and owned by the admin account like everything from before accounts
+    expect(article.conversationId).toBe(1);
+    expect(sqlite.prepare("SELECT username FROM users WHERE id = ?").get(article.userId)).toEqual({ username: "admin" });
+  });
+
+  it("leaves search triggers that index new and changed rows", () => {
+    const sqlite = databaseAtVersion7();
+    runMigrations(sqlite);
+    sqlite.exec(`
+      UPDATE messages SET text = 'changed' WHERE id = 1;
+      INSERT INTO messages (conversation_id, text) VALUES (1, 'enc:v1:aXY=:c2VjcmV0');
+    `);
+
+    const rows = sqlite.prepare("SELECT rowid, body, kind FROM search_index ORDER BY rowid").all();
+    expect(rows).toEqual([
+      { rowid: 2, body: "changed", kind: "message" },
+      { rowid: 3, body: "Bold text & more\none\ntwo", kind: "article" },
+    ]);
+  });
+});
+
+describe("the admin account", () => {
+  const dbPath = path.join(os.tmpdir(), `admin-${process.pid}-${Date.now()}.sqlite`);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    for (const file of [dbPath, `${dbPath}.admin-password`]) rmSync(file, { force: true });
+  });
+
+  it("gets a made-up password, kept in a private file rather than the log", () => {
+    vi.stubEnv("ADMIN_PASSWORD", "");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const sqlite = new Database(dbPath);
+    registerSearchFunctions(sqlite);
+    runMigrations(sqlite);
+
+    const passwordFile = `${dbPath}.admin-password`;
+    expect(statSync(passwordFile).mode & 0o777).toBe(0o600);
+    const password = readFileSync(passwordFile, "utf8").trim();
+    const admin = sqlite.prepare("SELECT password_hash AS passwordHash FROM users WHERE username = 'admin'").get() as { passwordHash: string };
+    expect(verifyPassword(password, admin.passwordHash)).toBe(true);
+    expect(log.mock.calls.flat().join("\n")).not.toContain(password);
+    sqlite.close();
+  });
+});
@@ -0,0 +1,103 @@
+import type Database from 'better-sqlite3';
+import { is } from 'drizzle-orm';
+import { SQLiteTable, getTableConfig } from 'drizzle-orm/sqlite-core';
+import * as schema from "@shared/schema";
+import { migrations, type Migration } from './migrations';
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+function assertOrdered(list: Migration[]) {
+  list.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new SchemaError(`Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`);
+    }
+  });
+}
+
+// Apply every pending migration in one transaction and record it in
+// schema_migrations. Returns the versions that were applied.
+export function runMigrations(sqlite: Database.Database, list: Migration[] = migrations): number[] {
+  assertOrdered(list);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  const applied = new Set(
+    (sqlite.prepare('SELECT version FROM schema_migrations').all() as { version: number }[])
+      .map(row => row.version)
+  );
+  const currentVersion = Math.max(0, ...Array.from(applied));
+  const latestVersion = list.length;
+
+  // A newer build already migrated this file; running older code against it
+  // could silently drop or misread data.
+  if (currentVersion > latestVersion) {
+    throw new SchemaError(
+      `Database schema is at version ${currentVersion} but this build only knows up to ${latestVersion}. ` +
+      `Refusing to start - upgrade the app instead of downgrading the database.`
+    );
+  }
+
+  const pending = list.filter(migration => !applied.has(migration.version));
+  if (pending.length === 0) return [];
+
+  // Table rebuilds need foreign keys off, and the pragma is a no-op inside a
+  // transaction. The caller turns enforcement back on afterwards.
+  sqlite.pragma('foreign_keys = OFF');
+
+  const recordMigration = sqlite.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+  sqlite.transaction(() => {
+    for (const migration of pending) {
+      migration.up(sqlite);
+      recordMigration.run(migration.version, migration.name);
+    }
+  })();
+
+  return pending.map(migration => migration.version);
+}
+
+// Compare the migrated database with the Drizzle tables in shared/schema.ts so
+// the two definitions cannot drift apart unnoticed.
+export function verifySchema(sqlite: Database.Database) {
+  const problems: string[] = [];
+
+  for (const value of Object.values(schema)) {
+    if (!is(value, SQLiteTable)) continue;
+
+    const { name: table, columns } = getTableConfig(value);
+    const dbColumns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string; type: string }[];
+
+    if (dbColumns.length === 0) {
+      problems.push(`table "${table}" is missing`);
+      continue;
+    }
+
+    const dbTypes = new Map(dbColumns.map(col => [col.name, col.type.toLowerCase()]));
+    for (const column of columns) {
+      const dbType = dbTypes.get(column.name);
+      if (dbType === undefined) {
+        problems.push(`column "${table}.${column.name}" is missing`);
+      } else if (dbType !== column.getSQLType().toLowerCase()) {
+        problems.push(`column "${table}.${column.name}" is ${dbType}, schema expects ${column.getSQLType()}`);
+      }
+      dbTypes.delete(column.name);
+    }
+    for (const extra of Array.from(dbTypes.keys())) {
+      problems.push(`column "${table}.${extra}" is not declared in shared/schema.ts`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new SchemaError(`Database schema does not match shared/schema.ts:\n  - ${problems.join('\n  - ')}`);
+  }
+}
@@ -0,0 +1,384 @@
+import { z } from "zod";
+
+// The article document model and HTML reader as they were when migration 8
+// (article_documents) shipped, which migrations 8 and 10 use to convert and
+// count old articles. shared/article-document.ts has moved on since - it reads
+// embeds and source marks these rows can't hold - and may change again, but a
+// shipped migration has to do the same thing on every database it runs on.
+// Never edit this copy; a migration that needs newer parsing gets its own.
+
+type ArticleMarkType = "bold" | "italic" | "underline";
+
+type ArticleMark = { type: ArticleMarkType };
+
+type ArticleText = { type: "text"; text: string; marks?: ArticleMark[] };
+type ArticleHardBreak = { type: "hardBreak" };
+type ArticleInline = ArticleText | ArticleHardBreak;
+
+type ArticleParagraph = { type: "paragraph"; content?: ArticleInline[] };
+type ArticleHeading = { type: "heading"; attrs: { level: 1 | 2 | 3 }; content?: ArticleInline[] };
+type ArticleListItem = { type: "listItem"; content: (ArticleParagraph | ArticleList)[] };
+type ArticleBulletList = { type: "bulletList"; content: ArticleListItem[] };
+type ArticleOrderedList = { type: "orderedList"; attrs?: { start?: number }; content: ArticleListItem[] };
+type ArticleList = ArticleBulletList | ArticleOrderedList;
+type ArticleDivider = { type: "horizontalRule" };
+
+type ArticleBlock = ArticleParagraph | ArticleHeading | ArticleList | ArticleDivider;
+
+export type ArticleDocument = { type: "doc"; content: ArticleBlock[] };
+
+const markSchema = z.object({ type: z.enum(["bold", "italic", "underline"]) });
+
+const inlineSchema: z.ZodType<ArticleInline> = z.union([
+  z.object({ type: z.literal("text"), text: z.string().min(1), marks: z.array(markSchema).optional() }),
+  z.object({ type: z.literal("hardBreak") }),
+]);
+
+const paragraphSchema: z.ZodType<ArticleParagraph> = z.object({
+  type: z.literal("paragraph"),
+  content: z.array(inlineSchema).optional(),
+});
+
+const listItemSchema: z.ZodType<ArticleListItem> = z.lazy(() => z.object({
+  type: z.literal("listItem"),
+  content: z.array(z.union([paragraphSchema, listSchema])).min(1),
+}));
+
+const listSchema: z.ZodType<ArticleList> = z.lazy(() => z.union([
+  z.object({ type: z.literal("bulletList"), content: z.array(listItemSchema).min(1) }),
+  z.object({
+    type: z.literal("orderedList"),
+    attrs: z.object({ start: z.number().int().optional() }).passthrough().optional(),
+    content: z.array(listItemSchema).min(1),
+  }),
+]));
+
+const blockSchema: z.ZodType<ArticleBlock> = z.union([
+  paragraphSchema,
+  z.object({
+    type: z.literal("heading"),
+    attrs: z.object({ level: z.union([z.literal(1), z.literal(2), z.literal(3)]) }),
+    content: z.array(inlineSchema).optional(),
+  }),
+  listSchema,
+  z.object({ type: z.literal("horizontalRule") }),
+]);
+
+const articleDocumentSchema: z.ZodType<ArticleDocument> = z.object({
+  type: z.literal("doc"),
+  content: z.array(blockSchema),
+});
+
+function isArticleDocument(value: unknown): value is ArticleDocument {
+  return articleDocumentSchema.safeParse(value).success;
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+
+function inlineText(content: ArticleInline[] = []): string {
+  return content.map(node => (node.type === "text" ? node.text : "\n")).join("");
+}
+
+function listText(list: ArticleList): string[] {
+  return list.content.flatMap(item => item.content.flatMap(child =>
+    child.type === "paragraph" ? [inlineText(child.content)] : listText(child)
+  ));
+}
+
+// One line per paragraph, heading and list item
+function documentToPlainText(doc: ArticleDocument): string {
+  return doc.content
+    .flatMap(block => {
+      switch (block.type) {
+        case "paragraph":
+        case "heading":
+          return [inlineText(block.content)];
+        case "bulletList":
+        case "orderedList":
+          return listText(block);
+        case "horizontalRule":
+          return [];
+      }
+    })
+    .join("\n")
+    .trim();
+}
+
+export function countWords(doc: ArticleDocument): number {
+  const text = documentToPlainText(doc);
+  return text ? text.split(/\s+/).filter(Boolean).length : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Importing HTML
+//
+// Articles written before the document model were stored as the editor's
+// innerHTML. This is a small, forgiving HTML reader for that markup - it does
+// not need (or have) a DOM, so it also runs inside the database migration.
+
+interface HtmlElement {
+  tag: string;
+  style: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "wbr"]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "title"]);
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "div", "footer", "h1", "h2", "h3", "h4", "h5", "h6",
+  "header", "hr", "li", "ol", "p", "pre", "section", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", style: "", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+|<)/g;
+  let skipping: string | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    const [token, closing, rawTag, rawAttrs, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      if (!skipping) current.children.push(decodeEntities(text));
+      continue;
+    }
+    if (!rawTag) continue; // comment
+
+    const tag = rawTag.toLowerCase();
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+
+    if (closing) {
+      // Close the nearest matching element; stray closing tags are ignored
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!token.endsWith("/>")) skipping = tag;
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const element: HtmlElement = { tag, style: (attrs.style || "").toLowerCase(), attrs, children: [] };
+    // A new <li> or <p> implicitly closes an open one
+    if (tag === "li" || tag === "p") {
+      const index = stack.map(open => open.tag).lastIndexOf(tag);
+      const list = Math.max(stack.map(open => open.tag).lastIndexOf("ul"), stack.map(open => open.tag).lastIndexOf("ol"));
+      if (index > 0 && (tag === "p" || index > list)) stack.length = index;
+    }
+    stack[stack.length - 1].children.push(element);
+    if (!VOID_TAGS.has(tag) && !token.endsWith("/>")) stack.push(element);
+  }
+
+  return root;
+}
+
+function isBlockElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== "string" && BLOCK_TAGS.has(node.tag);
+}
+
+function listElement(node: HtmlNode): HtmlElement | null {
+  return typeof node !== "string" && (node.tag === "ul" || node.tag === "ol") ? node : null;
+}
+
+// Bold, italic and underline come either from tags or, with styleWithCSS, from inline styles
+function marksOf(element: HtmlElement, inherited: ArticleMarkType[]): ArticleMarkType[] {
+  const marks = new Set(inherited);
+  const weight = element.style.match(/font-weight\s*:\s*([a-z0-9]+)/)?.[1];
+  if (element.tag === "b" || element.tag === "strong" || weight === "bold" || weight === "bolder" || (weight && parseInt(weight) >= 600)) {
+    marks.add("bold");
+  }
+  if (element.tag === "i" || element.tag === "em" || /font-style\s*:\s*italic/.test(element.style)) {
+    marks.add("italic");
+  }
+  if (element.tag === "u" || /text-decoration[a-z-]*\s*:[^;]*underline/.test(element.style)) {
+    marks.add("underline");
+  }
+  return ["bold", "italic", "underline"].filter(mark => marks.has(mark as ArticleMarkType)) as ArticleMarkType[];
+}
+
+function collectInline(node: HtmlNode, marks: ArticleMarkType[], out: ArticleInline[]) {
+  if (typeof node === "string") {
+    const text = node.replace(/[ \t\r\n\f]+/g, " ");
+    if (text) out.push(marks.length > 0 ? { type: "text", text, marks: marks.map(type => ({ type })) } : { type: "text", text });
+    return;
+  }
+  if (node.tag === "br") {
+    out.push({ type: "hardBreak" });
+    return;
+  }
+  // Block elements nested inside inline content still start a new line
+  if (isBlockElement(node) && out.length > 0) out.push({ type: "hardBreak" });
+  const childMarks = marksOf(node, marks);
+  node.children.forEach(child => collectInline(child, childMarks, out));
+}
+
+function sameMarks(a: ArticleText, b: ArticleText): boolean {
+  const left = (a.marks || []).map(mark => mark.type).join();
+  const right = (b.marks || []).map(mark => mark.type).join();
+  return left === right;
+}
+
+// Merges neighbouring text with the same marks and trims whitespace at the
+// edges and around line breaks, as a browser would when rendering
+function normalizeInline(content: ArticleInline[]): ArticleInline[] {
+  const merged: ArticleInline[] = [];
+  for (const node of content) {
+    const last = merged[merged.length - 1];
+    if (node.type === "text" && last?.type === "text" && sameMarks(last, node)) {
+      last.text += node.text;
+    } else {
+      merged.push(node.type === "text" ? { ...node } : node);
+    }
+  }
+
+  merged.forEach((node, index) => {
+    if (node.type !== "text") return;
+    const previous = merged[index - 1];
+    const next = merged[index + 1];
+    if (!previous || previous.type === "hardBreak") node.text = node.text.replace(/^ +/, "");
+    if (!next || next.type === "hardBreak") node.text = node.text.replace(/ +$/, "");
+  });
+
+  const result = merged.filter(node => node.type !== "text" || node.text);
+  while (result[0]?.type === "hardBreak") result.shift();
+  while (result[result.length - 1]?.type === "hardBreak") result.pop();
+  return result;
+}
+
+function hasText(content: ArticleInline[]): boolean {
+  return content.some(node => node.type === "text" && node.text.trim());
+}
+
+function inlineContent(nodes: HtmlNode[]): ArticleInline[] {
+  const out: ArticleInline[] = [];
+  nodes.forEach(node => collectInline(node, [], out));
+  return normalizeInline(out);
+}
+
+function paragraphOf(content: ArticleInline[]): ArticleParagraph {
+  return content.length > 0 ? { type: "paragraph", content } : { type: "paragraph" };
+}
+
+function convertList(element: HtmlElement): ArticleList | null {
+  const items: ArticleListItem[] = [];
+
+  for (const child of element.children) {
+    const childList = listElement(child);
+    if (childList) {
+      // A list nested directly in a list (what execCommand produces) belongs to the previous item
+      const nested = convertList(childList);
+      if (!nested) continue;
+      if (items.length > 0) {
+        items[items.length - 1].content.push(nested);
+      } else {
+        items.push({ type: "listItem", content: [{ type: "paragraph" }, nested] });
+      }
+      continue;
+    }
+
+    const own = typeof child !== "string" && child.tag === "li" ? child.children : [child];
+    const content = inlineContent(own.filter(node => !listElement(node)));
+    const sublists = own
+      .map(node => listElement(node))
+      .map(element => element && convertList(element))
+      .filter((list): list is ArticleList => !!list);
+    if (!hasText(content) && sublists.length === 0) continue;
+    items.push({ type: "listItem", content: [paragraphOf(content), ...sublists] });
+  }
+
+  if (items.length === 0) return null;
+  if (element.tag === "ol") {
+    const start = parseInt(element.attrs.start || "1") || 1;
+    return start !== 1
+      ? { type: "orderedList", attrs: { start }, content: items }
+      : { type: "orderedList", content: items };
+  }
+  return { type: "bulletList", content: items };
+}
+
+function convertBlocks(nodes: HtmlNode[], blocks: ArticleBlock[]) {
+  let pending: HtmlNode[] = [];
+  const flush = () => {
+    const content = inlineContent(pending);
+    if (hasText(content)) blocks.push(paragraphOf(content));
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (!isBlockElement(node)) {
+      pending.push(node);
+      continue;
+    }
+
+    flush();
+    if (node.tag === "hr") {
+      blocks.push({ type: "horizontalRule" });
+    } else if (/^h[1-6]$/.test(node.tag)) {
+      const content = inlineContent(node.children);
+      const level = Math.min(3, parseInt(node.tag.slice(1))) as 1 | 2 | 3;
+      if (hasText(content)) blocks.push({ type: "heading", attrs: { level }, content });
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const list = convertList(node);
+      if (list) blocks.push(list);
+    } else if (node.tag === "li") {
+      const list = convertList({ tag: "ul", style: "", attrs: {}, children: [node] });
+      if (list) blocks.push(list);
+    } else {
+      convertBlocks(node.children, blocks);
+    }
+  }
+  flush();
+}
+
+function htmlToDocument(html: string): ArticleDocument {
+  const blocks: ArticleBlock[] = [];
+  convertBlocks(parseHtml(html).children, blocks);
+  return { type: "doc", content: blocks };
+}
+
+// Stored article content: a serialized document, or HTML from before the
+// document model (and plain text, which reads as HTML without tags)
+export function parseArticleContent(content: string): ArticleDocument {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (isArticleDocument(parsed)) return parsed;
+    } catch {
+      // Not JSON after all - fall through to HTML
+    }
+  }
+  return htmlToDocument(content.includes("<") ? content : content.replace(/\n/g, "<br>"));
+}
@@ -0,0 +1,106 @@
+// The search index and its triggers as each migration that wrote them
+// shipped (see server/search.ts for how the index is used). Named by the
+// migration that introduced them; later migrations that recreate dropped
+// triggers use the copy that was current when they shipped. Never edit these -
+// changing the index takes a new migration with its own SQL.
+
+// Migration 3 (full_text_search)
+export const SEARCH_TABLE_V3_SQL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    title,
+    body,
+    kind UNINDEXED,
+    conversation_id UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+`;
+
+export const MESSAGE_SEARCH_TRIGGERS_V3_SQL = `
+  CREATE TRIGGER IF NOT EXISTS messages_search_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2, fts_segment(new.title), fts_segment(new.text), 'message', new.conversation_id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_search_update AFTER UPDATE ON messages BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2;
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2, fts_segment(new.title), fts_segment(new.text), 'message', new.conversation_id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_search_delete AFTER DELETE ON messages BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2;
+  END;
+`;
+
+// Articles held editor HTML
+export const ARTICLE_SEARCH_TRIGGERS_V3_SQL = `
+  CREATE TRIGGER IF NOT EXISTS articles_search_insert AFTER INSERT ON articles BEGIN
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2 + 1, fts_segment(new.title), fts_segment(fts_strip_html(new.content)), 'article', NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS articles_search_update AFTER UPDATE ON articles BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2 + 1;
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2 + 1, fts_segment(new.title), fts_segment(fts_strip_html(new.content)), 'article', NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS articles_search_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2 + 1;
+  END;
+`;
+
+export const SEARCH_REBUILD_V3_SQL = `
+  DELETE FROM search_index;
+
+  INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+  SELECT id * 2, fts_segment(title), fts_segment(text), 'message', conversation_id FROM messages;
+
+  INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+  SELECT id * 2 + 1, fts_segment(title), fts_segment(fts_strip_html(content)), 'article', NULL FROM articles;
+`;
+
+// Migration 8 (article_documents): articles hold JSON documents
+export const ARTICLE_SEARCH_TRIGGERS_V8_SQL = `
+  CREATE TRIGGER IF NOT EXISTS articles_search_insert AFTER INSERT ON articles BEGIN
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2 + 1, fts_segment(new.title), fts_segment(fts_article_text(new.content)), 'article', NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS articles_search_update AFTER UPDATE ON articles BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2 + 1;
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    VALUES (new.id * 2 + 1, fts_segment(new.title), fts_segment(fts_article_text(new.content)), 'article', NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS articles_search_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2 + 1;
+  END;
+`;
+
+export const SEARCH_REBUILD_V8_SQL = `
+  DELETE FROM search_index;
+
+  INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+  SELECT id * 2, fts_segment(title), fts_segment(text), 'message', conversation_id FROM messages;
+
+  INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+  SELECT id * 2 + 1, fts_segment(title), fts_segment(fts_article_text(content)), 'article', NULL FROM articles;
+`;
+
+// Migration 15 (conversation_encryption): encrypted messages ('enc:v1:'
+// ciphertext) are left out of the index
+export const MESSAGE_SEARCH_TRIGGERS_V15_SQL = `
+  CREATE TRIGGER IF NOT EXISTS messages_search_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    SELECT new.id * 2, fts_segment(new.title), fts_segment(new.text), 'message', new.conversation_id
+    WHERE new.text NOT LIKE 'enc:v1:%';
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_search_update AFTER UPDATE ON messages BEGIN
+    DELETE FROM search_index WHERE rowid = old.id * 2;
+    INSERT INTO search_index(rowid, title, body, kind, conversation_id)
+    SELECT new.id * 2, fts_segment(new.title), fts_segment(new.text), 'message', new.conversation_id
+    WHERE new.text NOT LIKE 'enc:v1:%';
+  END;
+`;
@@ -0,0 +1,530 @@
+import type Database from 'better-sqlite3';
+import {
+  SEARCH_TABLE_V3_SQL,
+  MESSAGE_SEARCH_TRIGGERS_V3_SQL,
+  ARTICLE_SEARCH_TRIGGERS_V3_SQL,
+  SEARCH_REBUILD_V3_SQL,
+  ARTICLE_SEARCH_TRIGGERS_V8_SQL,
+  SEARCH_REBUILD_V8_SQL,
+  MESSAGE_SEARCH_TRIGGERS_V15_SQL,
+} from './migration-snapshots/search-sql';
+import { countWords, parseArticleContent } from './migration-snapshots/article-document-v8';
+import { randomBytes } from 'crypto';
+import { chmodSync, writeFileSync } from 'fs';
+import { hashPassword } from './passwords';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (sqlite: Database.Database) => void;
+}
+
+// Older database files predate some columns; ALTER TABLE ADD COLUMN is not
+// idempotent in SQLite, so check before adding.
+export function addColumnIfMissing(sqlite: Database.Database, table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(col => col.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// SQLite cannot add constraints to an existing table, so copy it into a new
+// table with the wanted definition and swap it in. Must run with foreign keys
+// disabled. Triggers on the old table are dropped and have to be recreated.
+export function rebuildTable(sqlite: Database.Database, table: string, columnsSql: string) {
+  const tempTable = `${table}_rebuild`;
+  const columns = (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[])
+    .map(col => col.name)
+    .join(', ');
+  const sequence = sqlite.prepare('SELECT seq FROM sqlite_sequence WHERE name = ?').get(table) as { seq: number } | undefined;
+
+  sqlite.exec(`
+    CREATE TABLE ${tempTable} (${columnsSql});
+    INSERT INTO ${tempTable} (${columns}) SELECT ${columns} FROM ${table};
+    DROP TABLE ${table};
+    ALTER TABLE ${tempTable} RENAME TO ${table};
+  `);
+
+  // Keep AUTOINCREMENT from handing out ids of rows that were deleted earlier
+  if (sequence) {
+    sqlite.prepare('UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = ?').run(sequence.seq, table);
+  }
+}
+
+// Ordered list of schema migrations. Append new entries with the next version
+// number - never edit or reorder a migration that has already shipped. A
+// migration must not depend on code that keeps changing: SQL and parsing it
+// shares with the app are copied into server/migration-snapshots as they were
+// when it shipped.
+// Every table and column here must match shared/schema.ts (checked at startup).
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (sqlite) => {
+      // Databases created before the migration runner already have these tables
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          conversation_id INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS bubbles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message_id INTEGER NOT NULL,
+          x INTEGER NOT NULL DEFAULT 0,
+          y INTEGER NOT NULL DEFAULT 0,
+          width INTEGER NOT NULL DEFAULT 280,
+          height INTEGER NOT NULL DEFAULT 120,
+          category TEXT NOT NULL DEFAULT 'general',
+          color TEXT NOT NULL DEFAULT 'blue'
+        );
+
+        CREATE TABLE IF NOT EXISTS articles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          bubble_ids TEXT NOT NULL DEFAULT '[]',
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+
+      // Columns added after the first release
+      addColumnIfMissing(sqlite, 'messages', 'title', "TEXT NOT NULL DEFAULT ''");
+      addColumnIfMissing(sqlite, 'messages', 'original_language', 'TEXT');
+      addColumnIfMissing(sqlite, 'messages', 'translated_from', 'INTEGER');
+      addColumnIfMissing(sqlite, 'bubbles', 'title', "TEXT NOT NULL DEFAULT ''");
+    },
+  },
+  {
+    version: 2,
+    name: 'bubble_connections',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS connections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          conversation_id INTEGER NOT NULL,
+          from_bubble_id INTEGER NOT NULL,
+          to_bubble_id INTEGER NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'full_text_search',
+    up: (sqlite) => {
+      sqlite.exec(SEARCH_TABLE_V3_SQL);
+      sqlite.exec(MESSAGE_SEARCH_TRIGGERS_V3_SQL);
+      sqlite.exec(ARTICLE_SEARCH_TRIGGERS_V3_SQL);
+      sqlite.exec(SEARCH_REBUILD_V3_SQL);
+    },
+  },
+  {
+    version: 4,
+    name: 'foreign_keys',
+    up: (sqlite) => {
+      // Existing orphans are copied as-is; /api/integrity reports and repairs them
+      rebuildTable(sqlite, 'messages', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        title TEXT NOT NULL DEFAULT '',
+        original_language TEXT,
+        translated_from INTEGER REFERENCES messages(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+
+      rebuildTable(sqlite, 'bubbles', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        x INTEGER NOT NULL DEFAULT 0,
+        y INTEGER NOT NULL DEFAULT 0,
+        width INTEGER NOT NULL DEFAULT 280,
+        height INTEGER NOT NULL DEFAULT 120,
+        category TEXT NOT NULL DEFAULT 'general',
+        color TEXT NOT NULL DEFAULT 'blue',
+        title TEXT NOT NULL DEFAULT ''
+      `);
+
+      rebuildTable(sqlite, 'connections', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        from_bubble_id INTEGER NOT NULL REFERENCES bubbles(id) ON DELETE CASCADE,
+        to_bubble_id INTEGER NOT NULL REFERENCES bubbles(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+
+      // Rebuilding messages dropped its search triggers
+      sqlite.exec(MESSAGE_SEARCH_TRIGGERS_V3_SQL);
+    },
+  },
+  {
+    version: 5,
+    name: 'message_keywords',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS keywords (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS message_keywords (
+          message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+          keyword_id INTEGER NOT NULL REFERENCES keywords(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (message_id, keyword_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS message_keywords_keyword_id_idx ON message_keywords (keyword_id);
+      `);
+
+      // Until now the single keyword lived in messages.title
+      sqlite.exec(`
+        UPDATE messages SET title = trim(title) WHERE title != trim(title);
+
+        INSERT OR IGNORE INTO keywords (name)
+        SELECT DISTINCT title FROM messages WHERE title != '';
+
+        INSERT OR IGNORE INTO message_keywords (message_id, keyword_id, position)
+        SELECT m.id, k.id, 0 FROM messages m JOIN keywords k ON k.name = m.title;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'article_revisions',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS article_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          article_id INTEGER NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS article_revisions_article_id_idx ON article_revisions (article_id);
+
+        -- Start every existing article's history from its current state
+        INSERT INTO article_revisions (article_id, title, content, created_at)
+        SELECT id, title, content, updated_at FROM articles;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'translation_cache',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS translations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          text_hash TEXT NOT NULL,
+          source_language TEXT NOT NULL,
+          target_language TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          translated_text TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS translations_lookup_idx
+          ON translations (text_hash, source_language, target_language);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'article_documents',
+    up: (sqlite) => {
+      // Article content moves from editor HTML to a JSON document. The search
+      // triggers are recreated to index the document's text instead of HTML.
+      sqlite.exec(`
+        DROP TRIGGER IF EXISTS articles_search_insert;
+        DROP TRIGGER IF EXISTS articles_search_update;
+        DROP TRIGGER IF EXISTS articles_search_delete;
+      `);
+
+      for (const table of ['articles', 'article_revisions']) {
+        const rows = sqlite.prepare(`SELECT id, content FROM ${table}`).all() as { id: number; content: string }[];
+        const update = sqlite.prepare(`UPDATE ${table} SET content = ? WHERE id = ?`);
+        for (const row of rows) {
+          update.run(JSON.stringify(parseArticleContent(row.content)), row.id);
+        }
+      }
+
+      sqlite.exec(ARTICLE_SEARCH_TRIGGERS_V8_SQL);
+      sqlite.exec(SEARCH_REBUILD_V8_SQL);
+    },
+  },
+  {
+    version: 9,
+    name: 'article_conversations',
+    up: (sqlite) => {
+      // Also drops the article search triggers, recreated below
+      rebuildTable(sqlite, 'articles', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        conversation_id INTEGER REFERENCES conversations(id) ON DELETE SET NULL,
+        content TEXT NOT NULL,
+        bubble_ids TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+      sqlite.exec('CREATE INDEX IF NOT EXISTS articles_conversation_id_idx ON articles (conversation_id)');
+
+      const conversations = sqlite.prepare('SELECT id, name FROM conversations').all() as { id: number; name: string }[];
+      const bubbleConversation = sqlite.prepare(`
+        SELECT m.conversation_id AS conversationId FROM bubbles b JOIN messages m ON m.id = b.message_id WHERE b.id = ?
+      `);
+      const update = sqlite.prepare('UPDATE articles SET conversation_id = ?, bubble_ids = ? WHERE id = ?');
+      const rows = sqlite.prepare('SELECT id, title, bubble_ids AS bubbleIds FROM articles').all() as { id: number; title: string; bubbleIds: string }[];
+
+      for (const row of rows) {
+        // bubble_ids was meant to be a JSON array of ids but was not always written as one
+        let bubbleIds: number[] = [];
+        try {
+          const parsed = JSON.parse(row.bubbleIds);
+          if (Array.isArray(parsed)) bubbleIds = parsed.filter(Number.isInteger);
+        } catch {
+          // Not JSON - start from an empty list
+        }
+
+        // The conversation most of the article's bubbles came from, otherwise
+        // one whose name is the article's title
+        const counts = new Map<number, number>();
+        for (const bubbleId of bubbleIds) {
+          const source = bubbleConversation.get(bubbleId) as { conversationId: number } | undefined;
+          if (source) counts.set(source.conversationId, (counts.get(source.conversationId) || 0) + 1);
+        }
+        let conversationId = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+        if (conversationId === null) {
+          const named = conversations.filter(conversation => conversation.name === row.title);
+          if (named.length === 1) conversationId = named[0].id;
+        }
+
+        update.run(conversationId, JSON.stringify(bubbleIds), row.id);
+      }
+
+      sqlite.exec(ARTICLE_SEARCH_TRIGGERS_V8_SQL);
+    },
+  },
+  {
+    version: 10,
+    name: 'article_word_counts',
+    up: (sqlite) => {
+      // Stored so the articles library can sort and page by it in SQL
+      addColumnIfMissing(sqlite, 'articles', 'word_count', 'INTEGER NOT NULL DEFAULT 0');
+
+      const rows = sqlite.prepare('SELECT id, content FROM articles').all() as { id: number; content: string }[];
+      const update = sqlite.prepare('UPDATE articles SET word_count = ? WHERE id = ?');
+      for (const row of rows) {
+        update.run(countWords(parseArticleContent(row.content)), row.id);
+      }
+
+      sqlite.exec('CREATE INDEX IF NOT EXISTS articles_updated_at_idx ON articles (updated_at)');
+    },
+  },
+  {
+    version: 11,
+    name: 'article_versions',
+    up: (sqlite) => {
+      // Lets autosave refuse writes based on an older copy of the article
+      addColumnIfMissing(sqlite, 'articles', 'version', 'INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+  {
+    version: 12,
+    name: 'storage_indexes',
+    up: (sqlite) => {
+      // Loading a conversation reads its messages in order, then their bubbles
+      // and connections; the foreign keys deleting messages and bubbles
+      // cascade through would otherwise scan their whole tables
+      sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS messages_conversation_id_idx ON messages (conversation_id, created_at);
+        CREATE INDEX IF NOT EXISTS messages_translated_from_idx ON messages (translated_from);
+        -- Covers the word counts of the conversation list, which must use the same expression
+        CREATE INDEX IF NOT EXISTS messages_word_count_idx
+          ON messages (conversation_id, (length(text) - length(replace(text, ' ', '')) + 1));
+        CREATE INDEX IF NOT EXISTS bubbles_message_id_idx ON bubbles (message_id);
+        CREATE INDEX IF NOT EXISTS connections_conversation_id_idx ON connections (conversation_id);
+        CREATE INDEX IF NOT EXISTS connections_from_bubble_id_idx ON connections (from_bubble_id);
+        CREATE INDEX IF NOT EXISTS connections_to_bubble_id_idx ON connections (to_bubble_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'user_accounts',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          is_admin INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+
+      // Everything written before accounts existed belongs to this one.
+      // Without ADMIN_PASSWORD the password is made up and written to a file
+      // only the server's user can read, never to the log.
+      const username = process.env.ADMIN_USERNAME || 'admin';
+      const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString('base64url');
+      const { id: adminId } = sqlite
+        .prepare('INSERT INTO users (username, password_hash, is_admin) VALUES (?, ?, 1) RETURNING id')
+        .get(username, hashPassword(password)) as { id: number };
+      if (!process.env.ADMIN_PASSWORD && !sqlite.memory) {
+        const passwordFile = `${sqlite.name}.admin-password`;
+        writeFileSync(passwordFile, `${password}\n`, { mode: 0o600 });
+        // The mode only applies to a new file
+        chmodSync(passwordFile, 0o600);
+        console.log(`🔑 Created admin account "${username}"; its password is in ${passwordFile}`);
+      }
+
+      // Filled in before the rebuilds, which make the owner required
+      for (const table of ['conversations', 'articles', 'keywords']) {
+        addColumnIfMissing(sqlite, table, 'user_id', 'INTEGER');
+        sqlite.prepare(`UPDATE ${table} SET user_id = ?`).run(adminId);
+      }
+
+      rebuildTable(sqlite, 'conversations', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+
+      // Also drops the article search triggers and indexes, recreated below
+      rebuildTable(sqlite, 'articles', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        conversation_id INTEGER REFERENCES conversations(id) ON DELETE SET NULL,
+        content TEXT NOT NULL,
+        bubble_ids TEXT NOT NULL DEFAULT '[]',
+        word_count INTEGER NOT NULL DEFAULT 0,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+
+      // Keyword names were unique across the database; now per owner
+      rebuildTable(sqlite, 'keywords', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      `);
+
+      sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS conversations_user_id_idx ON conversations (user_id, updated_at);
+        CREATE INDEX IF NOT EXISTS articles_user_id_idx ON articles (user_id, updated_at);
+        CREATE INDEX IF NOT EXISTS articles_conversation_id_idx ON articles (conversation_id);
+        CREATE INDEX IF NOT EXISTS articles_updated_at_idx ON articles (updated_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS keywords_user_id_name_idx ON keywords (user_id, name);
+      `);
+      sqlite.exec(ARTICLE_SEARCH_TRIGGERS_V8_SQL);
+    },
+  },
+  {
+    version: 14,
+    name: 'app_lock',
+    up: (sqlite) => {
+      addColumnIfMissing(sqlite, 'users', 'pin_hash', 'TEXT');
+      addColumnIfMissing(sqlite, 'users', 'lock_after_minutes', 'INTEGER NOT NULL DEFAULT 5');
+    },
+  },
+  {
+    version: 15,
+    name: 'conversation_encryption',
+    up: (sqlite) => {
+      addColumnIfMissing(sqlite, 'conversations', 'encryption', 'TEXT');
+
+      // The message search triggers now skip encrypted messages
+      sqlite.exec(`
+        DROP TRIGGER IF EXISTS messages_search_insert;
+        DROP TRIGGER IF EXISTS messages_search_update;
+      `);
+      sqlite.exec(MESSAGE_SEARCH_TRIGGERS_V15_SQL);
+    },
+  },
+  {
+    version: 16,
+    name: 'user_settings',
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          source_language TEXT NOT NULL DEFAULT 'zh',
+          target_language TEXT NOT NULL DEFAULT 'en',
+          bubble_colors TEXT NOT NULL DEFAULT '["blue","green","purple","orange","red"]',
+          tts_voice TEXT,
+          today_talk_name TEXT NOT NULL DEFAULT 'Brain Talk',
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'pin_attempts',
+    up: (sqlite) => {
+      addColumnIfMissing(sqlite, 'users', 'pin_attempts', 'INTEGER NOT NULL DEFAULT 0');
+      addColumnIfMissing(sqlite, 'users', 'pin_locked_until', 'TEXT');
+    },
+  },
+  {
+    version: 18,
+    name: 'search_secure_delete',
+    up: (sqlite) => {
+      // Deleted search entries are removed from the index segments instead of
+      // being masked by delete markers, so text taken out of search (by
+      // encrypting it) doesn't linger there. Optimizing rewrites the index
+      // once without what was deleted before.
+      sqlite.exec(`
+        INSERT INTO search_index(search_index, rank) VALUES('secure-delete', 1);
+        INSERT INTO search_index(search_index) VALUES('optimize');
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'per_user_translations',
+    up: (sqlite) => {
+      // The cache was shared, so a hit told one user that another had
+      // translated the same text. Its rows have no owner to give them and,
+      // being a cache, are dropped.
+      sqlite.exec(`
+        DROP TABLE IF EXISTS translations;
+
+        CREATE TABLE translations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          text_hash TEXT NOT NULL,
+          source_language TEXT NOT NULL,
+          target_language TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          translated_text TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE UNIQUE INDEX translations_lookup_idx
+          ON translations (user_id, text_hash, source_language, target_language);
+      `);
+    },
+  },
+];
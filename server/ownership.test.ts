@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { storage } from "./storage";
+import { createTestApp, createUser, seedConversation, signUp, TEST_PASSWORD } from "./test-utils";
+
+describe("ownership", () => {
+  it("finds the owner of records through their conversation", async () => {
+    const owner = await createUser();
+    const { conversation, messages, bubbles } = await seedConversation(owner.id);
+    const connection = await storage.createConnection({ conversationId: conversation.id, fromBubbleId: bubbles[0].id, toBubbleId: bubbles[1].id });
+    const article = await storage.createArticle(owner.id, { title: "Article", content: { type: "doc", content: [] } });
+
+    expect(await storage.getOwnerId("conversation", conversation.id)).toBe(owner.id);
+    expect(await storage.getOwnerId("message", messages[0].id)).toBe(owner.id);
+    expect(await storage.getOwnerId("bubble", bubbles[0].id)).toBe(owner.id);
+    expect(await storage.getOwnerId("connection", connection.id)).toBe(owner.id);
+    expect(await storage.getOwnerId("article", article.id)).toBe(owner.id);
+    expect(await storage.getOwnerId("message", 999_999)).toBeUndefined();
+  });
+
+  it("lists only the user's own conversations", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const { conversation } = await seedConversation(owner.id);
+
+    expect((await storage.getConversations(owner.id)).map(c => c.id)).toEqual([conversation.id]);
+    expect(await storage.getConversations(other.id)).toEqual([]);
+  });
+
+  it("keeps another user's conversation out of articles", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const { conversation } = await seedConversation(other.id);
+
+    await expect(storage.createArticle(owner.id, { title: "Article", conversationId: conversation.id, content: { type: "doc", content: [] } }))
+      .rejects.toThrow("Conversation not found");
+  });
+
+  it("refuses bulk operations on another user's messages, changing nothing", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const mine = await seedConversation(owner.id);
+    const theirs = await seedConversation(other.id);
+
+    await expect(storage.bulkMessages(owner.id, { action: "delete", messageIds: [mine.messages[0].id, theirs.messages[0].id] }))
+      .rejects.toThrow("Message not found");
+    expect(await storage.getMessage(mine.messages[0].id)).toBeDefined();
+    expect(await storage.getMessage(theirs.messages[0].id)).toBeDefined();
+  });
+
+  it("won't move messages into another user's conversation", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const { messages } = await seedConversation(owner.id);
+    const theirs = await seedConversation(other.id);
+
+    await expect(storage.bulkMessages(owner.id, { action: "move", messageIds: [messages[0].id], targetConversationId: theirs.conversation.id }))
+      .rejects.toThrow("Conversation not found");
+  });
+});
+
+describe("accounts", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("keep the API from anyone signed out", async () => {
+    await request(app).get("/api/conversations").expect(401);
+    await request(app).get("/api/user").expect(401);
+  });
+
+  it("never send password or PIN data", async () => {
+    const agent = await signUp(app);
+    const { body } = await agent.get("/api/user").expect(200);
+    expect(Object.keys(body).sort()).toEqual(["createdAt", "id", "isAdmin", "lockAfterMinutes", "username"]);
+  });
+
+  it("sign in with the password only, and out again", async () => {
+    const { user } = await signUp(app);
+    await request(app).post("/api/register").send({ username: user.username, password: TEST_PASSWORD }).expect(409);
+    await request(app).post("/api/login").send({ username: user.username, password: "wrong-password" }).expect(401);
+
+    const agent = request.agent(app);
+    await agent.post("/api/login").send({ username: user.username, password: TEST_PASSWORD }).expect(200);
+    await agent.get("/api/conversations").expect(200);
+    await agent.post("/api/logout").expect(204);
+    await agent.get("/api/conversations").expect(401);
+  });
+});
+
+describe("ownership routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("answer 404 for another user's records", async () => {
+    const owner = await signUp(app);
+    const stranger = await signUp(app);
+    const { conversation, messages, bubbles } = await seedConversation(owner.user.id);
+
+    await stranger.get(`/api/conversations/${conversation.id}`).expect(404);
+    await stranger.get(`/api/conversations/${conversation.id}/messages`).expect(404);
+    await stranger.patch(`/api/messages/${messages[0].id}`).send({ text: "changed" }).expect(404);
+    await stranger.delete(`/api/bubbles/${bubbles[0].id}`).expect(404);
+    await stranger.post("/api/messages").send({ conversationId: conversation.id, text: "hello" }).expect(404);
+    await stranger.post("/api/bubbles").send({ messageId: messages[0].id }).expect(404);
+
+    const { body: list } = await stranger.get("/api/conversations").expect(200);
+    expect(list).toEqual([]);
+    const { body: page } = await owner.get(`/api/conversations/${conversation.id}/messages`).expect(200);
+    expect(page.map((message: { text: string }) => message.text)).toEqual(["first message", "second message"]);
+  });
+
+  it("refuse a bulk delete that includes another user's message", async () => {
+    const owner = await signUp(app);
+    const stranger = await signUp(app);
+    const { messages } = await seedConversation(owner.user.id);
+    const theirs = await seedConversation(stranger.user.id);
+
+    await owner.post("/api/messages/bulk")
+      .send({ action: "delete", messageIds: [messages[0].id, theirs.messages[0].id] })
+      .expect(404, { message: "Message not found" });
+    const { body } = await stranger.get(`/api/conversations/${theirs.conversation.id}/messages`).expect(200);
+    expect(body).toHaveLength(2);
+  });
+
+  it("search only the user's own messages", async () => {
+    const owner = await signUp(app);
+    const stranger = await signUp(app);
+    await seedConversation(owner.user.id);
+
+    const { body: found } = await owner.get("/api/search?q=second").expect(200);
+    expect(found).toHaveLength(1);
+    const { body: none } = await stranger.get("/api/search?q=second").expect(200);
+    expect(none).toEqual([]);
+  });
+});
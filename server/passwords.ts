@@ -0,0 +1,21 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Passwords are stored as "<salt>:<hash>", both hex, with a fresh random salt
+// per password. Kept free of other server modules so migrations can use it.
+
+const KEY_LENGTH = 64;
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { connectionChains, renderBubbleCanvasPdf } from "./pdf-export";
+import { createTestApp, createUser, seedConversation, signUp } from "./test-utils";
+
+// jsPDF lists the built-in fonts in every file; only TrueType fonts are embedded
+const embedsFont = (pdf: Buffer) => pdf.toString("latin1").includes("/FontFile2");
+
+async function canvas(texts: string[]) {
+  const user = await createUser();
+  const { conversation } = await seedConversation(user.id, texts);
+  const bubbles = await storage.getBubblesByConversation(conversation.id);
+  return { conversation, bubbles };
+}
+
+describe("connectionChains", () => {
+  it("follows each chain from its start, then picks up cycles", async () => {
+    const { conversation, bubbles } = await canvas(["a", "b", "c", "d", "e", "f"]);
+    const [a, b, c, d, e, f] = bubbles;
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: a.id, toBubbleId: b.id });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: b.id, toBubbleId: c.id });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: d.id, toBubbleId: e.id });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: e.id, toBubbleId: f.id });
+    await storage.createConnection({ conversationId: conversation.id, fromBubbleId: f.id, toBubbleId: d.id });
+    const connections = await storage.getConnectionsByConversation(conversation.id);
+
+    expect(connectionChains(bubbles, connections).map(chain => chain.map(bubble => bubble.message.text)))
+      .toEqual([["a", "b", "c"], ["d", "e", "f"]]);
+  });
+});
+
+describe("renderBubbleCanvasPdf", () => {
+  it("sets Latin text in the built-in fonts", async () => {
+    const { conversation, bubbles } = await canvas(["reading list", "café"]);
+    const pdf = renderBubbleCanvasPdf(conversation, bubbles, []);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(embedsFont(pdf)).toBe(false);
+  });
+
+  it("embeds a font for Chinese text", async () => {
+    const { conversation, bubbles } = await canvas(["我喜欢读书"]);
+    const pdf = renderBubbleCanvasPdf(conversation, bubbles, []);
+
+    expect(embedsFont(pdf)).toBe(true);
+  });
+
+  it("draws a canvas without bubbles", async () => {
+    const { conversation } = await canvas([]);
+    expect(renderBubbleCanvasPdf(conversation, [], []).subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
+
+describe("PDF export route", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("sends the owner's canvas as a PDF", async () => {
+    const agent = await signUp(app);
+    const { conversation } = await seedConversation(agent.user.id);
+
+    const response = await agent.get(`/api/export-pdf/${conversation.id}`).expect(200);
+    expect(response.headers["content-type"]).toBe("application/pdf");
+    expect(response.headers["content-disposition"]).toContain("Notes%20-%20bubbles.pdf");
+  });
+
+  it("won't export another user's conversation", async () => {
+    const agent = await signUp(app);
+    const stranger = await signUp(app);
+    const { conversation } = await seedConversation(stranger.user.id);
+
+    await agent.get(`/api/export-pdf/${conversation.id}`).expect(404);
+  });
+});
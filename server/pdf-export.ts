@@ -0,0 +1,373 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { basename } from 'path';
+import { jsPDF } from 'jspdf';
+import type { BubbleWithMessage, Connection, Conversation } from "@shared/schema";
+
+// Renders a conversation's bubble canvas to PDF. The canvas is drawn to scale
+// and tiled over as many landscape pages as it needs, followed by an appendix
+// that lists the connection chains in reading order.
+//
+// The built-in PDF fonts only cover Latin-1. A document with any other text is
+// set in the Noto font the article PDFs bundle for its script (Chinese by
+// default, Japanese with kana, Korean with hangul), or in the TrueType font
+// PDF_FONT_PATH points at. jsPDF embeds only the glyphs it uses.
+
+// Tailwind 100/700/200 shades, matching bubble-card.tsx
+const BUBBLE_COLORS: Record<string, { fill: string; text: string; border: string }> = {
+  blue: { fill: '#dbeafe', text: '#1d4ed8', border: '#bfdbfe' },
+  green: { fill: '#dcfce7', text: '#15803d', border: '#bbf7d0' },
+  purple: { fill: '#f3e8ff', text: '#7e22ce', border: '#e9d5ff' },
+  orange: { fill: '#ffedd5', text: '#c2410c', border: '#fed7aa' },
+  red: { fill: '#fee2e2', text: '#b91c1c', border: '#fecaca' },
+};
+const CONNECTION_COLOR = '#7c3aed';
+
+// Page geometry in mm; SCALE converts canvas pixels to mm
+const MARGIN = 12;
+const HEADER_HEIGHT = 8;
+const SCALE = 0.3;
+const BUBBLE_PADDING = 8;
+const LINE_HEIGHT_FACTOR = 1.25;
+
+const require = createRequire(import.meta.url);
+
+const NOTO_FONTS = {
+  sc: { normal: '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf', bold: '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf' },
+  jp: { normal: '@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf', bold: '@expo-google-fonts/noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf' },
+  kr: { normal: '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf', bold: '@expo-google-fonts/noto-sans-kr/700Bold/NotoSansKR_700Bold.ttf' },
+};
+
+// What helvetica can draw
+const LATIN_1 = /^[\t\n\r\x20-\x7e\xa0-\xff]*$/;
+
+export class PdfFontError extends Error {}
+
+// Font files as base64, read from disk once per process
+const fontFiles = new Map<string, string>();
+
+function loadFont(path: string): string {
+  let data = fontFiles.get(path);
+  if (data === undefined) {
+    try {
+      data = readFileSync(path).toString('base64');
+    } catch {
+      throw new PdfFontError(`Can't read the PDF font ${path}`);
+    }
+    fontFiles.set(path, data);
+  }
+  return data;
+}
+
+function fontPaths(texts: string[]): { normal: string; bold: string } {
+  const fontPath = process.env.PDF_FONT_PATH;
+  if (fontPath) return { normal: fontPath, bold: fontPath };
+
+  const all = texts.join('\n');
+  const noto = /[\u3040-\u30ff]/.test(all) ? NOTO_FONTS.jp : /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/.test(all) ? NOTO_FONTS.kr : NOTO_FONTS.sc;
+  try {
+    return { normal: require.resolve(noto.normal), bold: require.resolve(noto.bold) };
+  } catch {
+    throw new PdfFontError("The Noto fonts for non-Latin text aren't installed; set PDF_FONT_PATH to a TrueType font instead");
+  }
+}
+
+// Registers the font the document's texts need and returns its family
+function registerExportFont(doc: jsPDF, texts: string[]): string {
+  if (!process.env.PDF_FONT_PATH && texts.every(text => LATIN_1.test(text))) return 'helvetica';
+
+  const paths = fontPaths(texts);
+  for (const style of ['normal', 'bold'] as const) {
+    const file = `${style}-${basename(paths[style])}`;
+    doc.addFileToVFS(file, loadFont(paths[style]));
+    doc.addFont(file, 'export', style);
+  }
+  return 'export';
+}
+
+export function bubbleKeyword(bubble: BubbleWithMessage): string {
+  return bubble.title || bubble.message.title || '';
+}
+
+// Same ordering as the "Create Bubbles" layout in bubbles.tsx: each chain
+// starts at a bubble with outgoing but no incoming connections and follows the
+// earliest outgoing connection; connected bubbles left over (cycles) start
+// chains of their own.
+export function connectionChains(bubbles: BubbleWithMessage[], connections: Connection[]): BubbleWithMessage[][] {
+  const byId = new Map(bubbles.map(bubble => [bubble.id, bubble]));
+  const ordered = [...connections].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+  const visited = new Set<number>();
+  const chains: BubbleWithMessage[][] = [];
+
+  const follow = (startId: number) => {
+    const chain: BubbleWithMessage[] = [];
+    let currentId: number | undefined = startId;
+    while (currentId !== undefined && !visited.has(currentId)) {
+      const bubble = byId.get(currentId);
+      if (!bubble) break;
+      visited.add(currentId);
+      chain.push(bubble);
+      currentId = ordered.find(connection => connection.fromBubbleId === currentId)?.toBubbleId;
+    }
+    if (chain.length > 0) chains.push(chain);
+  };
+
+  const starts = bubbles.filter(bubble =>
+    connections.some(connection => connection.fromBubbleId === bubble.id) &&
+    !connections.some(connection => connection.toBubbleId === bubble.id)
+  );
+  starts.forEach(bubble => follow(bubble.id));
+
+  bubbles
+    .filter(bubble => connections.some(connection => connection.fromBubbleId === bubble.id || connection.toBubbleId === bubble.id))
+    .forEach(bubble => follow(bubble.id));
+
+  return chains;
+}
+
+interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function intersects(tile: Tile, x: number, y: number, width: number, height: number): boolean {
+  return x < tile.x + tile.width && x + width > tile.x && y < tile.y + tile.height && y + height > tile.y;
+}
+
+function drawBubble(doc: jsPDF, font: string, bubble: BubbleWithMessage, left: number, top: number) {
+  const colors = BUBBLE_COLORS[bubble.color] || BUBBLE_COLORS.blue;
+  const width = bubble.width * SCALE;
+  const height = bubble.height * SCALE;
+  const padding = BUBBLE_PADDING * SCALE;
+  const innerWidth = width - padding * 2;
+
+  doc.setDrawColor(colors.border);
+  doc.setFillColor(colors.fill);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(left, top, width, height, 2, 2, 'FD');
+
+  let y = top + padding;
+  const keyword = bubbleKeyword(bubble);
+  if (keyword) {
+    doc.setFont(font, 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(colors.text);
+    const line = doc.splitTextToSize(keyword, innerWidth)[0];
+    doc.text(line, left + padding, y, { baseline: 'top' });
+    y += doc.getLineHeight() / doc.internal.scaleFactor + 1;
+  }
+
+  doc.setFont(font, 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor('#1f2937');
+  const lineHeight = (8 * LINE_HEIGHT_FACTOR) / doc.internal.scaleFactor;
+  const maxLines = Math.max(0, Math.floor((top + height - padding - y) / lineHeight));
+  const lines: string[] = doc.splitTextToSize(bubble.message.text, innerWidth);
+  const shown = lines.slice(0, maxLines);
+  if (lines.length > maxLines && shown.length > 0) {
+    shown[shown.length - 1] = shown[shown.length - 1].replace(/.$/, '') + '…';
+  }
+  shown.forEach((line, index) => {
+    doc.text(line, left + padding, y + index * lineHeight, { baseline: 'top' });
+  });
+}
+
+// Line from centre to centre with an arrow head just short of the target,
+// like renderConnections() in bubbles.tsx
+function drawConnection(doc: jsPDF, from: BubbleWithMessage, to: BubbleWithMessage, originX: number, originY: number) {
+  const fromX = originX + (from.x + from.width / 2) * SCALE;
+  const fromY = originY + (from.y + from.height / 2) * SCALE;
+  const toX = originX + (to.x + to.width / 2) * SCALE;
+  const toY = originY + (to.y + to.height / 2) * SCALE;
+
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  const tipX = toX - Math.cos(angle) * 20 * SCALE;
+  const tipY = toY - Math.sin(angle) * 20 * SCALE;
+  const arrowLength = 12 * SCALE;
+  const arrowAngle = Math.PI / 6;
+
+  doc.setDrawColor(CONNECTION_COLOR);
+  doc.setFillColor(CONNECTION_COLOR);
+  doc.setLineWidth(3 * SCALE);
+  doc.line(fromX, fromY, tipX, tipY);
+  doc.triangle(
+    tipX, tipY,
+    tipX - arrowLength * Math.cos(angle - arrowAngle), tipY - arrowLength * Math.sin(angle - arrowAngle),
+    tipX - arrowLength * Math.cos(angle + arrowAngle), tipY - arrowLength * Math.sin(angle + arrowAngle),
+    'F',
+  );
+  doc.circle(fromX, fromY, 5 * SCALE, 'F');
+}
+
+function drawHeader(doc: jsPDF, font: string, text: string, pageWidth: number) {
+  doc.setFont(font, 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor('#111827');
+  doc.text(text, MARGIN, MARGIN, { baseline: 'top', maxWidth: pageWidth - MARGIN * 2 });
+}
+
+function drawAppendix(doc: jsPDF, font: string, title: string, chains: BubbleWithMessage[][]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - MARGIN * 2 - 8;
+
+  doc.addPage();
+  drawHeader(doc, font, `${title} - Connection chains`, pageWidth);
+  let y = MARGIN + HEADER_HEIGHT + 2;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  if (chains.length === 0) {
+    doc.setFont(font, 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor('#6b7280');
+    doc.text('No connections between bubbles.', MARGIN, y, { baseline: 'top' });
+    return;
+  }
+
+  chains.forEach((chain, chainIndex) => {
+    ensureSpace(12);
+    doc.setFont(font, 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(CONNECTION_COLOR);
+    const summary = chain.map(bubble => bubbleKeyword(bubble) || `#${bubble.id}`).join(font === 'helvetica' ? ' -> ' : ' → ');
+    const heading: string[] = doc.splitTextToSize(`Chain ${chainIndex + 1}: ${summary}`, pageWidth - MARGIN * 2);
+    heading.forEach(line => {
+      ensureSpace(6);
+      doc.text(line, MARGIN, y, { baseline: 'top' });
+      y += 5.5;
+    });
+    y += 1;
+
+    chain.forEach((bubble, index) => {
+      const colors = BUBBLE_COLORS[bubble.color] || BUBBLE_COLORS.blue;
+      doc.setFont(font, 'bold');
+      doc.setFontSize(9);
+      ensureSpace(10);
+      doc.setTextColor(colors.text);
+      const label = `${index + 1}. ${bubbleKeyword(bubble) || 'Untitled'}  (x ${bubble.x}, y ${bubble.y}, ${bubble.color})`;
+      doc.text(label, MARGIN + 4, y, { baseline: 'top', maxWidth: textWidth + 4 });
+      y += 4.5;
+
+      doc.setFont(font, 'normal');
+      doc.setTextColor('#1f2937');
+      const lines: string[] = doc.splitTextToSize(bubble.message.text, textWidth);
+      lines.forEach(line => {
+        ensureSpace(4.5);
+        doc.text(line, MARGIN + 8, y, { baseline: 'top' });
+        y += 4.2;
+      });
+      y += 2;
+    });
+    y += 4;
+  });
+}
+
+export function renderBubbleCanvasPdf(
+  conversation: Conversation,
+  bubbles: BubbleWithMessage[],
+  connections: Connection[],
+): Buffer {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const font = registerExportFont(doc, [
+    conversation.name,
+    ...bubbles.flatMap(bubble => [bubbleKeyword(bubble), bubble.message.text]),
+  ]);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const title = conversation.name;
+
+  doc.setProperties({ title: `${conversation.name} - Bubbles` });
+
+  if (bubbles.length === 0) {
+    drawHeader(doc, font, title, pageWidth);
+    doc.setFont(font, 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor('#6b7280');
+    doc.text('This conversation has no bubbles yet.', MARGIN, MARGIN + HEADER_HEIGHT + 2, { baseline: 'top' });
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+
+  const byId = new Map(bubbles.map(bubble => [bubble.id, bubble]));
+  const drawable = connections.filter(connection => byId.has(connection.fromBubbleId) && byId.has(connection.toBubbleId));
+
+  // Canvas area covered by bubbles, in pixels
+  const minX = Math.min(...bubbles.map(bubble => bubble.x));
+  const minY = Math.min(...bubbles.map(bubble => bubble.y));
+  const maxX = Math.max(...bubbles.map(bubble => bubble.x + bubble.width));
+  const maxY = Math.max(...bubbles.map(bubble => bubble.y + bubble.height));
+
+  const areaLeft = MARGIN;
+  const areaTop = MARGIN + HEADER_HEIGHT;
+  const areaWidth = pageWidth - MARGIN * 2;
+  const areaHeight = pageHeight - areaTop - MARGIN;
+  const tileWidth = areaWidth / SCALE;
+  const tileHeight = areaHeight / SCALE;
+  const columns = Math.ceil((maxX - minX) / tileWidth);
+  const rows = Math.ceil((maxY - minY) / tileHeight);
+
+  // Pages with nothing on them are left out
+  const tiles: (Tile & { row: number; column: number })[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const tile = { x: minX + column * tileWidth, y: minY + row * tileHeight, width: tileWidth, height: tileHeight, row, column };
+      const hasBubble = bubbles.some(bubble => intersects(tile, bubble.x, bubble.y, bubble.width, bubble.height));
+      const hasLine = drawable.some(connection => {
+        const from = byId.get(connection.fromBubbleId)!;
+        const to = byId.get(connection.toBubbleId)!;
+        const left = Math.min(from.x + from.width / 2, to.x + to.width / 2);
+        const top = Math.min(from.y + from.height / 2, to.y + to.height / 2);
+        const right = Math.max(from.x + from.width / 2, to.x + to.width / 2);
+        const bottom = Math.max(from.y + from.height / 2, to.y + to.height / 2);
+        return intersects(tile, left, top, Math.max(right - left, 1), Math.max(bottom - top, 1));
+      });
+      if (hasBubble || hasLine) tiles.push(tile);
+    }
+  }
+
+  tiles.forEach((tile, index) => {
+    if (index > 0) doc.addPage();
+    const position = rows * columns > 1 ? ` (row ${tile.row + 1}, column ${tile.column + 1})` : '';
+    drawHeader(doc, font, `${title}${position}`, pageWidth);
+
+    // Canvas origin on this page; everything is clipped to the drawing area
+    const originX = areaLeft - tile.x * SCALE;
+    const originY = areaTop - tile.y * SCALE;
+
+    doc.saveGraphicsState();
+    doc.rect(areaLeft, areaTop, areaWidth, areaHeight, null);
+    doc.clip();
+    doc.discardPath();
+
+    // Connections sit behind the bubbles, as on screen
+    drawable.forEach(connection => {
+      drawConnection(doc, byId.get(connection.fromBubbleId)!, byId.get(connection.toBubbleId)!, originX, originY);
+    });
+    bubbles
+      .filter(bubble => intersects(tile, bubble.x, bubble.y, bubble.width, bubble.height))
+      .forEach(bubble => drawBubble(doc, font, bubble, originX + bubble.x * SCALE, originY + bubble.y * SCALE));
+
+    doc.restoreGraphicsState();
+  });
+
+  drawAppendix(doc, font, title, connectionChains(bubbles, drawable));
+
+  // Page numbers once the total is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont(font, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor('#9ca3af');
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN / 2, { align: 'right' });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -1,22 +1,78 @@
-import type { Express } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertConversationSchema, insertMessageSchema, insertBubbleSchema, insertArticleSchema } from "@shared/schema";
+import { storage, type OwnedResource } from "./storage";
+import { setupAuth, requireAdmin } from "./auth";
+import { setupLock } from "./lock";
+import { insertConversationSchema, insertMessageSchema, messagePageQuerySchema, messageSourcesQuerySchema, insertBubbleSchema, bubbleLayoutSchema, recreateBubblesSchema, insertArticleSchema, updateArticleSchema, articleListQuerySchema, insertConnectionSchema, insertKeywordSchema, translateRequestSchema, bulkMessageOperationSchema, conversationEncryptionUpdateSchema, updateSettingsSchema, type TranslateResponse } from "@shared/schema";
+import { getTranslationProvider, hashText, TranslationError, translationProviderNames } from "./translation";
+import { renderBubbleCanvasPdf, PdfFontError } from "./pdf-export";
 import { z } from "zod";
 
+const resourceNames: Record<OwnedResource, string> = {
+  conversation: "Conversation",
+  message: "Message",
+  bubble: "Bubble",
+  connection: "Connection",
+  article: "Article",
+  keyword: "Keyword",
+};
+
+// Whether every one of the given records belongs to the signed-in user;
+// missing ids (null, undefined) are skipped
+async function ownsAll(req: Request, resource: OwnedResource, ids: (number | null | undefined)[]): Promise<boolean> {
+  for (const id of ids) {
+    if (id == null) continue;
+    if (await storage.getOwnerId(resource, id) !== req.user!.id) return false;
+  }
+  return true;
+}
+
+// Someone else's records answer 404, the same as ones that don't exist
+function requireOwner(resource: OwnedResource, param = "id"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (await ownsAll(req, resource, [parseInt(req.params[param])])) return next();
+      res.status(404).json({ message: `${resourceNames[resource]} not found` });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// What encrypted conversations refuse to do, and the status that says so
+const encryptionRefusals: Record<string, number> = {
+  "Encrypted conversations only take encrypted text": 400,
+  "Conversation is not encrypted": 400,
+  "Keywords aren't available in encrypted conversations": 409,
+  "Encrypted messages can't be moved or copied": 409,
+  "Conversation changed - reload and try again": 409,
+  "Articles quote this conversation - remove the quotes first": 409,
+};
+
+// Answers with the refusal if the error is one; false otherwise
+function sendEncryptionRefusal(res: Response, error: unknown): boolean {
+  if (!(error instanceof Error) || !(error.message in encryptionRefusals)) return false;
+  res.status(encryptionRefusals[error.message]).json({ message: error.message });
+  return true;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  // Sessions, sign-in routes, and the sign-in requirement for the rest of /api
+  setupAuth(app);
+  // App lock routes; past them, /api also needs the app unlocked
+  setupLock(app);
+
   // Conversations
   app.get("/api/conversations", async (req, res) => {
     try {
-      const conversations = await storage.getConversations();
+      const conversations = await storage.getConversations(req.user!.id);
       res.json(conversations);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch conversations" });
     }
   });
 
-  app.get("/api/conversations/:id", async (req, res) => {
+  app.get("/api/conversations/:id", requireOwner("conversation"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const conversation = await storage.getConversation(id);
@@ -32,7 +88,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/conversations", async (req, res) => {
     try {
       const conversationData = insertConversationSchema.parse(req.body);
-      const conversation = await storage.createConversation(conversationData);
+      const conversation = await storage.createConversation(req.user!.id, conversationData);
       res.status(201).json(conversation);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -42,7 +98,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/conversations/:id", async (req, res) => {
+  app.patch("/api/conversations/:id", requireOwner("conversation"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = insertConversationSchema.partial().parse(req.body);
@@ -59,7 +115,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/conversations/:id", async (req, res) => {
+  app.post("/api/conversations/:id/duplicate", requireOwner("conversation"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const conversation = await storage.duplicateConversation(id);
+      res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Conversation not found") {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.status(500).json({ message: "Failed to duplicate conversation" });
+    }
+  });
+
+  // Turns encryption on or off, or changes the passphrase. The browser sends
+  // every message and bubble of the conversation rewritten for the new state.
+  app.put("/api/conversations/:id/encryption", requireOwner("conversation"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const update = conversationEncryptionUpdateSchema.parse(req.body);
+      const conversation = await storage.setConversationEncryption(id, update);
+      res.json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid encryption data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Conversation not found") {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (sendEncryptionRefusal(res, error)) return;
+      res.status(500).json({ message: "Failed to update conversation encryption" });
+    }
+  });
+
+  app.delete("/api/conversations/:id", requireOwner("conversation"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteConversation(id);
@@ -70,33 +159,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Messages
-  app.get("/api/conversations/:conversationId/messages", async (req, res) => {
+  // With any of ?before=, ?after=, ?around=, ?date= or ?limit= a page of
+  // messages; without, all of them (the bubble canvas lays out every one)
+  app.get("/api/conversations/:conversationId/messages", requireOwner("conversation", "conversationId"), async (req, res) => {
     try {
       const conversationId = parseInt(req.params.conversationId);
+      const paged = ["before", "after", "around", "date", "limit"].some(key => key in req.query);
+      if (paged) {
+        const query = messagePageQuerySchema.parse(req.query);
+        return res.json(await storage.getMessagePage(conversationId, query));
+      }
       const messages = await storage.getMessagesByConversation(conversationId);
       res.json(messages);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message page query", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Message not found") {
+        return res.status(404).json({ message: "Message not found" });
+      }
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
+  // Details of the messages articles cite, for hover cards and footnotes
+  app.get("/api/messages/sources", async (req, res) => {
+    try {
+      const { ids } = messageSourcesQuerySchema.parse(req.query);
+      const sources = await storage.getMessageSources(req.user!.id, ids);
+      res.json(sources);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message ids", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch message sources" });
+    }
+  });
+
   app.post("/api/messages", async (req, res) => {
     try {
       const messageData = insertMessageSchema.parse(req.body);
+      if (!(await ownsAll(req, "conversation", [messageData.conversationId]))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!(await ownsAll(req, "message", [messageData.translatedFrom]))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
       const message = await storage.createMessage(messageData);
       res.status(201).json(message);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid message data", errors: error.errors });
       }
+      if (sendEncryptionRefusal(res, error)) return;
       res.status(500).json({ message: "Failed to create message" });
     }
   });
 
-  app.patch("/api/messages/:id", async (req, res) => {
+  app.post("/api/messages/bulk", async (req, res) => {
+    try {
+      const operation = bulkMessageOperationSchema.parse(req.body);
+      const result = await storage.bulkMessages(req.user!.id, operation);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk operation", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Message not found" || error.message === "Conversation not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (sendEncryptionRefusal(res, error)) return;
+      res.status(500).json({ message: "Failed to apply bulk operation" });
+    }
+  });
+
+  app.patch("/api/messages/:id", requireOwner("message"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = insertMessageSchema.partial().parse(req.body);
+      if (!(await ownsAll(req, "conversation", [updates.conversationId]))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!(await ownsAll(req, "message", [updates.translatedFrom]))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
       const message = await storage.updateMessage(id, updates);
       res.json(message);
     } catch (error) {
@@ -106,11 +252,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.message === "Message not found") {
         return res.status(404).json({ message: "Message not found" });
       }
+      if (sendEncryptionRefusal(res, error)) return;
       res.status(500).json({ message: "Failed to update message" });
     }
   });
 
-  app.delete("/api/messages/:id", async (req, res) => {
+  app.put("/api/messages/:id/keywords", requireOwner("message"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { keywords } = z.object({ keywords: z.array(z.string()) }).parse(req.body);
+      const saved = await storage.setMessageKeywords(id, keywords);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid keyword data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Message not found") {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (sendEncryptionRefusal(res, error)) return;
+      res.status(500).json({ message: "Failed to update message keywords" });
+    }
+  });
+
+  app.delete("/api/messages/:id", requireOwner("message"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteMessage(id);
@@ -121,7 +286,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bubbles
-  app.get("/api/conversations/:conversationId/bubbles", async (req, res) => {
+  app.get("/api/conversations/:conversationId/bubbles", requireOwner("conversation", "conversationId"), async (req, res) => {
     try {
       const conversationId = parseInt(req.params.conversationId);
       const bubbles = await storage.getBubblesByConversation(conversationId);
@@ -131,23 +296,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/conversations/:conversationId/bubbles/layout", requireOwner("conversation", "conversationId"), async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const layout = bubbleLayoutSchema.parse(req.body);
+      const bubbles = await storage.updateBubbleLayout(conversationId, layout);
+      res.json(bubbles);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bubble layout", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Bubble not found" || error.message === "Conversation not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update bubble layout" });
+    }
+  });
+
+  app.post("/api/conversations/:conversationId/bubbles/recreate", requireOwner("conversation", "conversationId"), async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const request = recreateBubblesSchema.parse(req.body);
+      const bubbles = await storage.recreateBubbles(conversationId, request);
+      res.json(bubbles);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bubble data", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Message not found" || error.message === "Conversation not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (sendEncryptionRefusal(res, error)) return;
+      res.status(500).json({ message: "Failed to recreate bubbles" });
+    }
+  });
+
   app.post("/api/bubbles", async (req, res) => {
     try {
       const bubbleData = insertBubbleSchema.parse(req.body);
+      if (!(await ownsAll(req, "message", [bubbleData.messageId]))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
       const bubble = await storage.createBubble(bubbleData);
       res.status(201).json(bubble);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid bubble data", errors: error.errors });
       }
+      if (sendEncryptionRefusal(res, error)) return;
       res.status(500).json({ message: "Failed to create bubble" });
     }
   });
 
-  app.patch("/api/bubbles/:id", async (req, res) => {
+  app.patch("/api/bubbles/:id", requireOwner("bubble"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = insertBubbleSchema.partial().parse(req.body);
+      if (!(await ownsAll(req, "message", [updates.messageId]))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
       const bubble = await storage.updateBubble(id, updates);
       res.json(bubble);
     } catch (error) {
@@ -157,11 +364,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.message === "Bubble not found") {
         return res.status(404).json({ message: "Bubble not found" });
       }
+      if (sendEncryptionRefusal(res, error)) return;
       res.status(500).json({ message: "Failed to update bubble" });
     }
   });
 
-  app.delete("/api/bubbles/:id", async (req, res) => {
+  app.delete("/api/bubbles/:id", requireOwner("bubble"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteBubble(id);
@@ -171,17 +379,190 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bubble canvas as a PDF, opened in a new tab from the bubbles page
+  app.get("/api/export-pdf/:id", requireOwner("conversation"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const conversation = await storage.getConversation(id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      // The server can't read what it would have to draw
+      if (conversation.encryption) {
+        return res.status(409).json({ message: "PDF export isn't available for encrypted conversations" });
+      }
+
+      const bubbles = await storage.getBubblesByConversation(id);
+      const connections = await storage.getConnectionsByConversation(id);
+      const pdf = renderBubbleCanvasPdf(conversation, bubbles, connections);
+
+      const filename = `${conversation.name.replace(/[\\/:*?"<>|]+/g, "_")} - bubbles.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(filename)}`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof PdfFontError) {
+        return res.status(500).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to export PDF" });
+    }
+  });
+
+  // Connections
+  app.get("/api/conversations/:conversationId/connections", requireOwner("conversation", "conversationId"), async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const connections = await storage.getConnectionsByConversation(conversationId);
+      res.json(connections);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch connections" });
+    }
+  });
+
+  app.post("/api/conversations/:conversationId/connections", requireOwner("conversation", "conversationId"), async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const connectionData = insertConnectionSchema.parse({ ...req.body, conversationId });
+      if (!(await ownsAll(req, "bubble", [connectionData.fromBubbleId, connectionData.toBubbleId]))) {
+        return res.status(404).json({ message: "Bubble not found" });
+      }
+      const connection = await storage.createConnection(connectionData);
+      res.status(201).json(connection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid connection data", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Cannot connect a bubble to itself" || error.message === "Bubbles must belong to the conversation")) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Connection already exists") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create connection" });
+    }
+  });
+
+  // Bulk import used to migrate connections that were kept in localStorage
+  app.post("/api/conversations/:conversationId/connections/import", requireOwner("conversation", "conversationId"), async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const { connections: incoming } = z.object({
+        connections: z.array(insertConnectionSchema.omit({ conversationId: true })),
+      }).parse(req.body);
+      const connections = await storage.importConnections(conversationId, incoming);
+      res.json(connections);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid connection data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to import connections" });
+    }
+  });
+
+  app.delete("/api/conversations/:conversationId/connections/:id", requireOwner("connection"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteConnection(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete connection" });
+    }
+  });
+
+  // Keywords
+  app.get("/api/keywords", async (req, res) => {
+    try {
+      const keywords = await storage.getKeywords(req.user!.id);
+      res.json(keywords);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch keywords" });
+    }
+  });
+
+  app.patch("/api/keywords/:id", requireOwner("keyword"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { name } = insertKeywordSchema.parse(req.body);
+      const keyword = await storage.renameKeyword(id, name);
+      res.json(keyword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid keyword data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Keyword not found") {
+        return res.status(404).json({ message: "Keyword not found" });
+      }
+      if (error instanceof Error && error.message === "Keyword already exists") {
+        return res.status(409).json({ message: "Keyword already exists - merge the keywords instead" });
+      }
+      res.status(500).json({ message: "Failed to rename keyword" });
+    }
+  });
+
+  app.post("/api/keywords/:id/merge", requireOwner("keyword"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { targetId } = z.object({ targetId: z.number().int() }).parse(req.body);
+      if (!(await ownsAll(req, "keyword", [targetId]))) {
+        return res.status(404).json({ message: "Keyword not found" });
+      }
+      const keyword = await storage.mergeKeywords(id, targetId);
+      res.json(keyword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid merge data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Cannot merge a keyword into itself") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Keyword not found") {
+        return res.status(404).json({ message: "Keyword not found" });
+      }
+      res.status(500).json({ message: "Failed to merge keywords" });
+    }
+  });
+
+  app.delete("/api/keywords/:id", requireOwner("keyword"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteKeyword(id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === "Keyword not found") {
+        return res.status(404).json({ message: "Keyword not found" });
+      }
+      res.status(500).json({ message: "Failed to delete keyword" });
+    }
+  });
+
   // Articles
   app.get("/api/articles", async (req, res) => {
     try {
-      const articles = await storage.getArticles();
+      const query = articleListQuerySchema.parse(req.query);
+      const page = await storage.getArticles(req.user!.id, query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid article query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch articles" });
+    }
+  });
+
+  app.get("/api/conversations/:id/articles", requireOwner("conversation"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const articles = await storage.getArticlesByConversation(id);
       res.json(articles);
     } catch (error) {
+      if (error instanceof Error && error.message === "Conversation not found") {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
       res.status(500).json({ message: "Failed to fetch articles" });
     }
   });
 
-  app.get("/api/articles/:id", async (req, res) => {
+  app.get("/api/articles/:id", requireOwner("article"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const article = await storage.getArticle(id);
@@ -197,34 +578,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/articles", async (req, res) => {
     try {
       const articleData = insertArticleSchema.parse(req.body);
-      const article = await storage.createArticle(articleData);
+      const article = await storage.createArticle(req.user!.id, articleData);
       res.status(201).json(article);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid article data", errors: error.errors });
       }
+      if (error instanceof Error && error.message === "Conversation not found") {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
       res.status(500).json({ message: "Failed to create article" });
     }
   });
 
-  app.patch("/api/articles/:id", async (req, res) => {
+  app.patch("/api/articles/:id", requireOwner("article"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = insertArticleSchema.partial().parse(req.body);
-      const article = await storage.updateArticle(id, updates);
+      const { version, revision, ...updates } = updateArticleSchema.parse(req.body);
+      const article = await storage.updateArticle(id, updates, { expectedVersion: version, revision });
       res.json(article);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid article data", errors: error.errors });
       }
-      if (error instanceof Error && error.message === "Article not found") {
-        return res.status(404).json({ message: "Article not found" });
+      // Saved elsewhere since the client loaded it; send the newer copy to merge with
+      if (error instanceof Error && error.message === "Article version conflict") {
+        const article = await storage.getArticle(parseInt(req.params.id));
+        return res.status(409).json({ message: "Article was changed elsewhere", article });
+      }
+      if (error instanceof Error && (error.message === "Article not found" || error.message === "Conversation not found")) {
+        return res.status(404).json({ message: error.message });
       }
       res.status(500).json({ message: "Failed to update article" });
     }
   });
 
-  app.delete("/api/articles/:id", async (req, res) => {
+  app.delete("/api/articles/:id", requireOwner("article"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteArticle(id);
@@ -234,6 +623,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/articles/:id/duplicate", requireOwner("article"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const article = await storage.duplicateArticle(id);
+      res.status(201).json(article);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Article not found") {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      res.status(500).json({ message: "Failed to duplicate article" });
+    }
+  });
+
+  app.get("/api/articles/:id/revisions", requireOwner("article"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisions = await storage.getArticleRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Article not found") {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      res.status(500).json({ message: "Failed to fetch article revisions" });
+    }
+  });
+
+  app.post("/api/articles/:id/revisions/:revisionId/restore", requireOwner("article"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+      const article = await storage.restoreArticleRevision(id, revisionId);
+      res.json(article);
+    } catch (error) {
+      if (error instanceof Error && (error.message === "Article not found" || error.message === "Revision not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore article revision" });
+    }
+  });
+
+  // Settings
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await storage.getSettings(req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", async (req, res) => {
+    try {
+      const updates = updateSettingsSchema.parse(req.body);
+      const settings = await storage.updateSettings(req.user!.id, updates);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Translation
+  app.post("/api/translate", async (req, res) => {
+    try {
+      const { text, from, to, provider: providerName } = translateRequestSchema.parse(req.body);
+      if (from === to) {
+        return res.status(400).json({ message: "Source and target language must differ" });
+      }
+      if (providerName && !translationProviderNames.includes(providerName)) {
+        return res.status(400).json({ message: `Unknown translation provider "${providerName}"` });
+      }
+
+      const textHash = hashText(text);
+      const cached = await storage.getCachedTranslation(req.user!.id, textHash, from, to);
+      if (cached) {
+        const response: TranslateResponse = { translatedText: cached.translatedText, provider: cached.provider, cached: true };
+        return res.json(response);
+      }
+
+      const provider = getTranslationProvider(providerName);
+      const translatedText = await provider.translate(text, from, to);
+
+      // Mock output is only a placeholder and must not shadow real translations
+      if (provider.name !== "mock") {
+        await storage.cacheTranslation(req.user!.id, { textHash, sourceLanguage: from, targetLanguage: to, provider: provider.name, translatedText });
+      }
+
+      const response: TranslateResponse = { translatedText, provider: provider.name, cached: false };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid translation request", errors: error.errors });
+      }
+      if (error instanceof TranslationError) {
+        return res.status(502).json({ message: error.message, provider: error.provider });
+      }
+      res.status(500).json({ message: "Failed to translate text" });
+    }
+  });
+
+  // Search
+  app.get("/api/search", async (req, res) => {
+    try {
+      const { q, limit } = z.object({
+        q: z.string().default(""),
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+      }).parse(req.query);
+      const results = await storage.search(req.user!.id, q, limit);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // Integrity
+  app.get("/api/integrity", requireAdmin, async (req, res) => {
+    try {
+      const report = await storage.checkIntegrity();
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check integrity" });
+    }
+  });
+
+  app.post("/api/integrity/repair", requireAdmin, async (req, res) => {
+    try {
+      const report = await storage.repairIntegrity();
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to repair integrity" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
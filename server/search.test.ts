@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildMatchQuery, formatHighlight, segmentText, SNIPPET_MARKERS } from "./search";
+import { storage } from "./storage";
+import { createUser, seedConversation } from "./test-utils";
+
+const { start, end } = SNIPPET_MARKERS;
+
+describe("segmentText", () => {
+  it("makes every CJK character a token of its own", () => {
+    expect(segmentText("我喜欢 tea")).toBe("​我​​喜​​欢​ tea");
+    expect(segmentText(null)).toBe("");
+  });
+});
+
+describe("buildMatchQuery", () => {
+  it("quotes every term, and matches Latin terms as prefixes", () => {
+    expect(buildMatchQuery('read "books" 喜欢')).toBe('"read"* "books"* "​喜​​欢​"');
+  });
+
+  it("leaves nothing FTS5 could read as syntax", () => {
+    expect(buildMatchQuery('a" OR "b')).toBe('"a"* "OR"* "b"*');
+    expect(buildMatchQuery('" * ( )')).toBeNull();
+    expect(buildMatchQuery("   ")).toBeNull();
+  });
+});
+
+describe("formatHighlight", () => {
+  it("marks the matches and escapes everything else", () => {
+    expect(formatHighlight(`<b>${start}tea${end}</b> & "cake"`))
+      .toBe('&lt;b&gt;<mark>tea</mark>&lt;/b&gt; &amp; &quot;cake&quot;');
+  });
+
+  it("takes the segment marks back out", () => {
+    expect(formatHighlight(`我${start}${segmentText("喜欢")}${end}`)).toBe("我<mark>喜欢</mark>");
+    expect(formatHighlight(null)).toBe("");
+  });
+});
+
+describe("search", () => {
+  it("finds words inside a run of Chinese", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id, ["我喜欢读书", "今天天气很好"]);
+
+    const results = await storage.search(user.id, "喜欢");
+    expect(results.map(result => result.id)).toEqual([messages[0].id]);
+    expect(results[0].snippet).toBe("我<mark>喜欢</mark>读书");
+    expect(await storage.search(user.id, "欢读书")).toHaveLength(1);
+    expect(await storage.search(user.id, "喜书")).toEqual([]);
+  });
+
+  it("matches Latin words by prefix, and escapes message text in snippets", async () => {
+    const user = await createUser();
+    await seedConversation(user.id, ["<script>alert(1)</script> reading list"]);
+
+    const [result] = await storage.search(user.id, "read");
+    expect(result.snippet).toBe("&lt;script&gt;alert(1)&lt;/script&gt; <mark>reading</mark> list");
+  });
+
+  it("finds articles by their text", async () => {
+    const user = await createUser();
+    const article = await storage.createArticle(user.id, {
+      title: "Garden notes",
+      content: { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text: "Tomatoes need sun" }] }] },
+    });
+
+    const results = await storage.search(user.id, "tomato");
+    expect(results.map(result => [result.kind, result.id])).toEqual([["article", article.id]]);
+  });
+
+  it("follows edits and deletes", async () => {
+    const user = await createUser();
+    const { messages } = await seedConversation(user.id, ["apples"]);
+
+    await storage.updateMessage(messages[0].id, { text: "pears" });
+    expect(await storage.search(user.id, "apples")).toEqual([]);
+    expect(await storage.search(user.id, "pears")).toHaveLength(1);
+
+    await storage.deleteMessage(messages[0].id);
+    expect(await storage.search(user.id, "pears")).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import type Database from 'better-sqlite3';
+import { documentToPlainText, parseArticleContent } from '@shared/article-document';
+
+// Full-text search over messages and articles using an FTS5 virtual table.
+//
+// unicode61 treats a run of CJK characters as one token, so "我喜欢" could only
+// be found by searching the whole run. Before indexing, every CJK character is
+// wrapped in zero-width spaces (a separator for unicode61), which turns each
+// character into its own token. Queries are segmented the same way and matched
+// as phrases, so "喜欢" matches the adjacent tokens 喜 + 欢. The zero-width
+// spaces are stripped again from snippets before they leave the server.
+//
+// Rows are keyed by rowid: messages use id * 2, articles use id * 2 + 1.
+// Encrypted messages are left out; their ciphertext has nothing to find.
+// The table and the triggers that keep it current are created by migrations.
+
+const SEGMENT_MARK = '\u200B';
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+// Han, Hiragana, Katakana, Hangul and CJK compatibility ideographs
+const CJK_CHAR = /([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff])/g;
+
+export function segmentText(text: string | null): string {
+  if (!text) return '';
+  return text.replace(CJK_CHAR, `${SEGMENT_MARK}$1${SEGMENT_MARK}`);
+}
+
+export function stripHtml(html: string | null): string {
+  if (!html) return '';
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Articles are stored as JSON documents; older rows may still hold HTML
+export function articleText(content: string | null): string {
+  if (!content) return '';
+  return documentToPlainText(parseArticleContent(content));
+}
+
+// Must be called on every connection before the search triggers can fire
+export function registerSearchFunctions(sqlite: Database.Database) {
+  sqlite.function('fts_segment', { deterministic: true }, (text: unknown) =>
+    segmentText(typeof text === 'string' ? text : null)
+  );
+  sqlite.function('fts_strip_html', { deterministic: true }, (html: unknown) =>
+    stripHtml(typeof html === 'string' ? html : null)
+  );
+  sqlite.function('fts_article_text', { deterministic: true }, (content: unknown) =>
+    articleText(typeof content === 'string' ? content : null)
+  );
+}
+
+// Turn free user input into a safe FTS5 expression: every whitespace-separated
+// term becomes a quoted phrase (implicitly ANDed), Latin terms match as prefixes.
+// Returns null when nothing searchable is left.
+export function buildMatchQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => /[0-9A-Za-z\u00c0-\uffff]/.test(term));
+
+  if (terms.length === 0) return null;
+
+  return terms
+    .map(term => {
+      const phrase = `"${segmentText(term)}"`;
+      return /[A-Za-z0-9]$/.test(term) ? `${phrase}*` : phrase;
+    })
+    .join(' ');
+}
+
+export const SNIPPET_MARKERS = { start: HIGHLIGHT_START, end: HIGHLIGHT_END };
+
+// Convert an FTS snippet/highlight into safe HTML with <mark> around matches
+export function formatHighlight(text: string | null): string {
+  if (!text) return '';
+  return text
+    .split(SEGMENT_MARK).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
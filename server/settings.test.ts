@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { DEFAULT_SETTINGS } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createUser, signUp } from "./test-utils";
+
+describe("settings", () => {
+  it("start from the defaults and keep each user's own", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    expect(await storage.getSettings(owner.id)).toEqual(DEFAULT_SETTINGS);
+
+    const saved = await storage.updateSettings(owner.id, { ...DEFAULT_SETTINGS, targetLanguage: "fr", bubbleColors: ["red"] });
+    expect(saved).toEqual({ ...DEFAULT_SETTINGS, targetLanguage: "fr", bubbleColors: ["red"] });
+    expect(await storage.getSettings(owner.id)).toEqual(saved);
+    expect(await storage.getSettings(other.id)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("replace what was saved before", async () => {
+    const user = await createUser();
+    await storage.updateSettings(user.id, { ...DEFAULT_SETTINGS, ttsVoice: "Tingting" });
+    const saved = await storage.updateSettings(user.id, { ...DEFAULT_SETTINGS, todayTalkName: "Journal" });
+
+    expect(saved).toEqual({ ...DEFAULT_SETTINGS, todayTalkName: "Journal" });
+  });
+});
+
+describe("settings routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("save each user's settings", async () => {
+    const owner = await signUp(app);
+    const stranger = await signUp(app);
+    const { body: defaults } = await owner.get("/api/settings").expect(200);
+
+    const changed = { ...defaults, sourceLanguage: "en", targetLanguage: "ja" };
+    await owner.put("/api/settings").send(changed).expect(200, changed);
+    await owner.get("/api/settings").expect(200, changed);
+    await stranger.get("/api/settings").expect(200, defaults);
+  });
+
+  it("refuse settings that don't make sense", async () => {
+    const agent = await signUp(app);
+    const { body: defaults } = await agent.get("/api/settings").expect(200);
+
+    await agent.put("/api/settings").send({ ...defaults, targetLanguage: defaults.sourceLanguage }).expect(400);
+    await agent.put("/api/settings").send({ ...defaults, bubbleColors: ["red", "red"] }).expect(400);
+    await agent.put("/api/settings").send({ ...defaults, bubbleColors: [] }).expect(400);
+    await agent.put("/api/settings").send({ ...defaults, sourceLanguage: "xx" }).expect(400);
+  });
+});
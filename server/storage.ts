@@ -1,37 +1,200 @@
 import {
+  users,
   conversations,
   messages,
   bubbles,
   articles,
+  connections,
+  articleRevisions,
+  translations,
+  keywords,
+  messageKeywords,
+  settings,
+  DEFAULT_SETTINGS,
+  type User,
+  type InsertUser,
   type Conversation,
   type Message,
   type Bubble,
   type Article,
+  type Connection,
+  type KeywordWithCount,
+  type ArticleRevision,
+  type Translation,
+  type InsertTranslation,
   type InsertConversation,
   type InsertMessage,
   type InsertBubble,
+  type BubbleLayout,
+  type RecreateBubbles,
   type InsertArticle,
+  type ArticleListQuery,
+  type ArticleListPage,
+  type InsertConnection,
   type ConversationWithStats,
   type MessageWithBubble,
-  type BubbleWithMessage
+  type MessagePage,
+  type MessagePageQuery,
+  type MessageCursor,
+  type BubbleWithMessage,
+  type SearchResult,
+  type MessageSource,
+  type BulkMessageOperation,
+  type BulkMessageResult,
+  type ConversationEncryptionUpdate,
+  type IntegrityOrphan,
+  type IntegrityReport,
+  type Settings,
+  type UpdateSettings
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { buildMatchQuery, formatHighlight, SNIPPET_MARKERS } from "./search";
+import { hashText } from "./translation";
+import { eq, asc, desc, and, or, not, lt, gt, inArray, notExists, sql, count, type SQL } from "drizzle-orm";
+import { countWords, documentExcerpt, documentSources, type ArticleDocument } from "@shared/article-document";
+import { isSealedText } from "@shared/encryption";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A user's settings as the API hands them out
+const settingsColumns = {
+  sourceLanguage: settings.sourceLanguage,
+  targetLanguage: settings.targetLanguage,
+  bubbleColors: settings.bubbleColors,
+  ttsVoice: settings.ttsVoice,
+  todayTalkName: settings.todayTalkName,
+};
+
+// A message with its bubble's fields, flattened for a LEFT JOIN
+const messageWithBubbleColumns = {
+  id: messages.id,
+  conversationId: messages.conversationId,
+  text: messages.text,
+  title: messages.title,
+  originalLanguage: messages.originalLanguage,
+  translatedFrom: messages.translatedFrom,
+  createdAt: messages.createdAt,
+  bubbleId: bubbles.id,
+  bubbleX: bubbles.x,
+  bubbleY: bubbles.y,
+  bubbleWidth: bubbles.width,
+  bubbleHeight: bubbles.height,
+  bubbleCategory: bubbles.category,
+  bubbleColor: bubbles.color,
+  bubbleTitle: bubbles.title,
+};
+
+// A message's bubble is the first one made for it; any later ones are never
+// shown and would otherwise repeat the message in a join
+const isFirstBubble = and(
+  eq(bubbles.messageId, messages.id),
+  eq(bubbles.id, sql`(SELECT min(id) FROM bubbles AS first WHERE first.message_id = ${messages.id})`),
+)!;
+
+type MessageWithBubbleRow = Message & {
+  [K in Exclude<keyof Bubble, "messageId"> as `bubble${Capitalize<K>}`]: Bubble[K] | null;
+};
+
+function toMessagesWithBubbles(
+  rows: MessageWithBubbleRow[],
+  keywordRows: { messageId: number; name: string }[],
+): MessageWithBubble[] {
+  const keywordsByMessage = new Map<number, string[]>();
+  for (const row of keywordRows) {
+    const names = keywordsByMessage.get(row.messageId) || [];
+    names.push(row.name);
+    keywordsByMessage.set(row.messageId, names);
+  }
+
+  return rows.map(row => ({
+    id: row.id,
+    conversationId: row.conversationId,
+    text: row.text,
+    title: row.title,
+    originalLanguage: row.originalLanguage,
+    translatedFrom: row.translatedFrom,
+    createdAt: row.createdAt,
+    bubble: row.bubbleId ? {
+      id: row.bubbleId,
+      messageId: row.id,
+      x: row.bubbleX!,
+      y: row.bubbleY!,
+      width: row.bubbleWidth!,
+      height: row.bubbleHeight!,
+      category: row.bubbleCategory!,
+      color: row.bubbleColor!,
+      title: row.bubbleTitle!,
+    } : undefined,
+    keywords: keywordsByMessage.get(row.id) || [],
+  }));
+}
+
+const messageCursor = (message: MessageCursor) => `${message.createdAt}_${message.id}`;
+
+const olderThan = (cursor: MessageCursor) => or(
+  lt(messages.createdAt, cursor.createdAt),
+  and(eq(messages.createdAt, cursor.createdAt), lt(messages.id, cursor.id)),
+)!;
+
+const newerThan = (cursor: MessageCursor) => or(
+  gt(messages.createdAt, cursor.createdAt),
+  and(eq(messages.createdAt, cursor.createdAt), gt(messages.id, cursor.id)),
+)!;
+
+// What an encrypted conversation stores has to be ciphertext already
+function assertSealed(...values: (string | undefined)[]) {
+  if (values.some(value => value !== undefined && !isSealedText(value))) {
+    throw new Error('Encrypted conversations only take encrypted text');
+  }
+}
+
+const hasKeywords = (names: string[] | undefined) => !!names?.some(name => name.trim());
+
+// Records that belong to a user, directly or through their conversation
+export type OwnedResource = "conversation" | "message" | "bubble" | "connection" | "article" | "keyword";
+
+export type ArticleSaveOptions = {
+  // Refuse the write unless the article is still at this version
+  expectedVersion?: number;
+  // Record the saved text in the revision history (default true)
+  revision?: boolean;
+};
 
 export interface IStorage {
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<Omit<User, "id" | "username" | "createdAt">>): Promise<User>;
+  claimPinAttempt(id: number, maxAttempts: number): Promise<number | undefined>;
+  resetPinAttempts(id: number, lockedUntil: string | null): Promise<void>;
+
+  // Settings - a user's preferences, the defaults until they save some
+  getSettings(userId: number): Promise<Settings>;
+  updateSettings(userId: number, updates: UpdateSettings): Promise<Settings>;
+
+  // Ownership - the id of the user a record belongs to, undefined if there is no such record
+  getOwnerId(resource: OwnedResource, id: number): Promise<number | undefined>;
+
   // Conversations
-  getConversations(): Promise<ConversationWithStats[]>;
+  getConversations(userId: number): Promise<ConversationWithStats[]>;
   getConversation(id: number): Promise<Conversation | undefined>;
-  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  createConversation(userId: number, conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation>;
   deleteConversation(id: number): Promise<void>;
+  duplicateConversation(id: number): Promise<Conversation>;
+  setConversationEncryption(id: number, update: ConversationEncryptionUpdate): Promise<Conversation>;
 
   // Messages
   getMessagesByConversation(conversationId: number): Promise<MessageWithBubble[]>;
+  getMessagePage(conversationId: number, query: MessagePageQuery): Promise<MessagePage>;
   getMessage(id: number): Promise<Message | undefined>;
+  getMessageSources(userId: number, messageIds: number[]): Promise<MessageSource[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: number, updates: Partial<InsertMessage>): Promise<Message>;
   deleteMessage(id: number): Promise<void>;
+  deleteMultipleMessages(messageIds: number[]): Promise<void>;
+  bulkMessages(userId: number, operation: BulkMessageOperation): Promise<BulkMessageResult>;
 
   // Bubbles
   getBubblesByConversation(conversationId: number): Promise<BubbleWithMessage[]>;
@@ -39,82 +202,197 @@ export interface IStorage {
   createBubble(bubble: InsertBubble): Promise<Bubble>;
   updateBubble(id: number, updates: Partial<InsertBubble>): Promise<Bubble>;
   deleteBubble(id: number): Promise<void>;
+  updateBubbleLayout(conversationId: number, layout: BubbleLayout): Promise<BubbleWithMessage[]>;
+  recreateBubbles(conversationId: number, request: RecreateBubbles): Promise<BubbleWithMessage[]>;
+
+  // Connections
+  getConnectionsByConversation(conversationId: number): Promise<Connection[]>;
+  createConnection(connection: InsertConnection): Promise<Connection>;
+  importConnections(conversationId: number, connections: Omit<InsertConnection, "conversationId">[]): Promise<Connection[]>;
+  deleteConnection(id: number): Promise<void>;
+
+  // Keywords
+  getKeywords(userId: number): Promise<KeywordWithCount[]>;
+  setMessageKeywords(messageId: number, names: string[]): Promise<string[]>;
+  renameKeyword(id: number, name: string): Promise<KeywordWithCount>;
+  mergeKeywords(sourceId: number, targetId: number): Promise<KeywordWithCount>;
+  deleteKeyword(id: number): Promise<void>;
 
   // Articles
-  getArticles(): Promise<Article[]>;
+  getArticles(userId: number, query: ArticleListQuery): Promise<ArticleListPage>;
   getArticle(id: number): Promise<Article | undefined>;
-  createArticle(article: InsertArticle): Promise<Article>;
-  updateArticle(id: number, updates: Partial<InsertArticle>): Promise<Article>;
+  getArticlesByConversation(conversationId: number): Promise<Article[]>;
+  createArticle(userId: number, article: InsertArticle): Promise<Article>;
+  updateArticle(id: number, updates: Partial<InsertArticle>, options?: ArticleSaveOptions): Promise<Article>;
   deleteArticle(id: number): Promise<void>;
+  duplicateArticle(id: number): Promise<Article>;
+  getArticleRevisions(articleId: number): Promise<ArticleRevision[]>;
+  restoreArticleRevision(articleId: number, revisionId: number): Promise<Article>;
+
+  // Translation cache
+  getCachedTranslation(userId: number, textHash: string, sourceLanguage: string, targetLanguage: string): Promise<Translation | undefined>;
+  cacheTranslation(userId: number, translation: InsertTranslation): Promise<Translation>;
+
+  // Search
+  search(userId: number, query: string, limit?: number): Promise<SearchResult[]>;
+
+  // Integrity
+  checkIntegrity(): Promise<IntegrityReport>;
+  repairIntegrity(): Promise<IntegrityReport>;
 }
 
 export class DatabaseStorage implements IStorage {
 
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return db.transaction((tx) => {
+      const existing = tx.select({ id: users.id }).from(users).where(eq(users.username, user.username)).get();
+      if (existing) throw new Error('Username already taken');
+
+      return tx.insert(users).values(user).returning().get();
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<Omit<User, "id" | "username" | "createdAt">>): Promise<User> {
+    const [updated] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updated) throw new Error('User not found');
+    return updated;
+  }
+
+  // Counts a PIN check before it is made, in one statement, so parallel
+  // requests can't get more than `maxAttempts` checks between lockouts.
+  // Returns the attempt's number, or undefined while the user is locked out.
+  async claimPinAttempt(id: number, maxAttempts: number): Promise<number | undefined> {
+    const claimed = db
+      .update(users)
+      .set({ pinAttempts: sql`${users.pinAttempts} + 1` })
+      .where(and(
+        eq(users.id, id),
+        sql`${users.pinAttempts} < ${maxAttempts}`,
+        or(sql`${users.pinLockedUntil} IS NULL`, sql`${users.pinLockedUntil} <= ${new Date().toISOString()}`),
+      ))
+      .returning({ pinAttempts: users.pinAttempts })
+      .get();
+    return claimed?.pinAttempts;
+  }
+
+  // After a right PIN (no lockout), or the last wrong one allowed
+  async resetPinAttempts(id: number, lockedUntil: string | null): Promise<void> {
+    await db.update(users).set({ pinAttempts: 0, pinLockedUntil: lockedUntil }).where(eq(users.id, id));
+  }
+
+  // Settings
+  async getSettings(userId: number): Promise<Settings> {
+    const [row] = await db.select(settingsColumns).from(settings).where(eq(settings.userId, userId));
+    return row ?? DEFAULT_SETTINGS;
+  }
+
+  async updateSettings(userId: number, updates: UpdateSettings): Promise<Settings> {
+    const values = { ...updates, updatedAt: new Date().toISOString() };
+    const [saved] = await db
+      .insert(settings)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: settings.userId, set: values })
+      .returning(settingsColumns);
+    return saved;
+  }
+
+  // Ownership
+  async getOwnerId(resource: OwnedResource, id: number): Promise<number | undefined> {
+    let row: { userId: number } | undefined;
+    switch (resource) {
+      case "conversation":
+        row = db.select({ userId: conversations.userId }).from(conversations)
+          .where(eq(conversations.id, id)).get();
+        break;
+      case "message":
+        row = db.select({ userId: conversations.userId }).from(messages)
+          .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+          .where(eq(messages.id, id)).get();
+        break;
+      case "bubble":
+        row = db.select({ userId: conversations.userId }).from(bubbles)
+          .innerJoin(messages, eq(messages.id, bubbles.messageId))
+          .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+          .where(eq(bubbles.id, id)).get();
+        break;
+      case "connection":
+        row = db.select({ userId: conversations.userId }).from(connections)
+          .innerJoin(conversations, eq(conversations.id, connections.conversationId))
+          .where(eq(connections.id, id)).get();
+        break;
+      case "article":
+        row = db.select({ userId: articles.userId }).from(articles)
+          .where(eq(articles.id, id)).get();
+        break;
+      case "keyword":
+        row = db.select({ userId: keywords.userId }).from(keywords)
+          .where(eq(keywords.id, id)).get();
+        break;
+    }
+    return row?.userId;
+  }
+
   // Conversations
-  async getConversations(): Promise<ConversationWithStats[]> {
-    // Single query to get all conversations with their message data
-    const conversationsWithMessages = await db
+  async getConversations(userId: number): Promise<ConversationWithStats[]> {
+    // Counts per conversation in one pass over an index rather than the
+    // messages themselves; the word count expression matches the index's
+    // (messages_word_count_idx). A message has as many words as spaces plus one.
+    const stats = db
+      .select({
+        conversationId: messages.conversationId,
+        messageCount: count().as("message_count"),
+        wordCount: sql<number>`sum(length(${messages.text}) - length(replace(${messages.text}, ' ', '')) + 1)`.as("word_count"),
+      })
+      .from(messages)
+      .groupBy(messages.conversationId)
+      .as("stats");
+
+    const rows = await db
       .select({
         id: conversations.id,
+        userId: conversations.userId,
         name: conversations.name,
+        encryption: conversations.encryption,
         createdAt: conversations.createdAt,
         updatedAt: conversations.updatedAt,
-        messageId: messages.id,
-        messageText: messages.text,
-        messageCreatedAt: messages.createdAt,
+        messageCount: stats.messageCount,
+        wordCount: stats.wordCount,
+        lastMessage: sql<string | null>`(
+          SELECT text FROM messages
+          WHERE conversation_id = ${conversations.id}
+          ORDER BY created_at DESC, id DESC
+          LIMIT 1
+        )`,
       })
       .from(conversations)
-      .leftJoin(messages, eq(conversations.id, messages.conversationId))
-      .orderBy(conversations.updatedAt, messages.createdAt);
-
-    // Group messages by conversation efficiently
-    const conversationMap = new Map<number, {
-      conversation: Conversation;
-      messages: { id: number; text: string; createdAt: string }[];
-    }>();
-
-    for (const row of conversationsWithMessages) {
-      const convId = row.id;
-
-      if (!conversationMap.has(convId)) {
-        conversationMap.set(convId, {
-          conversation: {
-            id: row.id,
-            name: row.name,
-            createdAt: row.createdAt,
-            updatedAt: row.updatedAt,
-          },
-          messages: []
-        });
-      }
-
-      // Add message if it exists (leftJoin may return null)
-      if (row.messageId && row.messageText && row.messageCreatedAt) {
-        conversationMap.get(convId)!.messages.push({
-          id: row.messageId,
-          text: row.messageText,
-          createdAt: row.messageCreatedAt,
-        });
-      }
-    }
-
-    // Calculate stats efficiently
-    const conversationStats: ConversationWithStats[] = Array.from(conversationMap.values()).map(({ conversation, messages }) => {
-      const messageCount = messages.length;
-      const wordCount = messages.reduce((total, msg) => total + msg.text.split(' ').length, 0);
-      const lastMessage = messages.length > 0
-        ? messages[messages.length - 1].text.substring(0, 100) + (messages[messages.length - 1].text.length > 100 ? '...' : '')
-        : undefined;
+      .leftJoin(stats, eq(stats.conversationId, conversations.id))
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
 
-      return {
-        ...conversation,
-        messageCount,
-        wordCount,
-        lastMessage
-      };
-    });
-
-    return conversationStats.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    return rows.map(({ messageCount, wordCount, lastMessage, ...conversation }) => ({
+      ...conversation,
+      messageCount: messageCount ?? 0,
+      wordCount: conversation.encryption ? 0 : wordCount ?? 0,
+      lastMessage: lastMessage === null
+        ? undefined
+        : lastMessage.substring(0, 100) + (lastMessage.length > 100 ? '...' : ''),
+    }));
   }
 
   async getConversation(id: number): Promise<Conversation | undefined> {
@@ -122,12 +400,13 @@ export class DatabaseStorage implements IStorage {
     return conversation || undefined;
   }
 
-  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+  async createConversation(userId: number, conversation: InsertConversation): Promise<Conversation> {
     const now = new Date().toISOString();
     const [newConversation] = await db
       .insert(conversations)
       .values({
         ...conversation,
+        userId,
         createdAt: now,
         updatedAt: now,
       })
@@ -148,69 +427,233 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteConversation(id: number): Promise<void> {
-    // Delete associated messages and bubbles
-    const conversationMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.conversationId, id));
+    // Messages, bubbles and connections go with it via ON DELETE CASCADE
+    await db.delete(conversations).where(eq(conversations.id, id));
+  }
 
-    for (const message of conversationMessages) {
-      await db.delete(bubbles).where(eq(bubbles.messageId, message.id));
-    }
+  // Independent copy: new ids throughout, with translation links, keywords,
+  // bubble layout and connections pointing at the copied rows
+  async duplicateConversation(id: number): Promise<Conversation> {
+    return db.transaction((tx) => {
+      const original = tx.select().from(conversations).where(eq(conversations.id, id)).get();
+      if (!original) throw new Error('Conversation not found');
 
-    await db.delete(messages).where(eq(messages.conversationId, id));
-    await db.delete(conversations).where(eq(conversations.id, id));
+      const now = new Date().toISOString();
+      const copy = tx
+        .insert(conversations)
+        .values({ userId: original.userId, name: `${original.name} (Copy)`, encryption: original.encryption, createdAt: now, updatedAt: now })
+        .returning()
+        .get();
+
+      const source = tx.select().from(messages).where(eq(messages.conversationId, id)).all();
+      this.copyMessagesInto(tx, source, copy.id);
+      return copy;
+    });
+  }
+
+  // Every message text and title and bubble title of the conversation is
+  // swapped for the browser's rewrite at once, so a conversation is never half
+  // encrypted. Keywords can't be encrypted: turning encryption on drops the
+  // messages' keywords (and the keywords left unused), turning it off makes
+  // each title the primary keyword again.
+  async setConversationEncryption(id: number, update: ConversationEncryptionUpdate): Promise<Conversation> {
+    const updated = db.transaction((tx) => {
+      const conversation = tx.select().from(conversations).where(eq(conversations.id, id)).get();
+      if (!conversation) throw new Error('Conversation not found');
+      if (!update.encryption && !conversation.encryption) throw new Error('Conversation is not encrypted');
+
+      // Anything added or deleted since the browser read the conversation
+      // would be left in the wrong state
+      const current = tx.select().from(messages).where(eq(messages.conversationId, id)).all();
+      const bubbleRows = tx
+        .select({ id: bubbles.id, messageId: bubbles.messageId })
+        .from(bubbles)
+        .innerJoin(messages, eq(messages.id, bubbles.messageId))
+        .where(eq(messages.conversationId, id))
+        .orderBy(bubbles.id)
+        .all();
+      // Only a message's first bubble is ever shown (and sent back)
+      const shownBubbles = new Map<number, number>();
+      bubbleRows.forEach(bubble => shownBubbles.has(bubble.messageId) || shownBubbles.set(bubble.messageId, bubble.id));
+      const shownBubbleIds = Array.from(shownBubbles.values());
+
+      const sameIds = (a: number[], b: number[]) => a.length === b.length && new Set([...a, ...b]).size === a.length;
+      if (!sameIds(current.map(message => message.id), update.messages.map(message => message.id))
+        || !sameIds(shownBubbleIds, update.bubbles.map(bubble => bubble.id))) {
+        throw new Error('Conversation changed - reload and try again');
+      }
+
+      if (update.encryption) {
+        assertSealed(...update.messages.flatMap(message => [message.text, message.title]), ...update.bubbles.map(bubble => bubble.title));
+      }
+
+      // The other bubbles would keep titles nobody can rewrite
+      const shown = new Set(shownBubbleIds);
+      const hiddenBubbleIds = bubbleRows.map(bubble => bubble.id).filter(bubbleId => !shown.has(bubbleId));
+      if (hiddenBubbleIds.length > 0) tx.delete(bubbles).where(inArray(bubbles.id, hiddenBubbleIds)).run();
+
+      const messageIds = current.map(message => message.id);
+      if (update.encryption && !conversation.encryption && messageIds.length > 0) {
+        // Articles keep what they quote as it was. The writer has to take the
+        // quotes out first; older revisions that have them are dropped.
+        const quoted = new Set(messageIds);
+        const quotes = (content: ArticleDocument) => documentSources(content).some(messageId => quoted.has(messageId));
+        const userArticles = tx.select().from(articles).where(eq(articles.userId, conversation.userId)).all();
+        if (userArticles.some(article => quotes(article.content))) {
+          throw new Error('Articles quote this conversation - remove the quotes first');
+        }
+        const quotingRevisionIds = tx
+          .select({ id: articleRevisions.id, content: articleRevisions.content })
+          .from(articleRevisions)
+          .innerJoin(articles, eq(articles.id, articleRevisions.articleId))
+          .where(eq(articles.userId, conversation.userId))
+          .all()
+          .filter(revision => quotes(revision.content))
+          .map(revision => revision.id);
+        if (quotingRevisionIds.length > 0) tx.delete(articleRevisions).where(inArray(articleRevisions.id, quotingRevisionIds)).run();
+
+        // The owner's cached translations of these messages are plaintext too
+        for (const textHash of Array.from(new Set(current.map(message => hashText(message.text.trim()))))) {
+          tx.delete(translations).where(and(
+            eq(translations.userId, conversation.userId),
+            eq(translations.textHash, textHash),
+          )).run();
+        }
+
+        // Subqueries rather than id lists, which a long conversation would
+        // take past SQLite's limit on bound variables. Keywords no other
+        // message uses go first, their links cascading.
+        const linksHere = inArray(
+          messageKeywords.messageId,
+          tx.select({ id: messages.id }).from(messages).where(eq(messages.conversationId, id)),
+        );
+        tx.delete(keywords).where(and(
+          inArray(keywords.id, tx.select({ keywordId: messageKeywords.keywordId }).from(messageKeywords).where(linksHere)),
+          notExists(tx.select({ keywordId: messageKeywords.keywordId }).from(messageKeywords).where(and(
+            eq(messageKeywords.keywordId, keywords.id),
+            not(linksHere),
+          ))),
+        )).run();
+        tx.delete(messageKeywords).where(linksHere).run();
+      }
+
+      for (const { id: messageId, text, title } of update.messages) {
+        tx.update(messages).set({ text, title }).where(eq(messages.id, messageId)).run();
+        if (!update.encryption) this.writeMessageKeywords(tx, messageId, title ? [title] : []);
+      }
+      for (const { id: bubbleId, title } of update.bubbles) {
+        tx.update(bubbles).set({ title }).where(eq(bubbles.id, bubbleId)).run();
+      }
+
+      return tx
+        .update(conversations)
+        .set({ encryption: update.encryption, updatedAt: new Date().toISOString() })
+        .where(eq(conversations.id, id))
+        .returning()
+        .get();
+    });
+
+    // Secure delete zeroes the replaced text in the database, but the WAL
+    // still holds the pages as they were before; fold it in and empty it
+    if (update.encryption) db.run(sql`PRAGMA wal_checkpoint(TRUNCATE)`);
+    return updated;
   }
 
   // Messages
   async getMessagesByConversation(conversationId: number): Promise<MessageWithBubble[]> {
     // Single query with LEFT JOIN to get messages and their bubbles
-    const messagesWithBubbles = await db
-      .select({
-        // Message fields
-        id: messages.id,
-        conversationId: messages.conversationId,
-        text: messages.text,
-        title: messages.title,
-        originalLanguage: messages.originalLanguage,
-        translatedFrom: messages.translatedFrom,
-        createdAt: messages.createdAt,
-        // Bubble fields (nullable)
-        bubbleId: bubbles.id,
-        bubbleX: bubbles.x,
-        bubbleY: bubbles.y,
-        bubbleWidth: bubbles.width,
-        bubbleHeight: bubbles.height,
-        bubbleCategory: bubbles.category,
-        bubbleColor: bubbles.color,
-        bubbleTitle: bubbles.title,
-      })
+    const rows = await db
+      .select(messageWithBubbleColumns)
       .from(messages)
-      .leftJoin(bubbles, eq(messages.id, bubbles.messageId))
+      .leftJoin(bubbles, isFirstBubble)
       .where(eq(messages.conversationId, conversationId))
       .orderBy(messages.createdAt);
 
-    // Transform the flat result into the expected structure
-    return messagesWithBubbles.map(row => ({
-      id: row.id,
-      conversationId: row.conversationId,
-      text: row.text,
-      title: row.title,
-      originalLanguage: row.originalLanguage,
-      translatedFrom: row.translatedFrom,
-      createdAt: row.createdAt,
-      bubble: row.bubbleId ? {
-        id: row.bubbleId,
-        messageId: row.id,
-        x: row.bubbleX!,
-        y: row.bubbleY!,
-        width: row.bubbleWidth!,
-        height: row.bubbleHeight!,
-        category: row.bubbleCategory!,
-        color: row.bubbleColor!,
-        title: row.bubbleTitle!,
-      } : undefined
-    }));
+    // All keywords of the conversation's messages in one query
+    const keywordRows = await db
+      .select({ messageId: messageKeywords.messageId, name: keywords.name })
+      .from(messageKeywords)
+      .innerJoin(keywords, eq(keywords.id, messageKeywords.keywordId))
+      .innerJoin(messages, eq(messages.id, messageKeywords.messageId))
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messageKeywords.position);
+
+    return toMessagesWithBubbles(rows, keywordRows);
+  }
+
+  // Messages are ordered by (createdAt, id), so cursors stay exact when
+  // several messages share a timestamp
+  async getMessagePage(conversationId: number, query: MessagePageQuery): Promise<MessagePage> {
+    const { limit } = query;
+    const inConversation = eq(messages.conversationId, conversationId);
+    const select = (where: SQL | undefined, newestFirst: boolean, count: number) => {
+      const order = newestFirst ? desc : asc;
+      return db
+        .select(messageWithBubbleColumns)
+        .from(messages)
+        .leftJoin(bubbles, isFirstBubble)
+        .where(and(inConversation, where))
+        .orderBy(order(messages.createdAt), order(messages.id))
+        .limit(count)
+        .all();
+    };
+
+    // A message, or the first one from a moment on, to open the page around
+    let anchor: MessageCursor | undefined;
+    if (query.around !== undefined) {
+      const [message] = await db
+        .select({ createdAt: messages.createdAt, id: messages.id })
+        .from(messages)
+        .where(and(inConversation, eq(messages.id, query.around)));
+      if (!message) throw new Error("Message not found");
+      anchor = message;
+    } else if (query.date !== undefined) {
+      const [message] = await db
+        .select({ createdAt: messages.createdAt, id: messages.id })
+        .from(messages)
+        .where(and(inConversation, sql`${messages.createdAt} >= ${query.date}`))
+        .orderBy(asc(messages.createdAt), asc(messages.id))
+        .limit(1);
+      anchor = message;
+    }
+
+    let rows;
+    if (query.before) {
+      rows = select(olderThan(query.before), true, limit).reverse();
+    } else if (query.after) {
+      rows = select(newerThan(query.after), false, limit);
+    } else if (anchor) {
+      // Some context before the anchor, the anchor and what follows
+      const before = Math.floor(limit / 2);
+      rows = [
+        ...select(olderThan(anchor), true, before).reverse(),
+        ...select(not(olderThan(anchor)), false, limit - before),
+      ];
+    } else {
+      rows = select(undefined, true, limit).reverse();
+    }
+
+    if (rows.length === 0) {
+      return { messages: [], olderCursor: null, newerCursor: null };
+    }
+
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const [hasOlder] = await db.select({ id: messages.id }).from(messages).where(and(inConversation, olderThan(first))).limit(1);
+    const [hasNewer] = await db.select({ id: messages.id }).from(messages).where(and(inConversation, newerThan(last))).limit(1);
+
+    const keywordRows = await db
+      .select({ messageId: messageKeywords.messageId, name: keywords.name })
+      .from(messageKeywords)
+      .innerJoin(keywords, eq(keywords.id, messageKeywords.keywordId))
+      .where(inArray(messageKeywords.messageId, rows.map(row => row.id)))
+      .orderBy(messageKeywords.position);
+
+    return {
+      messages: toMessagesWithBubbles(rows, keywordRows),
+      olderCursor: hasOlder ? messageCursor(first) : null,
+      newerCursor: hasNewer ? messageCursor(last) : null,
+    };
   }
 
   async getMessage(id: number): Promise<Message | undefined> {
@@ -218,22 +661,58 @@ export class DatabaseStorage implements IStorage {
     return message || undefined;
   }
 
+  // Messages that no longer exist, are someone else's or are encrypted are left out
+  async getMessageSources(userId: number, messageIds: number[]): Promise<MessageSource[]> {
+    if (messageIds.length === 0) return [];
+
+    return await db
+      .select({
+        messageId: messages.id,
+        conversationId: messages.conversationId,
+        conversationName: conversations.name,
+        title: messages.title,
+        text: messages.text,
+        createdAt: messages.createdAt,
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .where(and(
+        inArray(messages.id, messageIds),
+        eq(conversations.userId, userId),
+        sql`${conversations.encryption} IS NULL`,
+      ));
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
+    const { keywords: keywordNames, ...fields } = message;
     const createdAt = message.createdAt || new Date().toISOString();
     const messageData = {
-      ...message,
+      ...fields,
       createdAt,
     };
 
     // Use transaction for atomic operations
     const result = db.transaction((tx) => {
+      const encrypted = this.isEncrypted(tx, message.conversationId);
+      if (encrypted) {
+        assertSealed(fields.text, fields.title);
+        if (hasKeywords(keywordNames)) throw new Error("Keywords aren't available in encrypted conversations");
+      }
+
       // Insert message
-      const newMessage = tx
+      let newMessage = tx
         .insert(messages)
         .values(messageData)
         .returning()
         .get();
 
+      // A bare title is treated as the primary keyword; an encrypted one is kept as it is
+      const names = encrypted ? [] : keywordNames ?? (fields.title ? [fields.title] : []);
+      if (names.length > 0) {
+        this.writeMessageKeywords(tx, newMessage.id, names);
+        newMessage = tx.select().from(messages).where(eq(messages.id, newMessage.id)).get()!;
+      }
+
       // Update conversation's updatedAt in same transaction
       tx
         .update(conversations)
@@ -248,16 +727,39 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMessage(id: number, updates: Partial<InsertMessage>): Promise<Message> {
+    const { keywords: keywordNames, title, ...fields } = updates;
+
     // Use transaction for consistency
     const result = db.transaction((tx) => {
-      const updated = tx
-        .update(messages)
-        .set(updates)
-        .where(eq(messages.id, id))
-        .returning()
-        .get();
+      const existing = tx.select().from(messages).where(eq(messages.id, id)).get();
+      if (!existing) throw new Error('Message not found');
 
-      if (!updated) throw new Error('Message not found');
+      const encrypted = this.isEncrypted(tx, existing.conversationId);
+      const moving = fields.conversationId !== undefined && fields.conversationId !== existing.conversationId;
+      if (moving && (encrypted || this.isEncrypted(tx, fields.conversationId!))) {
+        throw new Error("Encrypted messages can't be moved or copied");
+      }
+      if (encrypted) {
+        assertSealed(fields.text, title);
+        if (hasKeywords(keywordNames)) throw new Error("Keywords aren't available in encrypted conversations");
+      }
+
+      if (Object.keys(fields).length > 0) {
+        tx.update(messages).set(fields).where(eq(messages.id, id)).run();
+      }
+
+      if (encrypted) {
+        // No keywords to keep in step with: the title is stored as it comes
+        if (title !== undefined) tx.update(messages).set({ title }).where(eq(messages.id, id)).run();
+      } else if (keywordNames !== undefined) {
+        this.writeMessageKeywords(tx, id, keywordNames);
+      } else if (title !== undefined) {
+        // Setting the title replaces the primary keyword and keeps the rest
+        const others = this.readMessageKeywords(tx, id).slice(1).filter(name => name !== title.trim());
+        this.writeMessageKeywords(tx, id, [title, ...others]);
+      }
+
+      const updated = tx.select().from(messages).where(eq(messages.id, id)).get()!;
 
       // Update conversation's updatedAt timestamp
       tx
@@ -276,61 +778,199 @@ export class DatabaseStorage implements IStorage {
   async deleteMultipleMessages(messageIds: number[]): Promise<void> {
     if (messageIds.length === 0) return;
 
-    db.transaction((tx) => {
-      // Delete all associated bubbles
-      for (const messageId of messageIds) {
-        tx.delete(bubbles).where(eq(bubbles.messageId, messageId)).run();
-      }
-
-      // Delete all messages
-      for (const messageId of messageIds) {
-        tx.delete(messages).where(eq(messages.id, messageId)).run();
-      }
-    });
+    // Bubbles, their connections and translations cascade
+    await db.delete(messages).where(inArray(messages.id, messageIds));
   }
 
   async deleteMessage(id: number): Promise<void> {
     try {
-      // Use transaction for atomic deletion
-      db.transaction((tx) => {
-        // First delete any associated bubbles
-        tx.delete(bubbles).where(eq(bubbles.messageId, id)).run();
-
-        // Delete any translations that reference this message
-        tx.delete(messages).where(eq(messages.translatedFrom, id)).run();
+      // The message's bubble, its connections and any translations cascade
+      const result = db.delete(messages).where(eq(messages.id, id)).run();
 
-        // Then delete the message itself
-        const result = tx.delete(messages).where(eq(messages.id, id)).run();
-
-        console.log(`Deleted message ${id}, affected rows:`, result);
-      });
+      console.log(`Deleted message ${id}, affected rows:`, result);
     } catch (error) {
       console.error(`Error deleting message ${id}:`, error);
       throw new Error(`Failed to delete message: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Bubbles
-  async getBubblesByConversation(conversationId: number): Promise<BubbleWithMessage[]> {
-    const conversationMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.conversationId, conversationId));
+  // Only the user's own messages and conversations take part
+  async bulkMessages(userId: number, operation: BulkMessageOperation): Promise<BulkMessageResult> {
+    return db.transaction((tx) => {
+      const selected = tx
+        .select({ message: messages })
+        .from(messages)
+        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+        .where(and(inArray(messages.id, operation.messageIds), eq(conversations.userId, userId)))
+        .all()
+        .map(row => row.message);
 
-    const bubblesWithMessages: BubbleWithMessage[] = [];
+      // Another user's message is as good as missing
+      if (selected.length !== new Set(operation.messageIds).size) throw new Error('Message not found');
 
-    for (const message of conversationMessages) {
-      const [bubble] = await db
-        .select()
-        .from(bubbles)
-        .where(eq(bubbles.messageId, message.id));
+      if (operation.action === "delete") {
+        // Bubbles, their connections and translations cascade
+        const messageIds = selected.map(message => message.id);
+        tx.delete(messages).where(inArray(messages.id, messageIds)).run();
+        return { action: operation.action, messageIds };
+      }
+
+      const encryptedIds = new Set(selected
+        .filter(message => this.isEncrypted(tx, message.conversationId))
+        .map(message => message.id));
+
+      if (operation.action === "set-keywords") {
+        if (encryptedIds.size > 0 && hasKeywords(operation.keywords)) {
+          throw new Error("Keywords aren't available in encrypted conversations");
+        }
+        for (const message of selected) {
+          if (!encryptedIds.has(message.id)) this.writeMessageKeywords(tx, message.id, operation.keywords);
+        }
+        return { action: operation.action, messageIds: selected.map(message => message.id) };
+      }
+
+      const now = new Date().toISOString();
+      const target = operation.newConversationName !== undefined
+        ? tx.insert(conversations).values({ userId, name: operation.newConversationName, createdAt: now, updatedAt: now }).returning().get()
+        : tx.select().from(conversations).where(and(
+            eq(conversations.id, operation.targetConversationId!),
+            eq(conversations.userId, userId),
+          )).get();
+      if (!target) throw new Error('Conversation not found');
+      // Ciphertext only makes sense with its own conversation's key
+      if (encryptedIds.size > 0 || target.encryption) throw new Error("Encrypted messages can't be moved or copied");
 
-      if (bubble) {
-        bubblesWithMessages.push({ ...bubble, message });
+      // Translations travel with their originals
+      const affected = new Map(selected.map(message => [message.id, message]));
+      let frontier = selected.map(message => message.id);
+      while (frontier.length > 0) {
+        const found = tx
+          .select()
+          .from(messages)
+          .where(inArray(messages.translatedFrom, frontier))
+          .all()
+          .filter(message => !affected.has(message.id));
+        found.forEach(message => affected.set(message.id, message));
+        frontier = found.map(message => message.id);
+      }
+      const affectedMessages = Array.from(affected.values());
+
+      let messageIds: number[];
+      if (operation.action === "copy") {
+        const idMap = this.copyMessagesInto(tx, affectedMessages, target.id);
+        messageIds = Array.from(idMap.values());
+      } else {
+        this.moveMessagesInto(tx, affectedMessages, target.id);
+        messageIds = affectedMessages.map(message => message.id);
+      }
+
+      const touched = new Set([target.id, ...affectedMessages.map(message => message.conversationId)]);
+      tx
+        .update(conversations)
+        .set({ updatedAt: now })
+        .where(inArray(conversations.id, Array.from(touched)))
+        .run();
+
+      return { action: operation.action, conversationId: target.id, messageIds };
+    });
+  }
+
+  // Bubbles follow their messages; connections follow when both ends move and
+  // are dropped when they would span two conversations
+  private moveMessagesInto(tx: Transaction, moving: Message[], conversationId: number) {
+    const messageIds = moving.map(message => message.id);
+    tx.update(messages).set({ conversationId }).where(inArray(messages.id, messageIds)).run();
+
+    const movedBubbleIds = tx
+      .select({ id: bubbles.id })
+      .from(bubbles)
+      .where(inArray(bubbles.messageId, messageIds))
+      .all()
+      .map(bubble => bubble.id);
+    if (movedBubbleIds.length === 0) return;
+
+    tx.update(connections).set({ conversationId }).where(and(
+      inArray(connections.fromBubbleId, movedBubbleIds),
+      inArray(connections.toBubbleId, movedBubbleIds),
+    )).run();
+    tx.delete(connections).where(and(
+      or(
+        inArray(connections.fromBubbleId, movedBubbleIds),
+        inArray(connections.toBubbleId, movedBubbleIds),
+      ),
+      sql`${connections.conversationId} <> ${conversationId}`,
+    )).run();
+  }
+
+  // Copy messages with their timestamps, keywords, bubbles and the connections
+  // among those bubbles. Translation links between copied messages point at
+  // the copies. Returns old message id -> new message id.
+  private copyMessagesInto(tx: Transaction, source: Message[], conversationId: number): Map<number, number> {
+    const idMap = new Map<number, number>();
+    if (source.length === 0) return idMap;
+
+    const ordered = [...source].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+    for (const message of ordered) {
+      const { id, ...fields } = message;
+      const copy = tx.insert(messages).values({ ...fields, conversationId }).returning().get();
+      idMap.set(id, copy.id);
+    }
+
+    for (const message of ordered) {
+      if (message.translatedFrom !== null && idMap.has(message.translatedFrom)) {
+        tx
+          .update(messages)
+          .set({ translatedFrom: idMap.get(message.translatedFrom)! })
+          .where(eq(messages.id, idMap.get(message.id)!))
+          .run();
       }
     }
 
-    return bubblesWithMessages;
+    const sourceIds = Array.from(idMap.keys());
+    for (const link of tx.select().from(messageKeywords).where(inArray(messageKeywords.messageId, sourceIds)).all()) {
+      tx.insert(messageKeywords).values({ ...link, messageId: idMap.get(link.messageId)! }).run();
+    }
+
+    const bubbleMap = new Map<number, number>();
+    for (const bubble of tx.select().from(bubbles).where(inArray(bubbles.messageId, sourceIds)).all()) {
+      const { id, ...fields } = bubble;
+      const copy = tx.insert(bubbles).values({ ...fields, messageId: idMap.get(bubble.messageId)! }).returning().get();
+      bubbleMap.set(id, copy.id);
+    }
+
+    const sourceBubbleIds = Array.from(bubbleMap.keys());
+    if (sourceBubbleIds.length > 0) {
+      const bubbleConnections = tx
+        .select()
+        .from(connections)
+        .where(and(
+          inArray(connections.fromBubbleId, sourceBubbleIds),
+          inArray(connections.toBubbleId, sourceBubbleIds),
+        ))
+        .all();
+      for (const connection of bubbleConnections) {
+        tx.insert(connections).values({
+          conversationId,
+          fromBubbleId: bubbleMap.get(connection.fromBubbleId)!,
+          toBubbleId: bubbleMap.get(connection.toBubbleId)!,
+          createdAt: connection.createdAt,
+        }).run();
+      }
+    }
+
+    return idMap;
+  }
+
+  // Bubbles
+  async getBubblesByConversation(conversationId: number): Promise<BubbleWithMessage[]> {
+    const rows = await db
+      .select({ bubble: bubbles, message: messages })
+      .from(messages)
+      .innerJoin(bubbles, isFirstBubble)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messages.id);
+
+    return rows.map(({ bubble, message }) => ({ ...bubble, message }));
   }
 
   async getBubble(id: number): Promise<Bubble | undefined> {
@@ -339,31 +979,372 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBubble(bubble: InsertBubble): Promise<Bubble> {
-    const [newBubble] = await db
-      .insert(bubbles)
-      .values(bubble)
-      .returning();
-    return newBubble;
+    return db.transaction((tx) => {
+      if (this.isMessageEncrypted(tx, bubble.messageId)) assertSealed(bubble.title);
+      return tx.insert(bubbles).values(bubble).returning().get();
+    });
   }
 
   async updateBubble(id: number, updates: Partial<InsertBubble>): Promise<Bubble> {
-    const [updated] = await db
-      .update(bubbles)
-      .set(updates)
-      .where(eq(bubbles.id, id))
-      .returning();
+    return db.transaction((tx) => {
+      const existing = tx.select().from(bubbles).where(eq(bubbles.id, id)).get();
+      if (!existing) throw new Error('Bubble not found');
+      if (this.isMessageEncrypted(tx, updates.messageId ?? existing.messageId)) {
+        assertSealed(updates.title ?? existing.title);
+      }
 
-    if (!updated) throw new Error('Bubble not found');
-    return updated;
+      return tx.update(bubbles).set(updates).where(eq(bubbles.id, id)).returning().get();
+    });
   }
 
   async deleteBubble(id: number): Promise<void> {
+    // Connections to the bubble cascade
     await db.delete(bubbles).where(eq(bubbles.id, id));
   }
 
+  // All or nothing: a bubble outside the conversation fails the whole layout
+  async updateBubbleLayout(conversationId: number, layout: BubbleLayout): Promise<BubbleWithMessage[]> {
+    db.transaction((tx) => {
+      this.assertConversationExists(tx, conversationId);
+
+      const owned = new Set(this.conversationBubbleIds(tx, conversationId));
+      if (layout.some(bubble => !owned.has(bubble.id))) throw new Error('Bubble not found');
+
+      for (const { id, ...position } of layout) {
+        tx.update(bubbles).set(position).where(eq(bubbles.id, id)).run();
+      }
+    });
+
+    return this.getBubblesByConversation(conversationId);
+  }
+
+  async recreateBubbles(conversationId: number, { bubbles: created, keepExisting }: RecreateBubbles): Promise<BubbleWithMessage[]> {
+    db.transaction((tx) => {
+      this.assertConversationExists(tx, conversationId);
+
+      const conversationMessageIds = tx
+        .select({ id: messages.id })
+        .from(messages)
+        .where(eq(messages.conversationId, conversationId))
+        .all()
+        .map(row => row.id);
+      const owned = new Set(conversationMessageIds);
+      if (created.some(bubble => !owned.has(bubble.messageId))) throw new Error('Message not found');
+      if (this.isEncrypted(tx, conversationId)) assertSealed(...created.map(bubble => bubble.title));
+
+      let skip = new Set<number>();
+      if (keepExisting) {
+        // Messages that already have a bubble keep it
+        skip = new Set(
+          tx.select({ messageId: bubbles.messageId }).from(bubbles)
+            .where(inArray(bubbles.messageId, conversationMessageIds)).all()
+            .map(row => row.messageId),
+        );
+      } else {
+        // Their connections cascade
+        tx.delete(bubbles).where(inArray(bubbles.id, this.conversationBubbleIds(tx, conversationId))).run();
+      }
+
+      for (const bubble of created) {
+        if (skip.has(bubble.messageId)) continue;
+        skip.add(bubble.messageId);
+        tx.insert(bubbles).values(bubble).run();
+      }
+    });
+
+    return this.getBubblesByConversation(conversationId);
+  }
+
+  private conversationBubbleIds(tx: Transaction, conversationId: number): number[] {
+    return tx
+      .select({ id: bubbles.id })
+      .from(bubbles)
+      .innerJoin(messages, eq(messages.id, bubbles.messageId))
+      .where(eq(messages.conversationId, conversationId))
+      .all()
+      .map(row => row.id);
+  }
+
+  // Connections
+  async getConnectionsByConversation(conversationId: number): Promise<Connection[]> {
+    return await db
+      .select()
+      .from(connections)
+      .where(eq(connections.conversationId, conversationId))
+      .orderBy(connections.createdAt, connections.id);
+  }
+
+  async createConnection(connection: InsertConnection): Promise<Connection> {
+    if (connection.fromBubbleId === connection.toBubbleId) {
+      throw new Error('Cannot connect a bubble to itself');
+    }
+
+    const result = db.transaction((tx) => {
+      const inConversation = tx
+        .select({ id: bubbles.id })
+        .from(bubbles)
+        .innerJoin(messages, eq(messages.id, bubbles.messageId))
+        .where(and(
+          inArray(bubbles.id, [connection.fromBubbleId, connection.toBubbleId]),
+          eq(messages.conversationId, connection.conversationId),
+        ))
+        .all();
+      if (inConversation.length !== 2) throw new Error('Bubbles must belong to the conversation');
+
+      // Connections are undirected for duplicate purposes - A->B blocks B->A
+      const existing = tx
+        .select()
+        .from(connections)
+        .where(and(
+          eq(connections.conversationId, connection.conversationId),
+          or(
+            and(eq(connections.fromBubbleId, connection.fromBubbleId), eq(connections.toBubbleId, connection.toBubbleId)),
+            and(eq(connections.fromBubbleId, connection.toBubbleId), eq(connections.toBubbleId, connection.fromBubbleId)),
+          ),
+        ))
+        .get();
+
+      if (existing) throw new Error('Connection already exists');
+
+      return tx
+        .insert(connections)
+        .values({
+          ...connection,
+          createdAt: connection.createdAt || new Date().toISOString(),
+        })
+        .returning()
+        .get();
+    });
+
+    return result;
+  }
+
+  async importConnections(conversationId: number, incoming: Omit<InsertConnection, "conversationId">[]): Promise<Connection[]> {
+    // Only bubbles that still belong to this conversation can be connected
+    const conversationBubbleIds = new Set(
+      (await this.getBubblesByConversation(conversationId)).map(bubble => bubble.id)
+    );
+
+    db.transaction((tx) => {
+      const existing = tx
+        .select()
+        .from(connections)
+        .where(eq(connections.conversationId, conversationId))
+        .all();
+      const seen = new Set(existing.map(conn => [conn.fromBubbleId, conn.toBubbleId].sort().join('-')));
+
+      for (const connection of incoming) {
+        const key = [connection.fromBubbleId, connection.toBubbleId].sort().join('-');
+        if (
+          connection.fromBubbleId === connection.toBubbleId ||
+          !conversationBubbleIds.has(connection.fromBubbleId) ||
+          !conversationBubbleIds.has(connection.toBubbleId) ||
+          seen.has(key)
+        ) {
+          continue;
+        }
+
+        seen.add(key);
+        tx.insert(connections).values({
+          ...connection,
+          conversationId,
+          createdAt: connection.createdAt || new Date().toISOString(),
+        }).run();
+      }
+    });
+
+    return this.getConnectionsByConversation(conversationId);
+  }
+
+  async deleteConnection(id: number): Promise<void> {
+    await db.delete(connections).where(eq(connections.id, id));
+  }
+
+  // Keywords
+  async getKeywords(userId: number): Promise<KeywordWithCount[]> {
+    return await db
+      .select({
+        id: keywords.id,
+        userId: keywords.userId,
+        name: keywords.name,
+        createdAt: keywords.createdAt,
+        usageCount: sql<number>`count(${messageKeywords.messageId})`,
+      })
+      .from(keywords)
+      .leftJoin(messageKeywords, eq(messageKeywords.keywordId, keywords.id))
+      .where(eq(keywords.userId, userId))
+      .groupBy(keywords.id)
+      .orderBy(keywords.name);
+  }
+
+  async setMessageKeywords(messageId: number, names: string[]): Promise<string[]> {
+    return db.transaction((tx) => {
+      const message = tx.select().from(messages).where(eq(messages.id, messageId)).get();
+      if (!message) throw new Error('Message not found');
+      if (this.isEncrypted(tx, message.conversationId)) {
+        if (hasKeywords(names)) throw new Error("Keywords aren't available in encrypted conversations");
+        return [];
+      }
+
+      this.writeMessageKeywords(tx, messageId, names);
+      return this.readMessageKeywords(tx, messageId);
+    });
+  }
+
+  async renameKeyword(id: number, name: string): Promise<KeywordWithCount> {
+    const newName = name.trim();
+
+    db.transaction((tx) => {
+      const keyword = tx.select().from(keywords).where(eq(keywords.id, id)).get();
+      if (!keyword) throw new Error('Keyword not found');
+
+      const clash = tx.select().from(keywords).where(and(eq(keywords.userId, keyword.userId), eq(keywords.name, newName))).get();
+      if (clash && clash.id !== id) throw new Error('Keyword already exists');
+
+      tx.update(keywords).set({ name: newName }).where(eq(keywords.id, id)).run();
+      this.refreshMessageTitles(tx, this.messageIdsForKeyword(tx, id));
+    });
+
+    return (await this.getKeywordWithCount(id))!;
+  }
+
+  async mergeKeywords(sourceId: number, targetId: number): Promise<KeywordWithCount> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a keyword into itself');
+    }
+
+    db.transaction((tx) => {
+      const source = tx.select().from(keywords).where(eq(keywords.id, sourceId)).get();
+      const target = tx.select().from(keywords).where(eq(keywords.id, targetId)).get();
+      if (!source || !target || source.userId !== target.userId) throw new Error('Keyword not found');
+
+      const affected = this.messageIdsForKeyword(tx, sourceId);
+
+      // Messages tagged with both keep the target's link only
+      tx.run(sql`
+        UPDATE OR IGNORE ${messageKeywords}
+        SET keyword_id = ${targetId}
+        WHERE keyword_id = ${sourceId}
+      `);
+      tx.delete(keywords).where(eq(keywords.id, sourceId)).run();
+
+      this.refreshMessageTitles(tx, affected);
+    });
+
+    return (await this.getKeywordWithCount(targetId))!;
+  }
+
+  async deleteKeyword(id: number): Promise<void> {
+    db.transaction((tx) => {
+      const affected = this.messageIdsForKeyword(tx, id);
+      const result = tx.delete(keywords).where(eq(keywords.id, id)).run();
+      if (result.changes === 0) throw new Error('Keyword not found');
+
+      this.refreshMessageTitles(tx, affected);
+    });
+  }
+
+  private async getKeywordWithCount(id: number): Promise<KeywordWithCount | undefined> {
+    const userId = await this.getOwnerId("keyword", id);
+    if (userId === undefined) return undefined;
+    return (await this.getKeywords(userId)).find(keyword => keyword.id === id);
+  }
+
+  private readMessageKeywords(tx: Transaction, messageId: number): string[] {
+    return tx
+      .select({ name: keywords.name })
+      .from(messageKeywords)
+      .innerJoin(keywords, eq(keywords.id, messageKeywords.keywordId))
+      .where(eq(messageKeywords.messageId, messageId))
+      .orderBy(messageKeywords.position)
+      .all()
+      .map(row => row.name);
+  }
+
+  // Replace a message's keywords with `names` (in order), creating missing
+  // ones among the keywords of the message's owner
+  private writeMessageKeywords(tx: Transaction, messageId: number, names: string[]) {
+    const uniqueNames = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+    const { userId } = tx
+      .select({ userId: conversations.userId })
+      .from(messages)
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .where(eq(messages.id, messageId))
+      .get()!;
+
+    tx.delete(messageKeywords).where(eq(messageKeywords.messageId, messageId)).run();
+    uniqueNames.forEach((name, position) => {
+      const keyword = tx.select().from(keywords).where(and(eq(keywords.userId, userId), eq(keywords.name, name))).get()
+        ?? tx.insert(keywords).values({ userId, name }).returning().get();
+      tx.insert(messageKeywords).values({ messageId, keywordId: keyword.id, position }).run();
+    });
+
+    this.refreshMessageTitles(tx, [messageId]);
+  }
+
+  private messageIdsForKeyword(tx: Transaction, keywordId: number): number[] {
+    return tx
+      .select({ messageId: messageKeywords.messageId })
+      .from(messageKeywords)
+      .where(eq(messageKeywords.keywordId, keywordId))
+      .all()
+      .map(row => row.messageId);
+  }
+
+  // Keep messages.title in step with each message's primary keyword
+  private refreshMessageTitles(tx: Transaction, messageIds: number[]) {
+    if (messageIds.length === 0) return;
+
+    tx.run(sql`
+      UPDATE ${messages}
+      SET title = COALESCE((
+        SELECT k.name
+        FROM ${messageKeywords} mk
+        JOIN ${keywords} k ON k.id = mk.keyword_id
+        WHERE mk.message_id = ${messages}.id
+        ORDER BY mk.position
+        LIMIT 1
+      ), '')
+      WHERE ${inArray(messages.id, messageIds)}
+    `);
+  }
+
   // Articles
-  async getArticles(): Promise<Article[]> {
-    return await db.select().from(articles).orderBy(desc(articles.createdAt));
+  async getArticles(userId: number, query: ArticleListQuery): Promise<ArticleListPage> {
+    const conditions = [eq(articles.userId, userId)];
+    if (query.conversationId !== undefined) {
+      conditions.push(eq(articles.conversationId, query.conversationId));
+    }
+    // Title and text are matched through the full-text index
+    const matchQuery = query.q ? buildMatchQuery(query.q) : null;
+    if (matchQuery) {
+      conditions.push(sql`${articles.id} IN (
+        SELECT (rowid - 1) / 2 FROM search_index WHERE search_index MATCH ${matchQuery} AND kind = 'article'
+      )`);
+    }
+    const where = and(...conditions);
+
+    const sortColumn = query.sort === "words" ? articles.wordCount : articles.updatedAt;
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [{ total }] = await db.select({ total: count() }).from(articles).where(where);
+    const rows = await db
+      .select({ article: articles, conversationName: conversations.name })
+      .from(articles)
+      .leftJoin(conversations, eq(conversations.id, articles.conversationId))
+      .where(where)
+      .orderBy(direction(sortColumn), direction(articles.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    return {
+      total,
+      articles: rows.map(({ article: { content, ...article }, conversationName }) => ({
+        ...article,
+        conversationName,
+        excerpt: documentExcerpt(content),
+      })),
+    };
   }
 
   async getArticle(id: number): Promise<Article | undefined> {
@@ -371,28 +1352,307 @@ export class DatabaseStorage implements IStorage {
     return article || undefined;
   }
 
-  async createArticle(article: InsertArticle): Promise<Article> {
-    const [newArticle] = await db
-      .insert(articles)
-      .values(article)
-      .returning();
-    return newArticle;
+  async getArticlesByConversation(conversationId: number): Promise<Article[]> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) throw new Error('Conversation not found');
+
+    return await db
+      .select()
+      .from(articles)
+      .where(eq(articles.conversationId, conversationId))
+      .orderBy(desc(articles.updatedAt), desc(articles.id));
   }
 
-  async updateArticle(id: number, updates: Partial<InsertArticle>): Promise<Article> {
-    const [updated] = await db
-      .update(articles)
-      .set(updates)
-      .where(eq(articles.id, id))
-      .returning();
+  async createArticle(userId: number, article: InsertArticle): Promise<Article> {
+    return db.transaction((tx) => {
+      this.assertConversationExists(tx, article.conversationId, userId);
 
-    if (!updated) throw new Error('Article not found');
-    return updated;
+      const newArticle = tx
+        .insert(articles)
+        .values({ ...article, userId, wordCount: countWords(article.content) })
+        .returning()
+        .get();
+
+      tx.insert(articleRevisions).values({
+        articleId: newArticle.id,
+        title: newArticle.title,
+        content: newArticle.content,
+      }).run();
+
+      return newArticle;
+    });
+  }
+
+  async updateArticle(id: number, updates: Partial<InsertArticle>, options: ArticleSaveOptions = {}): Promise<Article> {
+    const { expectedVersion, revision = true } = options;
+
+    return db.transaction((tx) => {
+      const existing = tx.select().from(articles).where(eq(articles.id, id)).get();
+      if (!existing) throw new Error('Article not found');
+      if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+        throw new Error('Article version conflict');
+      }
+      this.assertConversationExists(tx, updates.conversationId, existing.userId);
+
+      const updated = tx
+        .update(articles)
+        .set({
+          ...updates,
+          ...(updates.content ? { wordCount: countWords(updates.content) } : {}),
+          version: existing.version + 1,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(articles.id, id))
+        .returning()
+        .get();
+
+      if (revision) this.recordRevision(tx, updated);
+      return updated;
+    });
+  }
+
+  // Autosaves skip the history, so the article is compared against the newest
+  // revision rather than its previous row; text already there isn't added again
+  private recordRevision(tx: Transaction, article: Article) {
+    const latest = tx
+      .select()
+      .from(articleRevisions)
+      .where(eq(articleRevisions.articleId, article.id))
+      .orderBy(desc(articleRevisions.createdAt), desc(articleRevisions.id))
+      .limit(1)
+      .get();
+    if (latest && latest.title === article.title && JSON.stringify(latest.content) === JSON.stringify(article.content)) return;
+
+    tx.insert(articleRevisions).values({
+      articleId: article.id,
+      title: article.title,
+      content: article.content,
+    }).run();
+  }
+
+  async duplicateArticle(id: number): Promise<Article> {
+    return db.transaction((tx) => {
+      const original = tx.select().from(articles).where(eq(articles.id, id)).get();
+      if (!original) throw new Error('Article not found');
+
+      const copy = tx
+        .insert(articles)
+        .values({
+          userId: original.userId,
+          title: `${original.title} (Copy)`,
+          conversationId: original.conversationId,
+          content: original.content,
+          bubbleIds: original.bubbleIds,
+          wordCount: original.wordCount,
+        })
+        .returning()
+        .get();
+
+      // The copy's history starts with its current state
+      tx.insert(articleRevisions).values({
+        articleId: copy.id,
+        title: copy.title,
+        content: copy.content,
+      }).run();
+
+      return copy;
+    });
+  }
+
+  // Whether the conversation keeps its messages encrypted
+  private isEncrypted(tx: Transaction, conversationId: number): boolean {
+    const conversation = tx
+      .select({ encryption: conversations.encryption })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .get();
+    return !!conversation?.encryption;
+  }
+
+  private isMessageEncrypted(tx: Transaction, messageId: number): boolean {
+    const row = tx
+      .select({ encryption: conversations.encryption })
+      .from(messages)
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .where(eq(messages.id, messageId))
+      .get();
+    return !!row?.encryption;
+  }
+
+  // Articles may be linked to no conversation, but not to a missing one, nor
+  // (given `userId`) to someone else's
+  private assertConversationExists(tx: Transaction, conversationId: number | null | undefined, userId?: number) {
+    if (conversationId == null) return;
+    const conversation = tx.select({ userId: conversations.userId }).from(conversations).where(eq(conversations.id, conversationId)).get();
+    if (!conversation || (userId !== undefined && conversation.userId !== userId)) throw new Error('Conversation not found');
   }
 
   async deleteArticle(id: number): Promise<void> {
     await db.delete(articles).where(eq(articles.id, id));
   }
+
+  async getArticleRevisions(articleId: number): Promise<ArticleRevision[]> {
+    const article = await this.getArticle(articleId);
+    if (!article) throw new Error('Article not found');
+
+    return await db
+      .select()
+      .from(articleRevisions)
+      .where(eq(articleRevisions.articleId, articleId))
+      .orderBy(desc(articleRevisions.createdAt), desc(articleRevisions.id));
+  }
+
+  async restoreArticleRevision(articleId: number, revisionId: number): Promise<Article> {
+    const [revision] = await db
+      .select()
+      .from(articleRevisions)
+      .where(and(eq(articleRevisions.id, revisionId), eq(articleRevisions.articleId, articleId)));
+
+    if (!revision) throw new Error('Revision not found');
+
+    // Text that was only autosaved goes into the history before it is replaced
+    const article = await this.getArticle(articleId);
+    if (!article) throw new Error('Article not found');
+    db.transaction((tx) => this.recordRevision(tx, article));
+
+    // Restoring is itself a save, so it shows up as the newest revision
+    return this.updateArticle(articleId, {
+      title: revision.title,
+      content: revision.content,
+    });
+  }
+
+  // Translation cache
+  async getCachedTranslation(userId: number, textHash: string, sourceLanguage: string, targetLanguage: string): Promise<Translation | undefined> {
+    const [cached] = await db
+      .select()
+      .from(translations)
+      .where(and(
+        eq(translations.userId, userId),
+        eq(translations.textHash, textHash),
+        eq(translations.sourceLanguage, sourceLanguage),
+        eq(translations.targetLanguage, targetLanguage),
+      ));
+    return cached || undefined;
+  }
+
+  async cacheTranslation(userId: number, translation: InsertTranslation): Promise<Translation> {
+    const [cached] = await db
+      .insert(translations)
+      .values({ ...translation, userId })
+      .onConflictDoUpdate({
+        target: [translations.userId, translations.textHash, translations.sourceLanguage, translations.targetLanguage],
+        set: {
+          provider: translation.provider,
+          translatedText: translation.translatedText,
+          createdAt: new Date().toISOString(),
+        },
+      })
+      .returning();
+    return cached;
+  }
+
+  // Search
+  async search(userId: number, query: string, limit = 50): Promise<SearchResult[]> {
+    const matchQuery = buildMatchQuery(query);
+    if (!matchQuery) return [];
+
+    const { start, end } = SNIPPET_MARKERS;
+    const rows = db.all<{
+      kind: "message" | "article";
+      id: number;
+      conversationId: number | null;
+      conversationName: string | null;
+      title: string | null;
+      snippet: string | null;
+      rank: number;
+      createdAt: string;
+      bubbleId: number | null;
+    }>(sql`
+      WITH hits AS (
+        SELECT
+          rowid,
+          kind,
+          highlight(search_index, 0, ${start}, ${end}) AS title,
+          snippet(search_index, 1, ${start}, ${end}, '…', 24) AS snippet,
+          bm25(search_index, 5.0, 1.0) AS rank
+        FROM search_index
+        WHERE search_index MATCH ${matchQuery}
+          -- Others' rows are left out before the limit, not after
+          AND CASE kind
+            WHEN 'message' THEN rowid / 2 IN (
+              SELECT m.id FROM messages m JOIN conversations c ON c.id = m.conversation_id WHERE c.user_id = ${userId}
+            )
+            ELSE (rowid - 1) / 2 IN (SELECT id FROM articles WHERE user_id = ${userId})
+          END
+        ORDER BY rank
+        LIMIT ${limit}
+      )
+      SELECT
+        h.kind AS kind,
+        COALESCE(m.id, a.id) AS id,
+        COALESCE(m.conversation_id, a.conversation_id) AS conversationId,
+        c.name AS conversationName,
+        h.title AS title,
+        h.snippet AS snippet,
+        h.rank AS rank,
+        COALESCE(m.created_at, a.updated_at) AS createdAt,
+        (SELECT b.id FROM bubbles b WHERE b.message_id = m.id LIMIT 1) AS bubbleId
+      FROM hits h
+      LEFT JOIN messages m ON h.kind = 'message' AND m.id = h.rowid / 2
+      LEFT JOIN articles a ON h.kind = 'article' AND a.id = (h.rowid - 1) / 2
+      LEFT JOIN conversations c ON c.id = COALESCE(m.conversation_id, a.conversation_id)
+      ORDER BY h.rank
+    `);
+
+    return rows.map(row => ({
+      kind: row.kind,
+      id: row.id,
+      conversationId: row.conversationId,
+      conversationName: row.conversationName,
+      title: formatHighlight(row.title),
+      snippet: formatHighlight(row.snippet),
+      rank: row.rank,
+      createdAt: row.createdAt,
+      hasBubble: row.bubbleId !== null,
+      link: row.kind === "message"
+        ? `/chat/${row.conversationId}?message=${row.id}`
+        : row.conversationId !== null
+          ? `/article/${row.conversationId}?article=${row.id}`
+          : "/article",
+    }));
+  }
+
+  // Integrity
+  async checkIntegrity(): Promise<IntegrityReport> {
+    const orphans = findOrphans();
+    return { ok: orphans.length === 0, orphans, repaired: 0 };
+  }
+
+  async repairIntegrity(): Promise<IntegrityReport> {
+    const orphans = findOrphans();
+
+    // Deleting an orphan cascades to its own children, so one pass is enough
+    db.transaction((tx) => {
+      for (const orphan of orphans) {
+        tx.run(sql`DELETE FROM ${sql.identifier(orphan.table)} WHERE rowid = ${orphan.rowId}`);
+      }
+    });
+
+    const remaining = findOrphans();
+    return {
+      ok: remaining.length === 0,
+      orphans: remaining,
+      repaired: orphans.length - remaining.length,
+    };
+  }
+}
+
+// Rows left behind from before foreign keys were enforced
+function findOrphans(): IntegrityOrphan[] {
+  return db
+    .all<{ table: string; rowid: number; parent: string }>(sql`PRAGMA foreign_key_check`)
+    .map(row => ({ table: row.table, rowId: row.rowid, parent: row.parent }));
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,15 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+// Every test file runs against a database of its own in the temp directory,
+// never the project's database.sqlite. server/db opens it on first import.
+const dbPath = path.join(os.tmpdir(), `test-${process.pid}-${Date.now()}.sqlite`);
+process.env.DATABASE_PATH = dbPath;
+process.env.ADMIN_PASSWORD = "admin-password";
+process.env.TRANSLATION_PROVIDER = "mock";
+
+afterAll(() => {
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) fs.rmSync(file, { force: true });
+});
@@ -0,0 +1,39 @@
+import express from "express";
+import request from "supertest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// The API as server/index.ts sets it up, without Vite or the listening server
+export async function createTestApp() {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+  await registerRoutes(app);
+  return app;
+}
+
+let userCount = 0;
+const nextUsername = () => `user${++userCount}`;
+
+export const TEST_PASSWORD = "password-1";
+
+// A new account, signed in; the agent keeps its session cookie
+export async function signUp(app: express.Express) {
+  const agent = request.agent(app);
+  const { body: user } = await agent.post("/api/register").send({ username: nextUsername(), password: TEST_PASSWORD }).expect(201);
+  return Object.assign(agent, { user });
+}
+
+export const createUser = () => storage.createUser({ username: nextUsername(), passwordHash: "" });
+
+// A conversation of the user's with a bubble for each message
+export async function seedConversation(userId: number, texts = ["first message", "second message"]) {
+  const conversation = await storage.createConversation(userId, { name: "Notes" });
+  const messages = [];
+  const bubbles = [];
+  for (const text of texts) {
+    const message = await storage.createMessage({ conversationId: conversation.id, text });
+    messages.push(message);
+    bubbles.push(await storage.createBubble({ messageId: message.id }));
+  }
+  return { conversation, messages, bubbles };
+}
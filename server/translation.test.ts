@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import request from "supertest";
+import { storage } from "./storage";
+import { createTestApp, signUp } from "./test-utils";
+import { getTranslationProvider, hashText, TranslationError } from "./translation";
+
+describe("getTranslationProvider", () => {
+  it("falls back to TRANSLATION_PROVIDER and refuses unknown names", () => {
+    expect(getTranslationProvider().name).toBe("mock");
+    expect(getTranslationProvider("google").name).toBe("google");
+    expect(() => getTranslationProvider("unknown")).toThrow(TranslationError);
+  });
+});
+
+describe("translation routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("translate with the server's provider unless one is picked", async () => {
+    const agent = await signUp(app);
+    await agent.post("/api/translate").send({ text: "hello", from: "en", to: "fr" })
+      .expect(200, { translatedText: "[fr] hello", provider: "mock", cached: false });
+    await agent.post("/api/translate").send({ text: "hello", from: "en", to: "fr", provider: "unknown" }).expect(400);
+    await agent.post("/api/translate").send({ text: "", from: "en", to: "fr" }).expect(400);
+  });
+
+  it("answer from the cache, saying which provider translated", async () => {
+    const agent = await signUp(app);
+    await storage.cacheTranslation(agent.user.id, {
+      textHash: hashText("good morning"),
+      sourceLanguage: "en",
+      targetLanguage: "de",
+      provider: "google",
+      translatedText: "Guten Morgen",
+    });
+
+    await agent.post("/api/translate").send({ text: "good morning", from: "en", to: "de" })
+      .expect(200, { translatedText: "Guten Morgen", provider: "google", cached: true });
+  });
+
+  it("keep each user's cache to themselves", async () => {
+    const agent = await signUp(app);
+    const stranger = await signUp(app);
+    await storage.cacheTranslation(stranger.user.id, {
+      textHash: hashText("good night"),
+      sourceLanguage: "en",
+      targetLanguage: "de",
+      provider: "google",
+      translatedText: "Gute Nacht",
+    });
+
+    await agent.post("/api/translate").send({ text: "good night", from: "en", to: "de" })
+      .expect(200, { translatedText: "[de] good night", provider: "mock", cached: false });
+  });
+
+  it("don't cache mock translations", async () => {
+    const agent = await signUp(app);
+    await agent.post("/api/translate").send({ text: "placeholder", from: "en", to: "es" }).expect(200);
+    expect(await storage.getCachedTranslation(agent.user.id, hashText("placeholder"), "en", "es")).toBeUndefined();
+  });
+
+  it("need a signed-in user", async () => {
+    await request(app).post("/api/translate").send({ text: "hello", from: "en", to: "fr" }).expect(401);
+  });
+});
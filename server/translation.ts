@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+
+// Translation runs on the server so the browser never talks to a translation
+// service directly and results can be cached. Providers are picked per request;
+// TRANSLATION_PROVIDER sets the default.
+
+export interface TranslationProvider {
+  name: string;
+  translate(text: string, from: string, to: string): Promise<string>;
+}
+
+// A provider failed or is not configured - the message is safe to show to users
+export class TranslationError extends Error {
+  constructor(message: string, public provider: string) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// The free endpoint behind translate.google.com. Long texts come back split
+// into sentences, which are joined again here.
+class GoogleTranslateProvider implements TranslationProvider {
+  name = 'google';
+
+  async translate(text: string, from: string, to: string): Promise<string> {
+    const params = new URLSearchParams({ client: 'gtx', sl: from, tl: to, dt: 't', q: text });
+
+    let response: Response;
+    try {
+      response = await fetch(`https://translate.googleapis.com/translate_a/single?${params}`);
+    } catch (error) {
+      throw new TranslationError(`Google Translate is unreachable: ${error instanceof Error ? error.message : 'network error'}`, this.name);
+    }
+
+    if (!response.ok) {
+      throw new TranslationError(`Google Translate responded with ${response.status}`, this.name);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data?.[0])) {
+      throw new TranslationError('Google Translate returned an unexpected response', this.name);
+    }
+
+    const translated = data[0]
+      .map((segment: unknown) => (Array.isArray(segment) && typeof segment[0] === 'string' ? segment[0] : ''))
+      .join('');
+    if (!translated) {
+      throw new TranslationError('Google Translate returned an empty translation', this.name);
+    }
+    return translated;
+  }
+}
+
+// Any chat-completions API speaking the OpenAI protocol (OpenAI, Azure, Ollama, ...)
+class OpenAICompatibleProvider implements TranslationProvider {
+  name = 'openai';
+
+  async translate(text: string, from: string, to: string): Promise<string> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new TranslationError('The OpenAI-compatible provider is not configured (set OPENAI_API_KEY)', this.name);
+    }
+
+    const client = new OpenAI({ apiKey, baseURL: process.env.OPENAI_BASE_URL || undefined });
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: process.env.TRANSLATION_MODEL || 'gpt-4o-mini',
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's text from language "${from}" to language "${to}". ` +
+              'Reply with the translation only, keeping line breaks and without quotes or explanations.',
+          },
+          { role: 'user', content: text },
+        ],
+      });
+
+      const translated = completion.choices[0]?.message?.content?.trim();
+      if (!translated) {
+        throw new TranslationError('The OpenAI-compatible provider returned an empty translation', this.name);
+      }
+      return translated;
+    } catch (error) {
+      if (error instanceof TranslationError) throw error;
+      throw new TranslationError(`The OpenAI-compatible provider failed: ${error instanceof Error ? error.message : 'unknown error'}`, this.name);
+    }
+  }
+}
+
+// Offline stand-in for development: tags the text with the target language
+class MockTranslationProvider implements TranslationProvider {
+  name = 'mock';
+
+  async translate(text: string, from: string, to: string): Promise<string> {
+    return `[${to}] ${text}`;
+  }
+}
+
+const providers: Record<string, TranslationProvider> = {
+  google: new GoogleTranslateProvider(),
+  openai: new OpenAICompatibleProvider(),
+  mock: new MockTranslationProvider(),
+};
+
+export const translationProviderNames = Object.keys(providers);
+
+export function getTranslationProvider(name?: string): TranslationProvider {
+  const providerName = name || process.env.TRANSLATION_PROVIDER || 'google';
+  const provider = providers[providerName];
+  if (!provider) {
+    throw new TranslationError(`Unknown translation provider "${providerName}"`, providerName);
+  }
+  return provider;
+}
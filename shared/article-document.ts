@@ -0,0 +1,668 @@
+import { z } from "zod";
+
+// Articles are stored as a typed JSON document rather than HTML. The shape is
+// the ProseMirror JSON the article editor (TipTap) reads and writes, limited
+// to the blocks and marks the editor offers:
+//
+//   doc > paragraph | heading | bulletList | orderedList | horizontalRule | messageEmbed
+//   bulletList/orderedList > listItem > paragraph, nested lists
+//   paragraph/heading > text (with bold/italic/underline marks) | hardBreak
+//
+// Text taken from a message also carries a `source` mark naming the message
+// (and the bubble it was dragged in from), so exports can cite it. A
+// `messageEmbed` is a live copy of a whole message: it keeps the text the
+// writer last accepted, and shows the message's current text unless pinned.
+//
+// Everything here is pure and DOM-free so the server can use it too (search
+// indexing, migrating old HTML articles).
+
+export type ArticleMarkType = "bold" | "italic" | "underline";
+
+// Where a piece of text was taken from
+export type ArticleSource = { messageId: number; bubbleId: number | null };
+
+export type ArticleMark = { type: ArticleMarkType } | { type: "source"; attrs: ArticleSource };
+
+export type ArticleText = { type: "text"; text: string; marks?: ArticleMark[] };
+export type ArticleHardBreak = { type: "hardBreak" };
+export type ArticleInline = ArticleText | ArticleHardBreak;
+
+export type ArticleParagraph = { type: "paragraph"; content?: ArticleInline[] };
+export type ArticleHeading = { type: "heading"; attrs: { level: 1 | 2 | 3 }; content?: ArticleInline[] };
+export type ArticleListItem = { type: "listItem"; content: (ArticleParagraph | ArticleList)[] };
+export type ArticleBulletList = { type: "bulletList"; content: ArticleListItem[] };
+export type ArticleOrderedList = { type: "orderedList"; attrs?: { start?: number }; content: ArticleListItem[] };
+export type ArticleList = ArticleBulletList | ArticleOrderedList;
+export type ArticleDivider = { type: "horizontalRule" };
+export type ArticleEmbed = {
+  type: "messageEmbed";
+  // `text` is the message as last accepted; `pinned` keeps showing it after the message changes
+  attrs: { messageId: number; bubbleId: number | null; text: string; pinned: boolean };
+};
+
+export type ArticleBlock = ArticleParagraph | ArticleHeading | ArticleList | ArticleDivider | ArticleEmbed;
+// Blocks once embeds have been written out as text
+export type ArticleTextBlock = Exclude<ArticleBlock, ArticleEmbed>;
+
+export type ArticleDocument = { type: "doc"; content: ArticleBlock[] };
+
+const markSchema: z.ZodType<ArticleMark> = z.union([
+  z.object({ type: z.enum(["bold", "italic", "underline"]) }),
+  z.object({
+    type: z.literal("source"),
+    attrs: z.object({ messageId: z.number().int(), bubbleId: z.number().int().nullable() }),
+  }),
+]);
+
+const inlineSchema: z.ZodType<ArticleInline> = z.union([
+  z.object({ type: z.literal("text"), text: z.string().min(1), marks: z.array(markSchema).optional() }),
+  z.object({ type: z.literal("hardBreak") }),
+]);
+
+const paragraphSchema: z.ZodType<ArticleParagraph> = z.object({
+  type: z.literal("paragraph"),
+  content: z.array(inlineSchema).optional(),
+});
+
+const listItemSchema: z.ZodType<ArticleListItem> = z.lazy(() => z.object({
+  type: z.literal("listItem"),
+  content: z.array(z.union([paragraphSchema, listSchema])).min(1),
+}));
+
+const listSchema: z.ZodType<ArticleList> = z.lazy(() => z.union([
+  z.object({ type: z.literal("bulletList"), content: z.array(listItemSchema).min(1) }),
+  z.object({
+    type: z.literal("orderedList"),
+    attrs: z.object({ start: z.number().int().optional() }).passthrough().optional(),
+    content: z.array(listItemSchema).min(1),
+  }),
+]));
+
+const blockSchema: z.ZodType<ArticleBlock> = z.union([
+  paragraphSchema,
+  z.object({
+    type: z.literal("heading"),
+    attrs: z.object({ level: z.union([z.literal(1), z.literal(2), z.literal(3)]) }),
+    content: z.array(inlineSchema).optional(),
+  }),
+  listSchema,
+  z.object({ type: z.literal("horizontalRule") }),
+  z.object({
+    type: z.literal("messageEmbed"),
+    attrs: z.object({
+      messageId: z.number().int(),
+      bubbleId: z.number().int().nullable(),
+      text: z.string(),
+      pinned: z.boolean(),
+    }),
+  }),
+]);
+
+export const articleDocumentSchema: z.ZodType<ArticleDocument> = z.object({
+  type: z.literal("doc"),
+  content: z.array(blockSchema),
+});
+
+// What the editor holds when it is cleared: a single empty paragraph
+export function emptyDocument(): ArticleDocument {
+  return { type: "doc", content: [{ type: "paragraph" }] };
+}
+
+export function isArticleDocument(value: unknown): value is ArticleDocument {
+  return articleDocumentSchema.safeParse(value).success;
+}
+
+export function textParagraph(text: string): ArticleParagraph {
+  return text ? { type: "paragraph", content: [{ type: "text", text }] } : { type: "paragraph" };
+}
+
+export function textHeading(text: string, level: 1 | 2 | 3): ArticleHeading {
+  return text
+    ? { type: "heading", attrs: { level }, content: [{ type: "text", text }] }
+    : { type: "heading", attrs: { level } };
+}
+
+export function sourceOf(node: ArticleInline | undefined): ArticleSource | null {
+  if (node?.type !== "text") return null;
+  const mark = node.marks?.find(mark => mark.type === "source");
+  return mark?.type === "source" ? mark.attrs : null;
+}
+
+// Whether `node` ends a run of text cited from one message, i.e. the place a
+// footnote marker goes
+function endsSourceRun(node: ArticleInline, next: ArticleInline | undefined): boolean {
+  const source = sourceOf(node);
+  return source !== null && sourceOf(next)?.messageId !== source.messageId;
+}
+
+// ---------------------------------------------------------------------------
+// Embeds
+
+// What an embed shows: the message's current text, or the accepted text when
+// it is pinned or the message is gone
+export function embedText(embed: ArticleEmbed, currentText?: string): string {
+  return embed.attrs.pinned || currentText === undefined ? embed.attrs.text : currentText;
+}
+
+// The embed's text as paragraphs citing the message
+function embedParagraphs(embed: ArticleEmbed): ArticleParagraph[] {
+  const { messageId, bubbleId, text } = embed.attrs;
+  return text.split(/\n+/).filter(line => line.trim()).map(line => ({
+    type: "paragraph",
+    content: [{ type: "text", text: line, marks: [{ type: "source", attrs: { messageId, bubbleId } }] }],
+  }));
+}
+
+// The document's blocks with every embed written out as cited paragraphs,
+// which is how all formats other than the editor show them
+export function expandEmbeds(doc: ArticleDocument): ArticleTextBlock[] {
+  return doc.content.flatMap(block => (block.type === "messageEmbed" ? embedParagraphs(block) : [block]));
+}
+
+// Brings the embeds up to date with the messages' current text, e.g. before
+// exporting. `currentText` is undefined for a message that no longer exists.
+export function resolveEmbeds(doc: ArticleDocument, currentText: (messageId: number) => string | undefined): ArticleDocument {
+  return {
+    type: "doc",
+    content: doc.content.map(block => block.type === "messageEmbed"
+      ? { ...block, attrs: { ...block.attrs, text: embedText(block, currentText(block.attrs.messageId)) } }
+      : block),
+  };
+}
+
+function listInline(list: ArticleList): ArticleInline[] {
+  return list.content.flatMap(item => item.content.flatMap(child =>
+    child.type === "paragraph" ? child.content ?? [] : listInline(child)
+  ));
+}
+
+// Messages the document cites, in the order they are first cited
+export function documentSources(doc: ArticleDocument): number[] {
+  const inline = expandEmbeds(doc).flatMap(block => {
+    switch (block.type) {
+      case "paragraph":
+      case "heading":
+        return block.content ?? [];
+      case "bulletList":
+      case "orderedList":
+        return listInline(block);
+      case "horizontalRule":
+        return [];
+    }
+  });
+  const ids = inline.map(node => sourceOf(node)?.messageId).filter((id): id is number => id !== undefined);
+  return Array.from(new Set(ids));
+}
+
+// Keeps every block of `base` and adds the blocks of `other` it doesn't already
+// have, each after the block it followed in `other`. Used to merge two copies of
+// an article edited apart without losing text from either.
+export function combineDocuments(base: ArticleDocument, other: ArticleDocument): ArticleDocument {
+  const key = (block: ArticleBlock) => JSON.stringify(block);
+  const content = [...base.content];
+  const present = new Set(content.map(key));
+
+  let insertAt = 0;
+  for (const block of other.content) {
+    const index = content.findIndex((existing, i) => i >= insertAt && key(existing) === key(block));
+    if (index !== -1) {
+      insertAt = index + 1;
+    } else if (!present.has(key(block))) {
+      content.splice(insertAt++, 0, block);
+      present.add(key(block));
+    }
+  }
+
+  return { type: "doc", content };
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+
+function inlineText(content: ArticleInline[] = []): string {
+  return content.map(node => (node.type === "text" ? node.text : "\n")).join("");
+}
+
+function listText(list: ArticleList): string[] {
+  return list.content.flatMap(item => item.content.flatMap(child =>
+    child.type === "paragraph" ? [inlineText(child.content)] : listText(child)
+  ));
+}
+
+// One line per paragraph, heading and list item
+export function documentToPlainText(doc: ArticleDocument): string {
+  return expandEmbeds(doc)
+    .flatMap(block => {
+      switch (block.type) {
+        case "paragraph":
+        case "heading":
+          return [inlineText(block.content)];
+        case "bulletList":
+        case "orderedList":
+          return listText(block);
+        case "horizontalRule":
+          return [];
+      }
+    })
+    .join("\n")
+    .trim();
+}
+
+export function countWords(doc: ArticleDocument): number {
+  const text = documentToPlainText(doc);
+  return text ? text.split(/\s+/).filter(Boolean).length : 0;
+}
+
+// The first paragraph that has text, for previews. Falls back to the first
+// text of any kind, e.g. for an article that is only a list.
+export function documentExcerpt(doc: ArticleDocument, maxLength = 280): string {
+  const paragraph = expandEmbeds(doc).find(block => block.type === "paragraph" && inlineText(block.content).trim());
+  const text = (paragraph?.type === "paragraph" ? inlineText(paragraph.content) : documentToPlainText(doc))
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_MARK_TAGS: Record<ArticleMarkType, string> = { bold: "strong", italic: "em", underline: "u" };
+
+function inlineToHtml(content: ArticleInline[] = []): string {
+  return content.map(node => {
+    if (node.type === "hardBreak") return "<br>";
+    return (node.marks || []).reduce((html, mark) => {
+      if (mark.type === "source") {
+        const bubble = mark.attrs.bubbleId !== null ? ` data-bubble-id="${mark.attrs.bubbleId}"` : "";
+        return `<span data-message-id="${mark.attrs.messageId}"${bubble}>${html}</span>`;
+      }
+      return `<${HTML_MARK_TAGS[mark.type]}>${html}</${HTML_MARK_TAGS[mark.type]}>`;
+    }, escapeHtml(node.text));
+  }).join("");
+}
+
+function blockToHtml(block: ArticleTextBlock | ArticleListItem): string {
+  switch (block.type) {
+    case "paragraph":
+      return `<p>${inlineToHtml(block.content)}</p>`;
+    case "heading":
+      return `<h${block.attrs.level}>${inlineToHtml(block.content)}</h${block.attrs.level}>`;
+    case "bulletList":
+      return `<ul>${block.content.map(blockToHtml).join("")}</ul>`;
+    case "orderedList": {
+      const start = block.attrs?.start;
+      return `<ol${start && start !== 1 ? ` start="${start}"` : ""}>${block.content.map(blockToHtml).join("")}</ol>`;
+    }
+    case "listItem":
+      return `<li>${block.content.map(blockToHtml).join("")}</li>`;
+    case "horizontalRule":
+      return "<hr>";
+  }
+}
+
+export function documentToHtml(doc: ArticleDocument): string {
+  return expandEmbeds(doc).map(blockToHtml).join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+// Characters that would otherwise start emphasis, code or a link
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+// Line starts that Markdown would read as a heading, list, quote or rule
+function escapeLineStart(line: string): string {
+  return line.replace(/^(\s*)(#{1,6}\s|[-+>]\s|\d+[.)]\s|-{3,}\s*$)/, (_, space, marker) => `${space}\\${marker}`);
+}
+
+// Footnote numbers by cited message, in order of first citation
+type Footnotes = Map<number, number>;
+
+function footnoteRef(footnotes: Footnotes, messageId: number): string {
+  if (!footnotes.has(messageId)) footnotes.set(messageId, footnotes.size + 1);
+  return `[^${footnotes.get(messageId)}]`;
+}
+
+function inlineToMarkdown(content: ArticleInline[] = [], footnotes: Footnotes): string {
+  const markdown = content.map((node, index) => {
+    if (node.type === "hardBreak") return "\\\n";
+
+    const source = sourceOf(node);
+    const footnote = source && endsSourceRun(node, content[index + 1]) ? footnoteRef(footnotes, source.messageId) : "";
+
+    // Keep surrounding spaces outside the markers, or they would not parse
+    const [, leading, core, trailing] = node.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!core) return `${node.text}${footnote}`;
+    const marks = new Set((node.marks || []).map(mark => mark.type));
+    let text = escapeMarkdown(core);
+    if (marks.has("underline")) text = `<u>${text}</u>`;
+    if (marks.has("italic")) text = `_${text}_`;
+    if (marks.has("bold")) text = `**${text}**`;
+    return `${leading}${text}${footnote}${trailing}`;
+  }).join("");
+
+  return markdown.split("\n").map(escapeLineStart).join("\n");
+}
+
+function listToMarkdown(list: ArticleList, indent: string, footnotes: Footnotes): string {
+  let number = list.type === "orderedList" ? list.attrs?.start ?? 1 : 0;
+
+  return list.content.map(item => {
+    const marker = list.type === "orderedList" ? `${number++}.` : "-";
+    const childIndent = indent + " ".repeat(marker.length + 1);
+    return item.content.map((child, index) => {
+      if (child.type !== "paragraph") return listToMarkdown(child, childIndent, footnotes);
+      const text = inlineToMarkdown(child.content, footnotes).replace(/\n/g, `\n${childIndent}`);
+      return index === 0 ? `${indent}${marker} ${text}` : `${childIndent}${text}`;
+    }).join("\n");
+  }).join("\n");
+}
+
+// Text cited from messages gets a footnote; `describeSource` gives the text
+// of the note for a message
+export function documentToMarkdown(
+  doc: ArticleDocument,
+  describeSource: (messageId: number) => string = messageId => `Message ${messageId}`,
+): string {
+  const footnotes: Footnotes = new Map();
+  const body = expandEmbeds(doc)
+    .map(block => {
+      switch (block.type) {
+        case "paragraph":
+          return inlineToMarkdown(block.content, footnotes);
+        case "heading":
+          return `${"#".repeat(block.attrs.level)} ${inlineToMarkdown(block.content, footnotes)}`;
+        case "bulletList":
+        case "orderedList":
+          return listToMarkdown(block, "", footnotes);
+        case "horizontalRule":
+          return "---";
+      }
+    })
+    .join("\n\n")
+    .trim();
+
+  const notes = Array.from(footnotes, ([messageId, number]) => `[^${number}]: ${escapeMarkdown(describeSource(messageId))}`);
+  return [body, notes.join("\n")].filter(Boolean).join("\n\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Importing HTML
+//
+// Articles written before the document model were stored as the editor's
+// innerHTML. This is a small, forgiving HTML reader for that markup - it does
+// not need (or have) a DOM, so it also runs inside the database migration.
+
+interface HtmlElement {
+  tag: string;
+  style: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "wbr"]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "title"]);
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "div", "footer", "h1", "h2", "h3", "h4", "h5", "h6",
+  "header", "hr", "li", "ol", "p", "pre", "section", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", style: "", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+|<)/g;
+  let skipping: string | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    const [token, closing, rawTag, rawAttrs, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      if (!skipping) current.children.push(decodeEntities(text));
+      continue;
+    }
+    if (!rawTag) continue; // comment
+
+    const tag = rawTag.toLowerCase();
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+
+    if (closing) {
+      // Close the nearest matching element; stray closing tags are ignored
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!token.endsWith("/>")) skipping = tag;
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const element: HtmlElement = { tag, style: (attrs.style || "").toLowerCase(), attrs, children: [] };
+    // A new <li> or <p> implicitly closes an open one
+    if (tag === "li" || tag === "p") {
+      const index = stack.map(open => open.tag).lastIndexOf(tag);
+      const list = Math.max(stack.map(open => open.tag).lastIndexOf("ul"), stack.map(open => open.tag).lastIndexOf("ol"));
+      if (index > 0 && (tag === "p" || index > list)) stack.length = index;
+    }
+    stack[stack.length - 1].children.push(element);
+    if (!VOID_TAGS.has(tag) && !token.endsWith("/>")) stack.push(element);
+  }
+
+  return root;
+}
+
+function isBlockElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== "string" && BLOCK_TAGS.has(node.tag);
+}
+
+function listElement(node: HtmlNode): HtmlElement | null {
+  return typeof node !== "string" && (node.tag === "ul" || node.tag === "ol") ? node : null;
+}
+
+// Bold, italic and underline come either from tags or, with styleWithCSS, from inline styles
+function marksOf(element: HtmlElement, inherited: ArticleMarkType[]): ArticleMarkType[] {
+  const marks = new Set(inherited);
+  const weight = element.style.match(/font-weight\s*:\s*([a-z0-9]+)/)?.[1];
+  if (element.tag === "b" || element.tag === "strong" || weight === "bold" || weight === "bolder" || (weight && parseInt(weight) >= 600)) {
+    marks.add("bold");
+  }
+  if (element.tag === "i" || element.tag === "em" || /font-style\s*:\s*italic/.test(element.style)) {
+    marks.add("italic");
+  }
+  if (element.tag === "u" || /text-decoration[a-z-]*\s*:[^;]*underline/.test(element.style)) {
+    marks.add("underline");
+  }
+  return ["bold", "italic", "underline"].filter(mark => marks.has(mark as ArticleMarkType)) as ArticleMarkType[];
+}
+
+function collectInline(node: HtmlNode, marks: ArticleMarkType[], out: ArticleInline[]) {
+  if (typeof node === "string") {
+    const text = node.replace(/[ \t\r\n\f]+/g, " ");
+    if (text) out.push(marks.length > 0 ? { type: "text", text, marks: marks.map(type => ({ type })) } : { type: "text", text });
+    return;
+  }
+  if (node.tag === "br") {
+    out.push({ type: "hardBreak" });
+    return;
+  }
+  // Block elements nested inside inline content still start a new line
+  if (isBlockElement(node) && out.length > 0) out.push({ type: "hardBreak" });
+  const childMarks = marksOf(node, marks);
+  node.children.forEach(child => collectInline(child, childMarks, out));
+}
+
+function sameMarks(a: ArticleText, b: ArticleText): boolean {
+  return JSON.stringify(a.marks || []) === JSON.stringify(b.marks || []);
+}
+
+// Merges neighbouring text with the same marks and trims whitespace at the
+// edges and around line breaks, as a browser would when rendering
+function normalizeInline(content: ArticleInline[]): ArticleInline[] {
+  const merged: ArticleInline[] = [];
+  for (const node of content) {
+    const last = merged[merged.length - 1];
+    if (node.type === "text" && last?.type === "text" && sameMarks(last, node)) {
+      last.text += node.text;
+    } else {
+      merged.push(node.type === "text" ? { ...node } : node);
+    }
+  }
+
+  merged.forEach((node, index) => {
+    if (node.type !== "text") return;
+    const previous = merged[index - 1];
+    const next = merged[index + 1];
+    if (!previous || previous.type === "hardBreak") node.text = node.text.replace(/^ +/, "");
+    if (!next || next.type === "hardBreak") node.text = node.text.replace(/ +$/, "");
+  });
+
+  const result = merged.filter(node => node.type !== "text" || node.text);
+  while (result[0]?.type === "hardBreak") result.shift();
+  while (result[result.length - 1]?.type === "hardBreak") result.pop();
+  return result;
+}
+
+function hasText(content: ArticleInline[]): boolean {
+  return content.some(node => node.type === "text" && node.text.trim());
+}
+
+function inlineContent(nodes: HtmlNode[]): ArticleInline[] {
+  const out: ArticleInline[] = [];
+  nodes.forEach(node => collectInline(node, [], out));
+  return normalizeInline(out);
+}
+
+function paragraphOf(content: ArticleInline[]): ArticleParagraph {
+  return content.length > 0 ? { type: "paragraph", content } : { type: "paragraph" };
+}
+
+function convertList(element: HtmlElement): ArticleList | null {
+  const items: ArticleListItem[] = [];
+
+  for (const child of element.children) {
+    const childList = listElement(child);
+    if (childList) {
+      // A list nested directly in a list (what execCommand produces) belongs to the previous item
+      const nested = convertList(childList);
+      if (!nested) continue;
+      if (items.length > 0) {
+        items[items.length - 1].content.push(nested);
+      } else {
+        items.push({ type: "listItem", content: [{ type: "paragraph" }, nested] });
+      }
+      continue;
+    }
+
+    const own = typeof child !== "string" && child.tag === "li" ? child.children : [child];
+    const content = inlineContent(own.filter(node => !listElement(node)));
+    const sublists = own
+      .map(node => listElement(node))
+      .map(element => element && convertList(element))
+      .filter((list): list is ArticleList => !!list);
+    if (!hasText(content) && sublists.length === 0) continue;
+    items.push({ type: "listItem", content: [paragraphOf(content), ...sublists] });
+  }
+
+  if (items.length === 0) return null;
+  if (element.tag === "ol") {
+    const start = parseInt(element.attrs.start || "1") || 1;
+    return start !== 1
+      ? { type: "orderedList", attrs: { start }, content: items }
+      : { type: "orderedList", content: items };
+  }
+  return { type: "bulletList", content: items };
+}
+
+function convertBlocks(nodes: HtmlNode[], blocks: ArticleBlock[]) {
+  let pending: HtmlNode[] = [];
+  const flush = () => {
+    const content = inlineContent(pending);
+    if (hasText(content)) blocks.push(paragraphOf(content));
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (!isBlockElement(node)) {
+      pending.push(node);
+      continue;
+    }
+
+    flush();
+    if (node.tag === "hr") {
+      blocks.push({ type: "horizontalRule" });
+    } else if (/^h[1-6]$/.test(node.tag)) {
+      const content = inlineContent(node.children);
+      const level = Math.min(3, parseInt(node.tag.slice(1))) as 1 | 2 | 3;
+      if (hasText(content)) blocks.push({ type: "heading", attrs: { level }, content });
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const list = convertList(node);
+      if (list) blocks.push(list);
+    } else if (node.tag === "li") {
+      const list = convertList({ tag: "ul", style: "", attrs: {}, children: [node] });
+      if (list) blocks.push(list);
+    } else {
+      convertBlocks(node.children, blocks);
+    }
+  }
+  flush();
+}
+
+export function htmlToDocument(html: string): ArticleDocument {
+  const blocks: ArticleBlock[] = [];
+  convertBlocks(parseHtml(html).children, blocks);
+  return { type: "doc", content: blocks };
+}
+
+// Stored article content: a serialized document, or HTML from before the
+// document model (and plain text, which reads as HTML without tags)
+export function parseArticleContent(content: string): ArticleDocument {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (isArticleDocument(parsed)) return parsed;
+    } catch {
+      // Not JSON after all - fall through to HTML
+    }
+  }
+  return htmlToDocument(content.includes("<") ? content : content.replace(/\n/g, "<br>"));
+}
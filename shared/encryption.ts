@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// Encrypted conversations keep their message texts and titles (and bubble
+// titles) as ciphertext the browser made with a key derived from a passphrase
+// only the user knows. The server never sees the key or the plaintext; it only
+// checks that what it stores looks like ciphertext.
+//
+//   key        PBKDF2-SHA256(passphrase, salt, iterations) -> AES-GCM 256
+//   ciphertext "enc:v1:<iv>:<AES-GCM output>", both parts base64
+//   verifier   ENCRYPTION_VERIFIER_TEXT encrypted with the key, so a wrong
+//              passphrase is noticed before anything is decrypted or written
+//
+// An empty title stays empty rather than being encrypted.
+
+export const ENCRYPTED_TEXT_PREFIX = "enc:v1:";
+export const ENCRYPTION_VERIFIER_TEXT = "neocortex";
+
+const BASE64 = "[A-Za-z0-9+/]+={0,2}";
+const ENCRYPTED_TEXT = new RegExp(`^${ENCRYPTED_TEXT_PREFIX}${BASE64}:${BASE64}$`);
+
+export const isEncryptedText = (value: string) => ENCRYPTED_TEXT.test(value);
+
+// What a title or text may be in an encrypted conversation
+export const isSealedText = (value: string) => value === "" || isEncryptedText(value);
+
+// How the key of an encrypted conversation is derived, stored with it
+export const conversationEncryptionSchema = z.object({
+  salt: z.string().regex(new RegExp(`^${BASE64}$`), "Salt must be base64"),
+  iterations: z.number().int().min(100_000).max(10_000_000),
+  verifier: z.string().refine(isEncryptedText, "Verifier must be encrypted"),
+});
+
+export type ConversationEncryption = z.infer<typeof conversationEncryptionSchema>;
@@ -1,28 +1,44 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, primaryKey, uniqueIndex, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import { articleDocumentSchema, type ArticleDocument } from "./article-document";
+import { conversationEncryptionSchema, type ConversationEncryption } from "./encryption";
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, "<salt>:<hash>" in hex
+  isAdmin: integer("is_admin", { mode: "boolean" }).default(false).notNull(),
+  pinHash: text("pin_hash"), // App lock PIN, hashed like the password; null when the lock is off
+  lockAfterMinutes: integer("lock_after_minutes").default(5).notNull(), // Idle time before the app locks
+  pinAttempts: integer("pin_attempts").default(0).notNull(), // PIN checks since the last success or lockout
+  pinLockedUntil: text("pin_locked_until"), // No PIN is checked before this time, after too many wrong ones
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
 
 export const conversations = sqliteTable("conversations", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner
   name: text("name").notNull(),
+  encryption: text("encryption", { mode: "json" }).$type<ConversationEncryption>(), // Key derivation of an encrypted conversation, null when not encrypted
   createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text("updated_at").notNull().$defaultFn(() => new Date().toISOString()),
 });
 
 export const messages = sqliteTable("messages", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  conversationId: integer("conversation_id").notNull(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
   text: text("text").notNull(),
   title: text("title").default("").notNull(),
   originalLanguage: text("original_language"), // Language code for original messages, null for translations
-  translatedFrom: integer("translated_from"), // Reference to original message ID if this is a translation
+  translatedFrom: integer("translated_from").references((): AnySQLiteColumn => messages.id, { onDelete: "cascade" }), // Reference to original message ID if this is a translation
   createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
 });
 
 export const bubbles = sqliteTable("bubbles", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  messageId: integer("message_id").notNull(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
   x: integer("x").default(0).notNull(),
   y: integer("y").default(0).notNull(),
   width: integer("width").default(280).notNull(),
@@ -34,15 +50,125 @@ export const bubbles = sqliteTable("bubbles", {
 
 export const articles = sqliteTable("articles", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner
+  title: text("title").notNull(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }), // Source conversation, null once it is deleted
+  content: text("content", { mode: "json" }).$type<ArticleDocument>().notNull(),
+  bubbleIds: text("bubble_ids", { mode: "json" }).$type<number[]>().notNull().$defaultFn(() => []),
+  wordCount: integer("word_count").default(0).notNull(), // Derived from content on every save
+  version: integer("version").default(1).notNull(), // Bumped on every save so stale writes can be refused
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updated_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// Snapshot of an article taken every time it is saved
+export const articleRevisions = sqliteTable("article_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  articleId: integer("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
-  content: text("content").notNull(),
-  bubbleIds: text("bubble_ids").notNull().default("[]"),
+  content: text("content", { mode: "json" }).$type<ArticleDocument>().notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+export const connections = sqliteTable("connections", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  fromBubbleId: integer("from_bubble_id").notNull().references(() => bubbles.id, { onDelete: "cascade" }),
+  toBubbleId: integer("to_bubble_id").notNull().references(() => bubbles.id, { onDelete: "cascade" }),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// Each user has their own set of keywords, so names are unique per owner
+export const keywords = sqliteTable("keywords", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner
+  name: text("name").notNull(),
   createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  uniqueIndex("keywords_user_id_name_idx").on(table.userId, table.name),
+]);
+
+// Keywords attached to a message, in order; position 0 is the primary keyword,
+// which is also mirrored into messages.title
+export const messageKeywords = sqliteTable("message_keywords", {
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  keywordId: integer("keyword_id").notNull().references(() => keywords.id, { onDelete: "cascade" }),
+  position: integer("position").default(0).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.keywordId] }),
+]);
+
+// Languages messages can be translated between, by code
+export const LANGUAGE_NAMES = {
+  zh: "Chinese",
+  en: "English",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  es: "Spanish",
+  pt: "Portuguese",
+  ru: "Russian",
+  ja: "Japanese",
+  ko: "Korean",
+  ar: "Arabic",
+} as const;
+
+export type LanguageCode = keyof typeof LANGUAGE_NAMES;
+
+// Colors a bubble can have
+export const BUBBLE_COLORS = ["blue", "green", "purple", "orange", "red"] as const;
+
+export type BubbleColor = typeof BUBBLE_COLORS[number];
+
+// Preferences of a user. Without a row, DEFAULT_SETTINGS apply.
+export const settings = sqliteTable("settings", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  sourceLanguage: text("source_language").$type<LanguageCode>().default("zh").notNull(), // Default "from" language of translations
+  targetLanguage: text("target_language").$type<LanguageCode>().default("en").notNull(), // Default "to" language of translations
+  bubbleColors: text("bubble_colors", { mode: "json" }).$type<BubbleColor[]>().notNull(), // New bubbles take these in turn
+  ttsVoice: text("tts_voice"), // voiceURI of the speech voice to read with, null to pick one by language
+  todayTalkName: text("today_talk_name").default("Brain Talk").notNull(), // Follows the date in the name of a day's conversation
   updatedAt: text("updated_at").notNull().$defaultFn(() => new Date().toISOString()),
 });
 
+// Each user's cache of machine translations, keyed by the source text's hash and the language pair
+export const translations = sqliteTable("translations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner
+  textHash: text("text_hash").notNull(),
+  sourceLanguage: text("source_language").notNull(),
+  targetLanguage: text("target_language").notNull(),
+  provider: text("provider").notNull(),
+  translatedText: text("translated_text").notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  uniqueIndex("translations_lookup_idx").on(table.userId, table.textHash, table.sourceLanguage, table.targetLanguage),
+]);
+
+// POST /api/register and /api/login
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[\w.-]+$/, "Use letters, digits, '.', '-' and '_' only"),
+  password: z.string().min(8).max(200),
+});
+
+// A 6-digit app lock PIN
+export const pinSchema = z.string().regex(/^\d{6}$/, "PIN must be 6 digits");
+
+// PUT /api/lock/pin: a PIN that is already set must be given to change it
+export const setPinSchema = z.object({
+  pin: pinSchema,
+  currentPin: z.string().optional(),
+});
+
+// PATCH /api/lock
+export const lockSettingsSchema = z.object({
+  lockAfterMinutes: z.number().int().min(1).max(240),
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
+  userId: true,
+  encryption: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -51,45 +177,326 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
 }).extend({
   createdAt: z.string().datetime().optional(),
+  keywords: z.array(z.string()).optional(),
 });
 
 export const insertBubbleSchema = createInsertSchema(bubbles).omit({
   id: true,
 });
 
-export const insertArticleSchema = createInsertSchema(articles).omit({
+// PUT /api/conversations/:id/bubbles/layout: new positions (and sizes) of
+// some of the conversation's bubbles, applied together
+export const bubbleLayoutSchema = z.array(z.object({
+  id: z.number().int(),
+  x: z.number().int(),
+  y: z.number().int(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+})).max(5000);
+
+// POST /api/conversations/:id/bubbles/recreate: the conversation's bubbles are
+// replaced by these, or with `keepExisting` these are added for messages that
+// have no bubble yet. Connections between replaced bubbles go with them.
+export const recreateBubblesSchema = z.object({
+  bubbles: z.array(insertBubbleSchema).max(5000),
+  keepExisting: z.boolean().default(false),
+});
+
+// Written out by hand: drizzle-zod cannot derive a schema from the recursive
+// document type of the content column
+export const insertArticleSchema = z.object({
+  title: z.string(),
+  conversationId: z.number().int().nullable().optional(),
+  content: articleDocumentSchema,
+  bubbleIds: z.array(z.number().int()).optional(),
+});
+
+// PATCH /api/articles/:id. `version` is the version the edit was based on;
+// autosaves pass `revision: false` to stay out of the revision history
+export const updateArticleSchema = insertArticleSchema.partial().extend({
+  version: z.number().int().optional(),
+  revision: z.boolean().default(true),
+});
+
+// Query string of GET /api/articles
+export const articleListQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  conversationId: z.coerce.number().int().optional(),
+  sort: z.enum(["updated", "words"]).default("updated"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const insertKeywordSchema = createInsertSchema(keywords, {
+  name: (schema) => schema.trim().min(1),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
-  updatedAt: true,
 });
 
+export const insertTranslationSchema = createInsertSchema(translations).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const translateRequestSchema = z.object({
+  text: z.string().trim().min(1),
+  from: z.string().min(2),
+  to: z.string().min(2),
+  provider: z.string().optional(),
+});
+
+// A message's place in its conversation, "<createdAt>_<id>". Pages hand out
+// cursors; clients pass them back unchanged.
+const messageCursorSchema = z.string().transform((value, ctx) => {
+  const match = /^(.+)_(\d+)$/.exec(value);
+  if (!match) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return { createdAt: match[1], id: parseInt(match[2]) };
+});
+
+// Query string of a page of GET /api/conversations/:id/messages: the messages
+// before or after a cursor, around a message, or from a moment on. Without an
+// anchor, the newest messages.
+export const messagePageQuerySchema = z.object({
+  before: messageCursorSchema.optional(),
+  after: messageCursorSchema.optional(),
+  around: z.coerce.number().int().optional(),
+  date: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(
+  query => [query.before, query.after, query.around, query.date].filter(anchor => anchor !== undefined).length <= 1,
+  { message: "Use only one of before, after, around and date" },
+);
+
+// Query string of GET /api/messages/sources: a comma-separated list of ids
+export const messageSourcesQuerySchema = z.object({
+  ids: z.string()
+    .transform(value => value.split(",").filter(Boolean).map(Number))
+    .pipe(z.array(z.number().int().positive()).max(500)),
+});
+
+const bulkMessageTarget = {
+  targetConversationId: z.number().int().optional(),
+  newConversationName: z.string().trim().min(1).optional(),
+};
+
+// One request, one transaction: move/copy keep timestamps, keywords, bubbles,
+// connections between the affected bubbles, and translation links
+export const bulkMessageOperationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("move"), messageIds: z.array(z.number().int()).min(1), ...bulkMessageTarget }),
+  z.object({ action: z.literal("copy"), messageIds: z.array(z.number().int()).min(1), ...bulkMessageTarget }),
+  z.object({ action: z.literal("delete"), messageIds: z.array(z.number().int()).min(1) }),
+  z.object({ action: z.literal("set-keywords"), messageIds: z.array(z.number().int()).min(1), keywords: z.array(z.string()) }),
+]).superRefine((operation, ctx) => {
+  if (operation.action === "move" || operation.action === "copy") {
+    if ((operation.targetConversationId === undefined) === (operation.newConversationName === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Provide either targetConversationId or newConversationName",
+      });
+    }
+  }
+});
+
+// PUT /api/conversations/:id/encryption: turns encryption on (or changes the
+// passphrase) with `encryption`, or off with null. Every message and bubble of
+// the conversation comes along, rewritten by the browser for the new state.
+export const conversationEncryptionUpdateSchema = z.object({
+  encryption: conversationEncryptionSchema.nullable(),
+  messages: z.array(z.object({
+    id: z.number().int(),
+    text: z.string(),
+    title: z.string(),
+  })),
+  bubbles: z.array(z.object({
+    id: z.number().int(),
+    title: z.string(),
+  })),
+});
+
+export const insertConnectionSchema = createInsertSchema(connections).omit({
+  id: true,
+}).extend({
+  createdAt: z.string().datetime().optional(),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type SetPin = z.infer<typeof setPinSchema>;
+export type LockSettings = z.infer<typeof lockSettingsSchema>;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type InsertBubble = z.infer<typeof insertBubbleSchema>;
+export type BubbleLayout = z.infer<typeof bubbleLayoutSchema>;
+export type RecreateBubbles = z.infer<typeof recreateBubblesSchema>;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
+export type InsertConnection = z.infer<typeof insertConnectionSchema>;
+export type InsertKeyword = z.infer<typeof insertKeywordSchema>;
+export type InsertTranslation = z.infer<typeof insertTranslationSchema>;
+export type TranslateRequest = z.infer<typeof translateRequestSchema>;
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+export type BulkMessageOperation = z.infer<typeof bulkMessageOperationSchema>;
+export type ConversationEncryptionUpdate = z.infer<typeof conversationEncryptionUpdateSchema>;
+export type ArticleListQuery = z.infer<typeof articleListQuerySchema>;
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+export type MessageCursor = NonNullable<MessagePageQuery["before"]>;
 
+export type User = typeof users.$inferSelect;
+// What the client gets to see of an account
+export type PublicUser = Omit<User, "passwordHash" | "pinHash" | "pinAttempts" | "pinLockedUntil">;
+export type InsertUser = Pick<User, "username" | "passwordHash">;
 export type Conversation = typeof conversations.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type Bubble = typeof bubbles.$inferSelect;
 export type Article = typeof articles.$inferSelect;
+export type Connection = typeof connections.$inferSelect;
+export type Keyword = typeof keywords.$inferSelect;
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+export type Translation = typeof translations.$inferSelect;
+
+// GET /api/settings
+export type Settings = Omit<typeof settings.$inferSelect, "userId" | "updatedAt">;
+
+// What a user who never saved settings gets
+export const DEFAULT_SETTINGS: Settings = {
+  sourceLanguage: "zh",
+  targetLanguage: "en",
+  bubbleColors: [...BUBBLE_COLORS],
+  ttsVoice: null,
+  todayTalkName: "Brain Talk",
+};
+
+// GET /api/lock, as seen by the requesting tab
+export type LockStatus = {
+  enabled: boolean;
+  locked: boolean;
+  lockAfterMinutes: number;
+};
+
+// Sent with every API request from the unlocked tab, as X-Unlock-Token
+export type UnlockResponse = {
+  token: string;
+};
 
 export type ConversationWithStats = Conversation & {
   messageCount: number;
-  wordCount: number;
-  lastMessage?: string;
+  wordCount: number; // 0 for an encrypted conversation, whose words can't be counted
+  lastMessage?: string; // Ciphertext in an encrypted conversation
+};
+
+// Library listing: everything but the document itself
+export type ArticleSummary = Omit<Article, "content"> & {
+  conversationName: string | null;
+  excerpt: string; // Text of the first paragraph
+};
+
+export type ArticleListPage = {
+  articles: ArticleSummary[];
+  total: number;
+};
+
+export type KeywordWithCount = Keyword & {
+  usageCount: number;
+};
+
+export type BulkMessageResult = {
+  action: BulkMessageOperation["action"];
+  conversationId?: number; // Target conversation of a move or copy
+  messageIds: number[]; // Affected messages; the new copies for a copy
+};
+
+export type TranslateResponse = {
+  translatedText: string;
+  provider: string;
+  cached: boolean;
+};
+
+export type SearchResult = {
+  kind: "message" | "article";
+  id: number;
+  conversationId: number | null;
+  conversationName: string | null;
+  title: string; // HTML with <mark> around matches
+  snippet: string; // HTML with <mark> around matches
+  rank: number;
+  createdAt: string;
+  hasBubble: boolean;
+  link: string;
+};
+
+// A message cited by an article, with what a citation shows of it
+export type MessageSource = {
+  messageId: number;
+  conversationId: number;
+  conversationName: string;
+  title: string;
+  text: string;
+  createdAt: string;
+};
+
+// A row whose foreign key points at a row that no longer exists
+export type IntegrityOrphan = {
+  table: string;
+  rowId: number;
+  parent: string;
+};
+
+export type IntegrityReport = {
+  ok: boolean;
+  orphans: IntegrityOrphan[];
+  repaired: number;
 };
 
 export type MessageWithBubble = Message & {
   bubble?: Bubble;
+  keywords: string[];
+};
+
+// Oldest first. The cursors are null at either end of the conversation.
+export type MessagePage = {
+  messages: MessageWithBubble[];
+  olderCursor: string | null;
+  newerCursor: string | null;
 };
 
 export type BubbleWithMessage = Bubble & {
   message: Message;
 };
 
+// PUT /api/settings, all preferences at once
+export const updateSettingsSchema = z.object({
+  sourceLanguage: z.enum(Object.keys(LANGUAGE_NAMES) as [LanguageCode]),
+  targetLanguage: z.enum(Object.keys(LANGUAGE_NAMES) as [LanguageCode]),
+  bubbleColors: z.array(z.enum(BUBBLE_COLORS)).min(1).max(BUBBLE_COLORS.length)
+    .refine(colors => new Set(colors).size === colors.length, "Each color can be used once"),
+  ttsVoice: z.string().trim().min(1).max(500).nullable(),
+  todayTalkName: z.string().trim().min(1).max(100),
+}).refine(settings => settings.sourceLanguage !== settings.targetLanguage, {
+  message: "Source and target language must differ",
+  path: ["targetLanguage"],
+});
+
 // Relations
-export const conversationsRelations = relations(conversations, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  conversations: many(conversations),
+  articles: many(articles),
+  keywords: many(keywords),
+  settings: one(settings),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [conversations.userId],
+    references: [users.id],
+  }),
   messages: many(messages),
+  connections: many(connections),
+  articles: many(articles),
 }));
 
 export const messagesRelations = relations(messages, ({ one, many }) => ({
@@ -98,6 +505,7 @@ export const messagesRelations = relations(messages, ({ one, many }) => ({
     references: [conversations.id],
   }),
   bubbles: many(bubbles),
+  keywords: many(messageKeywords),
 }));
 
 export const bubblesRelations = relations(bubbles, ({ one }) => ({
@@ -106,3 +514,63 @@ export const bubblesRelations = relations(bubbles, ({ one }) => ({
     references: [messages.id],
   }),
 }));
+
+export const connectionsRelations = relations(connections, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [connections.conversationId],
+    references: [conversations.id],
+  }),
+  fromBubble: one(bubbles, {
+    fields: [connections.fromBubbleId],
+    references: [bubbles.id],
+  }),
+  toBubble: one(bubbles, {
+    fields: [connections.toBubbleId],
+    references: [bubbles.id],
+  }),
+}));
+
+export const keywordsRelations = relations(keywords, ({ one, many }) => ({
+  user: one(users, {
+    fields: [keywords.userId],
+    references: [users.id],
+  }),
+  messages: many(messageKeywords),
+}));
+
+export const messageKeywordsRelations = relations(messageKeywords, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageKeywords.messageId],
+    references: [messages.id],
+  }),
+  keyword: one(keywords, {
+    fields: [messageKeywords.keywordId],
+    references: [keywords.id],
+  }),
+}));
+
+export const articlesRelations = relations(articles, ({ one, many }) => ({
+  user: one(users, {
+    fields: [articles.userId],
+    references: [users.id],
+  }),
+  conversation: one(conversations, {
+    fields: [articles.conversationId],
+    references: [conversations.id],
+  }),
+  revisions: many(articleRevisions),
+}));
+
+export const articleRevisionsRelations = relations(articleRevisions, ({ one }) => ({
+  article: one(articles, {
+    fields: [articleRevisions.articleId],
+    references: [articles.id],
+  }),
+}));
+
+export const settingsRelations = relations(settings, ({ one }) => ({
+  user: one(users, {
+    fields: [settings.userId],
+    references: [users.id],
+  }),
+}));
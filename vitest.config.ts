@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server tests only; vite.config.ts is rooted at the client
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    setupFiles: ["server/test-setup.ts"],
+    // Each file gets its own database, created by the first import of server/db
+    pool: "forks",
+  },
+});